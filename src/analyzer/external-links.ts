@@ -0,0 +1,118 @@
+/**
+ * 外部リンク一覧モジュール
+ * プロジェクト全体から外部URL（リンク・画像・動画・音声・埋め込み）を集める
+ * 画像のダウンロードやリンク切れチェックなど、外部URLを扱う処理はこの一覧を使う
+ */
+import type { CosensePage } from "../parser/types.js";
+import type { ParsedNode } from "../parser/line-types.js";
+import { parseLines, isBareImageLink } from "../parser/line-parser.js";
+import { getLineText } from "../parser/types.js";
+
+// 外部URLのパターン
+const EXTERNAL_URL_PATTERN = /^https?:\/\//;
+
+/**
+ * 外部URLの種類
+ */
+export type ExternalLinkKind = "link" | "image" | "video" | "audio" | "embed";
+
+/**
+ * 外部URLの一覧の項目
+ */
+export interface ExternalLinkEntry {
+  url: string;
+  kind: ExternalLinkKind;
+  /** URLが書かれているページのタイトル（出現順、重複なし） */
+  pages: string[];
+  /** プロジェクト全体での出現回数 */
+  count: number;
+}
+
+/**
+ * 外部リンク一覧の作成オプション
+ */
+export interface ExternalLinkOptions {
+  /** 括弧なしで書かれた画像URLを画像として扱うか（デフォルト: false） */
+  bareImageUrls?: boolean;
+}
+
+/**
+ * ノードに含まれる外部URLを種類とともに列挙する（子ノードも含む）
+ */
+function collectNodeUrls(
+  node: ParsedNode,
+  options: ExternalLinkOptions
+): { url: string; kind: ExternalLinkKind }[] {
+  switch (node.type) {
+    case "external-link":
+      if (options.bareImageUrls && isBareImageLink(node)) {
+        return [{ url: node.url, kind: "image" }];
+      }
+      return [{ url: node.url, kind: "link" }];
+    case "image":
+      return [{ url: node.url, kind: "image" }];
+    case "image-link":
+      return [
+        { url: node.url, kind: "image" },
+        { url: node.href, kind: "link" },
+      ];
+    case "video":
+    case "audio":
+    case "embed":
+      return [{ url: node.url, kind: node.type }];
+    case "bold":
+    case "decoration":
+      return node.children.flatMap((child) => collectNodeUrls(child, options));
+    default:
+      return [];
+  }
+}
+
+/**
+ * ページ配列から外部URLの一覧を作成する
+ * 同じURLでも種類が異なる場合（画像とリンクなど）は別の項目になる
+ * @returns 最初に出現した順の一覧
+ */
+export function collectExternalLinks(
+  pages: CosensePage[],
+  options: ExternalLinkOptions = {}
+): ExternalLinkEntry[] {
+  const entries = new Map<string, ExternalLinkEntry>();
+
+  for (const page of pages) {
+    const parsedLines = parseLines(page.lines.map(getLineText));
+
+    for (const parsedLine of parsedLines) {
+      if (parsedLine.isCodeBlockContent) {
+        continue;
+      }
+      for (const node of parsedLine.nodes) {
+        for (const { url, kind } of collectNodeUrls(node, options)) {
+          // ローカルパスなど外部URLでないものは対象外
+          if (!EXTERNAL_URL_PATTERN.test(url)) {
+            continue;
+          }
+          const key = `${kind} ${url}`;
+          let entry = entries.get(key);
+          if (!entry) {
+            entry = { url, kind, pages: [], count: 0 };
+            entries.set(key, entry);
+          }
+          entry.count++;
+          if (!entry.pages.includes(page.title)) {
+            entry.pages.push(page.title);
+          }
+        }
+      }
+    }
+  }
+
+  return Array.from(entries.values());
+}
+
+/**
+ * 外部リンク一覧をJSON文字列にシリアライズ
+ */
+export function serializeExternalLinks(entries: ExternalLinkEntry[]): string {
+  return JSON.stringify(entries);
+}
@@ -0,0 +1,240 @@
+/**
+ * リンクグラフの分析モジュール
+ * 孤立したページ、リンク元のないページ、ハブ、PageRank、存在しないリンク先、連結成分を計算する
+ * プロジェクトの保守（リンク切れや孤立したページの整理）に使う
+ */
+import type { LinkGraph } from "./link-analyzer.js";
+import { getMissingPages } from "./link-analyzer.js";
+
+// PageRankのパラメータ
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_MAX_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-8;
+
+/**
+ * ページとリンク元の数
+ */
+export interface RankedPage {
+  title: string;
+  /** リンク元のページ数 */
+  inDegree: number;
+}
+
+/**
+ * ページとPageRankのスコア
+ */
+export interface PageRankEntry {
+  title: string;
+  score: number;
+  /** リンクされているが存在しないページか */
+  missing: boolean;
+}
+
+/**
+ * リンクグラフの分析結果
+ */
+export interface GraphReport {
+  /** 存在するページ数 */
+  pageCount: number;
+  /** リンクの数（ページ間の向きのあるリンク） */
+  linkCount: number;
+  /** リンク先もリンク元もないページ */
+  orphans: string[];
+  /** リンク先はあるがリンク元のないページ */
+  outboundOnly: string[];
+  /** リンク元の多いページ（上位N件） */
+  hubs: RankedPage[];
+  /** PageRankの高いページ（上位N件、存在しないページも含む） */
+  pageRank: PageRankEntry[];
+  /** リンクされているが存在しないページ（リンク元の多い順） */
+  missingTargets: RankedPage[];
+  /** 連結成分（リンクの向きを無視してつながっているページのまとまり、大きい順） */
+  components: string[][];
+}
+
+/**
+ * 分析のオプション
+ */
+export interface GraphReportOptions {
+  /** ハブとPageRankの件数（デフォルト: 20） */
+  top?: number;
+}
+
+/**
+ * PageRankを計算する（リンク先のないページのスコアは全ページに均等に分配する）
+ * @returns タイトル -> スコア（合計は1）
+ */
+export function computePageRank(graph: LinkGraph): Map<string, number> {
+  const titles = Array.from(new Set([...graph.existingPages, ...graph.backLinks.keys()]));
+  const n = titles.length;
+  const ranks = new Map<string, number>();
+  if (n === 0) {
+    return ranks;
+  }
+  for (const title of titles) {
+    ranks.set(title, 1 / n);
+  }
+
+  for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+    // リンク先のないページのスコアは全ページに分配する
+    let danglingSum = 0;
+    for (const title of titles) {
+      if ((graph.forwardLinks.get(title)?.size || 0) === 0) {
+        danglingSum += ranks.get(title)!;
+      }
+    }
+    const base = (1 - PAGERANK_DAMPING) / n + (PAGERANK_DAMPING * danglingSum) / n;
+    const next = new Map<string, number>();
+    for (const title of titles) {
+      next.set(title, base);
+    }
+    for (const title of titles) {
+      const targets = graph.forwardLinks.get(title);
+      if (!targets || targets.size === 0) {
+        continue;
+      }
+      const share = (PAGERANK_DAMPING * ranks.get(title)!) / targets.size;
+      for (const target of targets) {
+        next.set(target, next.get(target)! + share);
+      }
+    }
+
+    let delta = 0;
+    for (const title of titles) {
+      delta += Math.abs(next.get(title)! - ranks.get(title)!);
+      ranks.set(title, next.get(title)!);
+    }
+    if (delta < PAGERANK_TOLERANCE) {
+      break;
+    }
+  }
+
+  return ranks;
+}
+
+/**
+ * 連結成分を求める（リンクの向きは無視する、存在しないページも含む）
+ * @returns 大きい順（同じ大きさなら最初のタイトル順）、成分内はタイトル順
+ */
+export function findConnectedComponents(graph: LinkGraph): string[][] {
+  const titles = Array.from(new Set([...graph.existingPages, ...graph.backLinks.keys()]));
+  const visited = new Set<string>();
+  const components: string[][] = [];
+
+  for (const start of titles) {
+    if (visited.has(start)) {
+      continue;
+    }
+    const component: string[] = [];
+    const stack = [start];
+    visited.add(start);
+    while (stack.length > 0) {
+      const title = stack.pop()!;
+      component.push(title);
+      const neighbors = [
+        ...(graph.forwardLinks.get(title) || []),
+        ...(graph.backLinks.get(title) || []),
+      ];
+      for (const neighbor of neighbors) {
+        if (!visited.has(neighbor)) {
+          visited.add(neighbor);
+          stack.push(neighbor);
+        }
+      }
+    }
+    components.push(component.sort((a, b) => a.localeCompare(b)));
+  }
+
+  return components.sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+}
+
+/**
+ * リンクグラフを分析する
+ */
+export function analyzeLinkGraph(
+  graph: LinkGraph,
+  options: GraphReportOptions = {}
+): GraphReport {
+  const top = options.top ?? 20;
+  const existing = Array.from(graph.existingPages);
+  const inDegree = (title: string) => graph.backLinks.get(title)?.size || 0;
+  const outDegree = (title: string) => graph.forwardLinks.get(title)?.size || 0;
+
+  let linkCount = 0;
+  for (const targets of graph.forwardLinks.values()) {
+    linkCount += targets.size;
+  }
+
+  const hubs = existing
+    .filter((title) => inDegree(title) > 0)
+    .map((title) => ({ title, inDegree: inDegree(title) }))
+    .sort((a, b) => b.inDegree - a.inDegree || a.title.localeCompare(b.title))
+    .slice(0, top);
+
+  const pageRank = Array.from(computePageRank(graph), ([title, score]) => ({
+    title,
+    score,
+    missing: !graph.existingPages.has(title),
+  }))
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+    .slice(0, top);
+
+  return {
+    pageCount: existing.length,
+    linkCount,
+    orphans: existing.filter((title) => inDegree(title) === 0 && outDegree(title) === 0),
+    outboundOnly: existing.filter((title) => inDegree(title) === 0 && outDegree(title) > 0),
+    hubs,
+    pageRank,
+    missingTargets: getMissingPages(graph).map((title) => ({ title, inDegree: inDegree(title) })),
+    components: findConnectedComponents(graph),
+  };
+}
+
+/**
+ * 分析結果をJSON文字列にシリアライズ
+ */
+export function serializeGraphReport(report: GraphReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * 分析結果をコンソール出力用のテキストにする
+ * @param limit 一覧ごとに表示する最大件数
+ */
+export function formatGraphReport(report: GraphReport, limit: number = 20): string {
+  const lines: string[] = [];
+  const list = (heading: string, items: string[]) => {
+    lines.push(`${heading} (${items.length})`);
+    for (const item of items.slice(0, limit)) {
+      lines.push(`  - ${item}`);
+    }
+    if (items.length > limit) {
+      lines.push(`  ... 他 ${items.length - limit} 件`);
+    }
+    lines.push("");
+  };
+
+  lines.push(`ページ数: ${report.pageCount}`);
+  lines.push(`リンク数: ${report.linkCount}`);
+  lines.push(`連結成分: ${report.components.length}（最大 ${report.components[0]?.length ?? 0} ページ）`);
+  lines.push("");
+  list("孤立したページ", report.orphans);
+  list("リンク元のないページ", report.outboundOnly);
+  list(
+    "よくリンクされているページ",
+    report.hubs.map((hub) => `${hub.title} (${hub.inDegree})`)
+  );
+  list(
+    "PageRank",
+    report.pageRank.map(
+      (entry) => `${entry.title} (${entry.score.toFixed(4)})${entry.missing ? " [未作成]" : ""}`
+    )
+  );
+  list(
+    "存在しないリンク先",
+    report.missingTargets.map((target) => `${target.title} (${target.inDegree})`)
+  );
+
+  return lines.join("\n").trimEnd();
+}
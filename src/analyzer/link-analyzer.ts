@@ -3,11 +3,20 @@
  * ページ間のリンクグラフを構築し、1hop/2hopリンクを計算する
  */
 import type { CosensePage } from "../parser/types.js";
+import type { ParsedNode, ParsedLine } from "../parser/line-types.js";
 import { parseLines } from "../parser/line-parser.js";
 import { getLineText } from "../parser/types.js";
+import { createTitleIndex, toTitleKey } from "../parser/title-key.js";
+
+// 2ホップリンクのスコアの重み
+const SHARED_LINK_WEIGHT = 1; // 共通するリンク1件あたり
+const RECENCY_WEIGHT = 0.5; // 最も新しく更新されたページで最大
+const POPULARITY_WEIGHT = 0.5; // 最も閲覧数の多いページで最大
 
 /**
  * リンクグラフの型定義
+ * ページは表示用のタイトルで表す。リンク先は正規化キーで照合し、
+ * 存在するページならそのタイトル、存在しないページなら最初に出現した表記に揃える
  */
 export interface LinkGraph {
   /** 順方向リンク: ページタイトル -> リンク先ページタイトルのセット */
@@ -15,9 +24,38 @@ export interface LinkGraph {
   /** 逆方向リンク（バックリンク）: ページタイトル -> リンク元ページタイトルのセット */
   backLinks: Map<string, Set<string>>;
   /** リンクコンテキスト: ページタイトル -> (リンク先タイトル -> コンテキスト行の配列) */
-  linkContexts: Map<string, Map<string, string[]>>;
+  linkContexts: Map<string, Map<string, LinkContext[]>>;
+  /** リンクの種類: ページタイトル -> (リンク先タイトル -> リンクの種類のセット) */
+  linkTypes: Map<string, Map<string, Set<LinkType>>>;
   /** 存在するページタイトルのセット */
   existingPages: Set<string>;
+  /** 存在するページの正規化キーの索引（正規化キー -> タイトル、リンクの表記からページを探すのに使う） */
+  pageIndex: Map<string, string>;
+  /** 存在するページの更新日時と閲覧数（関連度のスコア計算に使う） */
+  pageStats: Map<string, PageStats>;
+}
+
+/**
+ * リンクが書かれている行（コンテキスト行）
+ */
+export interface LinkContext {
+  /** 行の元のテキスト */
+  text: string;
+  /** ページ全体でパースした行（テーブルのセルやコードブロックの中かどうかを含む） */
+  line: ParsedLine;
+}
+
+/**
+ * リンクの種類（[ページ] は internal、#tag は hashtag）
+ */
+export type LinkType = "internal" | "hashtag";
+
+/**
+ * ページの更新日時と閲覧数
+ */
+export interface PageStats {
+  updated: number;
+  views: number;
 }
 
 /**
@@ -31,32 +69,63 @@ export interface OneHopLinks {
 }
 
 /**
- * ページの内容からリンクを抽出する
+ * 2ホップ先のページ
  */
-function extractLinks(page: CosensePage): Map<string, string[]> {
-  const links = new Map<string, string[]>();
-  const lines = page.lines.map(getLineText);
-  const parsedLines = parseLines(lines);
+export interface TwoHopPage {
+  title: string;
+  /** このページと共通するリンク（1ホップ先のページ）の数 */
+  sharedLinks: number;
+  /** 関連度のスコア（共通するリンクの数、更新日時の新しさ、閲覧数から計算） */
+  score: number;
+}
 
-  for (let i = 0; i < parsedLines.length; i++) {
-    const parsedLine = parsedLines[i];
-    const originalLine = lines[i];
+/**
+ * 1ホップ先のページ（橋渡しするページ）ごとにまとめた2ホップリンク
+ */
+export interface TwoHopGroup {
+  /** 橋渡しするページ（存在しないページやハッシュタグのこともある） */
+  via: string;
+  /** 2ホップ先のページ（スコアの高い順） */
+  pages: TwoHopPage[];
+}
+
+/**
+ * ノードのリンク先を抽出する（装飾の中の [* [ページ]] のような入れ子のリンクも含む）
+ */
+function collectLinkTargets(node: ParsedNode): { title: string; type: LinkType }[] {
+  switch (node.type) {
+    case "internal-link":
+      return [{ title: node.title, type: "internal" }];
+    case "hashtag":
+      return [{ title: node.tag, type: "hashtag" }];
+    case "bold":
+    case "decoration":
+      return node.children.flatMap(collectLinkTargets);
+    default:
+      return [];
+  }
+}
 
-    for (const node of parsedLine.nodes) {
-      let linkTarget: string | null = null;
+/**
+ * ページの内容からリンクを抽出する
+ * 同じ行に同じリンクが複数あっても、コンテキスト行は1回だけ数える
+ * @returns リンクの表記 -> コンテキスト行の番号とリンクの種類
+ */
+function extractLinks(
+  parsedLines: ParsedLine[]
+): Map<string, { contexts: number[]; types: Set<LinkType> }> {
+  const links = new Map<string, { contexts: number[]; types: Set<LinkType> }>();
 
-      if (node.type === "internal-link") {
-        linkTarget = node.title;
-      } else if (node.type === "hashtag") {
-        linkTarget = node.tag;
+  for (let i = 0; i < parsedLines.length; i++) {
+    for (const { title, type } of parsedLines[i].nodes.flatMap(collectLinkTargets)) {
+      if (!links.has(title)) {
+        links.set(title, { contexts: [], types: new Set() });
       }
-
-      if (linkTarget) {
-        if (!links.has(linkTarget)) {
-          links.set(linkTarget, []);
-        }
-        links.get(linkTarget)!.push(originalLine);
+      const link = links.get(title)!;
+      if (link.contexts[link.contexts.length - 1] !== i) {
+        link.contexts.push(i);
       }
+      link.types.add(type);
     }
   }
 
@@ -69,22 +138,40 @@ function extractLinks(page: CosensePage): Map<string, string[]> {
 export function buildLinkGraph(pages: CosensePage[]): LinkGraph {
   const forwardLinks = new Map<string, Set<string>>();
   const backLinks = new Map<string, Set<string>>();
-  const linkContexts = new Map<string, Map<string, string[]>>();
+  const linkContexts = new Map<string, Map<string, LinkContext[]>>();
+  const linkTypes = new Map<string, Map<string, Set<LinkType>>>();
   const existingPages = new Set<string>();
+  const pageStats = new Map<string, PageStats>();
+  // 正規化キー -> 表示用のタイトル（存在するページを優先）
+  const pageIndex = createTitleIndex(pages.map((page) => page.title));
+  const titleIndex = new Map(pageIndex);
 
   // 存在するページを登録
   for (const page of pages) {
     existingPages.add(page.title);
+    pageStats.set(page.title, { updated: page.updated, views: page.views ?? 0 });
     forwardLinks.set(page.title, new Set());
     backLinks.set(page.title, new Set());
     linkContexts.set(page.title, new Map());
+    linkTypes.set(page.title, new Map());
   }
 
   // リンクを解析
   for (const page of pages) {
-    const pageLinks = extractLinks(page);
+    const lines = page.lines.map(getLineText);
+    const parsedLines = parseLines(lines);
+    const pageLinks = extractLinks(parsedLines);
+    // リンク先 -> コンテキスト行の番号（表記の揺れをまとめても同じ行は1回だけ数える）
+    const contextLines = new Map<string, Set<number>>();
+
+    for (const [linkText, { contexts, types }] of pageLinks) {
+      // 表記の揺れ（大文字・小文字、空白と_）を同じページにまとめる
+      const key = toTitleKey(linkText);
+      if (!titleIndex.has(key)) {
+        titleIndex.set(key, linkText);
+      }
+      const target = titleIndex.get(key)!;
 
-    for (const [target, contexts] of pageLinks) {
       // 順方向リンク
       forwardLinks.get(page.title)!.add(target);
 
@@ -95,15 +182,35 @@ export function buildLinkGraph(pages: CosensePage[]): LinkGraph {
       backLinks.get(target)!.add(page.title);
 
       // コンテキスト
-      const pageContexts = linkContexts.get(page.title)!;
-      if (!pageContexts.has(target)) {
-        pageContexts.set(target, []);
+      if (!contextLines.has(target)) {
+        contextLines.set(target, new Set());
       }
-      pageContexts.get(target)!.push(...contexts);
+      for (const lineIndex of contexts) {
+        contextLines.get(target)!.add(lineIndex);
+      }
+
+      // リンクの種類
+      const pageLinkTypes = linkTypes.get(page.title)!;
+      if (!pageLinkTypes.has(target)) {
+        pageLinkTypes.set(target, new Set());
+      }
+      for (const type of types) {
+        pageLinkTypes.get(target)!.add(type);
+      }
+    }
+
+    const pageContexts = linkContexts.get(page.title)!;
+    for (const [target, lineIndexes] of contextLines) {
+      pageContexts.set(
+        target,
+        Array.from(lineIndexes)
+          .sort((a, b) => a - b)
+          .map((lineIndex) => ({ text: lines[lineIndex], line: parsedLines[lineIndex] }))
+      );
     }
   }
 
-  return { forwardLinks, backLinks, linkContexts, existingPages };
+  return { forwardLinks, backLinks, linkContexts, linkTypes, existingPages, pageIndex, pageStats };
 }
 
 /**
@@ -171,6 +278,96 @@ export function get2HopLinks(graph: LinkGraph, pageTitle: string): string[] {
   return Array.from(twoHopSet);
 }
 
+// グラフごとの更新日時・閲覧数の範囲（スコアの正規化に使う、ページごとに計算しないようにキャッシュする）
+const statsRangeCache = new WeakMap<
+  LinkGraph,
+  { oldest: number; newest: number; maxViews: number }
+>();
+
+/**
+ * 更新日時と閲覧数の範囲を取得する
+ */
+function getStatsRange(graph: LinkGraph): { oldest: number; newest: number; maxViews: number } {
+  let range = statsRangeCache.get(graph);
+  if (!range) {
+    range = { oldest: Infinity, newest: -Infinity, maxViews: 0 };
+    for (const { updated, views } of graph.pageStats.values()) {
+      range.oldest = Math.min(range.oldest, updated);
+      range.newest = Math.max(range.newest, updated);
+      range.maxViews = Math.max(range.maxViews, views);
+    }
+    statsRangeCache.set(graph, range);
+  }
+  return range;
+}
+
+/**
+ * 2ホップ先のページのスコアを計算する
+ * 更新日時はプロジェクト内で最も古いページを0、最も新しいページを1として、
+ * 閲覧数は対数で0〜1に正規化して加える
+ */
+function scoreTwoHopPage(graph: LinkGraph, title: string, sharedLinks: number): number {
+  const stats = graph.pageStats.get(title);
+  let score = sharedLinks * SHARED_LINK_WEIGHT;
+  if (!stats) {
+    return score;
+  }
+  const { oldest, newest, maxViews } = getStatsRange(graph);
+  if (newest > oldest) {
+    score += ((stats.updated - oldest) / (newest - oldest)) * RECENCY_WEIGHT;
+  }
+  if (maxViews > 0) {
+    score += (Math.log1p(stats.views) / Math.log1p(maxViews)) * POPULARITY_WEIGHT;
+  }
+  return score;
+}
+
+/**
+ * 指定ページの2ホップリンクを、橋渡しする1ホップ先のページごとにまとめて取得する
+ * Cosenseと同様に、同じページが複数のグループに含まれることがある
+ * 2ホップ先は存在するページのみで、2ホップ先のないグループは含めない
+ * @returns リンク先（ページ内の出現順）、リンク元の順のグループ
+ */
+export function get2HopGroups(graph: LinkGraph, pageTitle: string): TwoHopGroup[] {
+  const oneHop = get1HopLinks(graph, pageTitle);
+  const bridges = Array.from(new Set([...oneHop.outgoing, ...oneHop.incoming]));
+  const oneHopSet = new Set([...bridges, pageTitle]);
+
+  // 橋渡しするページ -> 2ホップ先のページ
+  const members = new Map<string, string[]>();
+  // 2ホップ先のページ -> 共通するリンクの数
+  const sharedLinks = new Map<string, number>();
+
+  for (const bridge of bridges) {
+    const candidates = new Set([
+      ...(graph.forwardLinks.get(bridge) || []),
+      ...(graph.backLinks.get(bridge) || []),
+    ]);
+    const titles = Array.from(candidates).filter(
+      (title) => !oneHopSet.has(title) && graph.existingPages.has(title)
+    );
+    if (titles.length === 0) {
+      continue;
+    }
+    members.set(bridge, titles);
+    for (const title of titles) {
+      sharedLinks.set(title, (sharedLinks.get(title) || 0) + 1);
+    }
+  }
+
+  const scored = new Map<string, TwoHopPage>();
+  for (const [title, count] of sharedLinks) {
+    scored.set(title, { title, sharedLinks: count, score: scoreTwoHopPage(graph, title, count) });
+  }
+
+  return Array.from(members, ([via, titles]) => ({
+    via,
+    pages: titles
+      .map((title) => scored.get(title)!)
+      .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title)),
+  }));
+}
+
 /**
  * 指定ページのバックリンク一覧を取得する
  */
@@ -179,12 +376,54 @@ export function getBackLinks(graph: LinkGraph, pageTitle: string): string[] {
 }
 
 /**
- * リンクのコンテキスト（前後のテキスト）を取得する
+ * リンクされているが存在しないページのタイトル一覧を取得する
+ * @param minReferrers リンク元ページ数の下限（これ未満のページは含めない）
+ * @returns リンク元の多い順（同数ならタイトル順）
+ */
+export function getMissingPages(graph: LinkGraph, minReferrers: number = 1): string[] {
+  const missing: { title: string; referrers: number }[] = [];
+  for (const [title, sources] of graph.backLinks) {
+    if (graph.existingPages.has(title) || sources.size < Math.max(minReferrers, 1)) {
+      continue;
+    }
+    missing.push({ title, referrers: sources.size });
+  }
+  missing.sort((a, b) => b.referrers - a.referrers || a.title.localeCompare(b.title));
+  return missing.map(({ title }) => title);
+}
+
+/**
+ * ハッシュタグごとに、そのタグが付いているページの一覧を取得する
+ * @returns タグ -> ページタイトルの配列（更新日時の新しい順）、タグはリンク先と同じ表記に揃える
+ */
+export function getTaggedPages(graph: LinkGraph): Map<string, string[]> {
+  const tagged = new Map<string, string[]>();
+  for (const [source, targets] of graph.linkTypes) {
+    for (const [target, types] of targets) {
+      if (!types.has("hashtag")) {
+        continue;
+      }
+      if (!tagged.has(target)) {
+        tagged.set(target, []);
+      }
+      tagged.get(target)!.push(source);
+    }
+  }
+
+  const updated = (title: string) => graph.pageStats.get(title)?.updated ?? 0;
+  for (const titles of tagged.values()) {
+    titles.sort((a, b) => updated(b) - updated(a) || a.localeCompare(b));
+  }
+  return tagged;
+}
+
+/**
+ * リンクのコンテキスト（リンクが書かれている行のテキスト）を取得する
  */
 export function getLinkContext(
   graph: LinkGraph,
   fromPage: string,
   toPage: string
 ): string[] {
-  return graph.linkContexts.get(fromPage)?.get(toPage) || [];
+  return (graph.linkContexts.get(fromPage)?.get(toPage) || []).map((context) => context.text);
 }
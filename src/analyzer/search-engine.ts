@@ -0,0 +1,695 @@
+/**
+ * 検索エンジンモジュール
+ * 日本語向けのトークン分割（漢字・かなはバイグラム、英数字は単語）と正規化、
+ * 転置インデックスを使ったBM25のランキングを行う
+ *
+ * ブラウザの検索（search.js）にも同じ処理を埋め込むため、createSearchEngine は
+ * 外部の変数や import を参照しない自己完結した関数として書く（Function.prototype.toString で出力する）
+ */
+
+/**
+ * 検索対象のフィールド
+ */
+export type SearchField = "title" | "helpfeel" | "content";
+
+/**
+ * 検索インデックスのページエントリ
+ */
+export interface SearchIndexEntry {
+  title: string;
+  id: string; // ページのID（エクスポートのID、なければタイトルの正規化キーのハッシュ）
+  url: string; // ページのURL（サイトのルートからの相対URL、HTMLの出力と同じルーティングで作る）
+  excerpt: string; // 本文の先頭（検索結果のスニペットに使う）
+  helpfeels: string[]; // Helpfeel（? 質問文）の一覧（検索語として優先する）
+  created: number;
+  updated: number;
+}
+
+/**
+ * 転置インデックス: フィールド -> 語 -> [ページ番号の差分, 出現回数, フィールドの長さ（語数）, 出現位置の差分（出現回数分）, ...]
+ */
+export type SearchPostings = Record<SearchField, Record<string, number[]>>;
+
+/**
+ * ランキングに使う全体の統計
+ */
+export interface SearchIndexStats {
+  pageCount: number;
+  /** フィールドごとのページの平均の長さ（語数） */
+  averageLengths: Record<SearchField, number>;
+}
+
+/**
+ * ハッシュタグ: タグの正規化キー -> [ページ番号の差分, ...]
+ */
+export type SearchTagIndex = Record<string, number[]>;
+
+/**
+ * ページ番号順の作成日時と更新日時（日付での絞り込みと、検索語がない場合の並べ替えに使う）
+ */
+export interface SearchDates {
+  created: number[];
+  updated: number[];
+}
+
+/**
+ * ランキングに使うデータ
+ * ブラウザでは、検索語に必要なシャードの語だけを持つ（タグと日時は必要な場合だけ読み込む）
+ */
+export interface SearchRankingData {
+  /** ページ番号順のタイトル */
+  titles: string[];
+  stats: SearchIndexStats;
+  postings: SearchPostings;
+  tags?: SearchTagIndex;
+  dates?: SearchDates;
+}
+
+/**
+ * タイトルだけのインデックス（ブラウザが最初に読み込み、タイトルの補完に使う）
+ */
+export interface SearchTitleIndex {
+  /** ページ番号順のタイトル */
+  titles: string[];
+  /** ページ番号順のURL（サイトのルートからの相対URL） */
+  urls: string[];
+}
+
+/**
+ * 検索インデックス全体
+ * 本文は含めず、フィールドごとの転置インデックスだけを持つ
+ */
+export interface SearchIndex extends SearchRankingData, SearchTitleIndex {
+  pages: SearchIndexEntry[];
+  tags: SearchTagIndex;
+  dates: SearchDates;
+}
+
+/**
+ * 検索クエリの検索語
+ */
+export interface SearchQueryTerm {
+  text: string;
+  /** "..." で囲んだフレーズ（語の前方一致や部分一致をせず、完全に一致する語だけを探す） */
+  phrase: boolean;
+  /** title: で指定した検索語（タイトルだけを探す） */
+  titleOnly: boolean;
+}
+
+/**
+ * 日付での絞り込み（from 以上 to 未満、Cosenseのタイムスタンプ（秒））
+ */
+export interface SearchDateFilter {
+  field: "created" | "updated";
+  from?: number;
+  to?: number;
+}
+
+/**
+ * 解析した検索クエリ
+ */
+export interface SearchQuery {
+  /** すべて含む必要がある検索語（スコアの計算に使う） */
+  terms: SearchQueryTerm[];
+  /** -検索語: 含むページを除く */
+  excludes: SearchQueryTerm[];
+  /** tag:タグ: タグの付いたページに絞り込む（正規化キー） */
+  tags: string[];
+  /** -tag:タグ: タグの付いたページを除く（正規化キー） */
+  excludeTags: string[];
+  /** updated:>2023-01-01 など */
+  dates: SearchDateFilter[];
+}
+
+/**
+ * 検索に必要なデータ（ブラウザで読み込むファイルを決めるのに使う）
+ */
+export interface SearchRequirements {
+  shards: number[];
+  tags: boolean;
+  dates: boolean;
+}
+
+/**
+ * 強調表示のために分割した文字列
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * ランキングの1件
+ */
+export interface RankedPage {
+  page: number;
+  score: number;
+  /** 最初の検索語がタイトルに含まれているか */
+  titleMatch: boolean;
+}
+
+/**
+ * 検索結果の1件
+ */
+export interface SearchResult {
+  title: string;
+  id: string;
+  url: string;
+  snippet: string;
+  matchType: "title" | "helpfeel" | "content";
+  score: number;
+}
+
+/**
+ * タイトルの補完候補
+ */
+export interface TitleCompletion {
+  page: number;
+  title: string;
+  url: string;
+}
+
+/**
+ * 検索エンジン
+ */
+export interface SearchEngine {
+  /** 検索用に文字列を正規化する（全角・半角、大文字・小文字、カタカナ・ひらがなを揃える） */
+  normalize(text: string): string;
+  /** 文字列を検索用の語に分割する（重複を含む、出現順） */
+  tokenize(text: string): string[];
+  /** タグの正規化キー */
+  toTagKey(tag: string): string;
+  /** 検索クエリを解析する（tag:, title:, -除外, "フレーズ", updated:>2023-01-01 など） */
+  parseQuery(query: string): SearchQuery;
+  /** 検索語に一致するページをスコアの高い順に並べる */
+  rank(data: SearchRankingData, query: string): RankedPage[];
+  /** ランキングの1件から検索結果を作成する（スニペットと一致の種類を決める） */
+  createResult(entry: SearchIndexEntry, ranked: RankedPage, query: string): SearchResult;
+  /** 検索を実行する（スコアの高い順） */
+  search(index: SearchIndex, query: string): SearchResult[];
+  /** 文字列の中の検索語を強調表示するために分割する（すべての検索語が対象） */
+  highlight(text: string, query: string): HighlightSegment[];
+  /** タイトルの補完候補を返す（部分一致、前方一致と短いタイトルを優先） */
+  completeTitles(index: SearchTitleIndex, query: string, limit: number): TitleCompletion[];
+  /** 語をシャードに並べるためのキー（漢字・かなのバイグラムは2文字を入れ替えたキーも持つ） */
+  getTermKeys(term: string): string[];
+  /** 前方一致するキーを持つシャードの番号（shardKeys は各シャードの最初のキー） */
+  findShards(shardKeys: string[], prefix: string): number[];
+  /** 検索クエリに必要なシャードの番号と、タグ・日時が必要か */
+  getRequirements(query: string, shardKeys: string[]): SearchRequirements;
+}
+
+/**
+ * 検索エンジンを作成する
+ * この関数はブラウザ用のJSにそのまま埋め込まれるため、外部を参照してはいけない
+ */
+export function createSearchEngine(): SearchEngine {
+  // BM25のパラメータ
+  const BM25_K1 = 1.2;
+  const BM25_B = 0.75;
+  // フィールドごとの重み
+  const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, helpfeel: 2, content: 1 };
+  const FIELDS: SearchField[] = ["title", "helpfeel", "content"];
+  // タイトルが検索語と完全に一致した場合のスコア加算
+  const EXACT_TITLE_BONUS = 10;
+  // 漢字・かな（バイグラムにする文字）
+  const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々〆]/u;
+  const TOKEN_PATTERN =
+    /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々〆]+|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々〆])[\p{L}\p{N}])+/gu;
+  // 検索クエリの1語（-除外、tag: などの指定、"フレーズ"）
+  const QUERY_PATTERN = /(-?)(?:(tag|title|updated|created):)?(?:"([^"]*)"?|(\S+))/gi;
+  // 1文字と、それに続く結合文字・半角の濁点・半濁点（正規化で前の文字と合成される）
+  const COMBINING_SEQUENCE_PATTERN = /[\s\S]\p{M}*(?:[\uFF9E\uFF9F]\p{M}*)*/gu;
+  // 日付の指定（updated:>2023-01-01、年や年月だけでもよい）
+  const DATE_PATTERN = /^(>=|<=|>|<|=)?(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+
+  // データごとの語の一覧（検索のたびに計算しないようにキャッシュする）
+  const termCache = new WeakMap<SearchRankingData, Record<string, string[]>>();
+
+  function normalize(text: string): string {
+    return text
+      .normalize("NFKC")
+      .toLowerCase()
+      .replace(/[ァ-ヶ]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0x60));
+  }
+
+  function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const match of normalize(text).match(TOKEN_PATTERN) || []) {
+      if (!CJK_PATTERN.test(match[0])) {
+        tokens.push(match);
+        continue;
+      }
+      const chars = Array.from(match);
+      if (chars.length === 1) {
+        tokens.push(chars[0]);
+        continue;
+      }
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i] + chars[i + 1]);
+      }
+    }
+    return tokens;
+  }
+
+  // タイトルの正規化キー（小文字、空白を_に置換）
+  function toKey(title: string): string {
+    return title.toLowerCase().replace(/\s/g, "_");
+  }
+
+  function toTagKey(tag: string): string {
+    return normalize(tag).replace(/\s/g, "_");
+  }
+
+  // 日付の指定を期間にする（UTC）
+  function parseDate(field: SearchDateFilter["field"], value: string): SearchDateFilter | null {
+    const match = DATE_PATTERN.exec(value);
+    if (!match) {
+      return null;
+    }
+    const year = Number(match[2]);
+    const month = match[3] ? Number(match[3]) - 1 : 0;
+    const day = match[4] ? Number(match[4]) : 1;
+    const start = Date.UTC(year, month, day) / 1000;
+    // 指定した日（月、年）の翌日（翌月、翌年）の始まり
+    let end: number;
+    if (match[4]) {
+      end = Date.UTC(year, month, day + 1) / 1000;
+    } else if (match[3]) {
+      end = Date.UTC(year, month + 1, 1) / 1000;
+    } else {
+      end = Date.UTC(year + 1, 0, 1) / 1000;
+    }
+    switch (match[1]) {
+      case ">":
+        return { field, from: end };
+      case ">=":
+        return { field, from: start };
+      case "<":
+        return { field, to: start };
+      case "<=":
+        return { field, to: end };
+      default:
+        return { field, from: start, to: end };
+    }
+  }
+
+  function parseQuery(query: string): SearchQuery {
+    const parsed: SearchQuery = { terms: [], excludes: [], tags: [], excludeTags: [], dates: [] };
+    for (const match of query.matchAll(QUERY_PATTERN)) {
+      const exclude = match[1] === "-";
+      const prefix = match[2] ? match[2].toLowerCase() : "";
+      const phrase = match[3] !== undefined;
+      const value = phrase ? match[3] : match[4];
+
+      if (prefix === "tag") {
+        (exclude ? parsed.excludeTags : parsed.tags).push(toTagKey(value.replace(/^#/, "")));
+        continue;
+      }
+      if ((prefix === "updated" || prefix === "created") && !exclude) {
+        const filter = parseDate(prefix, value);
+        if (filter) {
+          parsed.dates.push(filter);
+          continue;
+        }
+      }
+      // 日付として解釈できない指定は、そのまま検索語にする
+      const text = prefix === "title" || prefix === "" ? value : `${prefix}:${value}`;
+      (exclude ? parsed.excludes : parsed.terms).push({ text, phrase, titleOnly: prefix === "title" });
+    }
+    return parsed;
+  }
+
+  function getTerms(data: SearchRankingData, field: SearchField): string[] {
+    let terms = termCache.get(data);
+    if (!terms) {
+      terms = {};
+      for (const f of FIELDS) {
+        terms[f] = Object.keys(data.postings[f]);
+      }
+      termCache.set(data, terms);
+    }
+    return terms[field];
+  }
+
+  // 漢字・かな1文字の検索語は2文字目に一致するバイグラムも探すため、入れ替えたキーでも並べる
+  function getTermKeys(term: string): string[] {
+    const chars = Array.from(term);
+    if (chars.length === 2 && CJK_PATTERN.test(chars[0]) && chars[0] !== chars[1]) {
+      return [term, chars[1] + chars[0]];
+    }
+    return [term];
+  }
+
+  // シャード i はキーが shardKeys[i] 以上 shardKeys[i + 1] 未満の語を持つ
+  function findShards(shardKeys: string[], prefix: string): number[] {
+    const shards: number[] = [];
+    for (let i = 0; i < shardKeys.length; i++) {
+      const next = shardKeys[i + 1];
+      if (next !== undefined && next <= prefix) {
+        continue;
+      }
+      // prefix より大きく前方一致しないキーより後ろには、前方一致するキーはない
+      if (shardKeys[i] > prefix && !shardKeys[i].startsWith(prefix)) {
+        break;
+      }
+      shards.push(i);
+    }
+    return shards;
+  }
+
+  // 検索語があるか（記号だけの検索語は無視する）
+  function hasTokens(terms: SearchQueryTerm[]): boolean {
+    return terms.some((term) => tokenize(term.text).length > 0);
+  }
+
+  // 検索語の語に一致するインデックスの語は、すべて語に前方一致するキーのシャードにある
+  function getRequirements(query: string, shardKeys: string[]): SearchRequirements {
+    const parsed = parseQuery(query);
+    const shards = new Set<number>();
+    for (const term of [...parsed.terms, ...parsed.excludes]) {
+      for (const token of tokenize(term.text)) {
+        for (const shard of findShards(shardKeys, token)) {
+          shards.add(shard);
+        }
+      }
+    }
+    const hasFilters = parsed.tags.length + parsed.excludeTags.length + parsed.dates.length > 0;
+    return {
+      shards: Array.from(shards).sort((a, b) => a - b),
+      tags: parsed.tags.length + parsed.excludeTags.length > 0,
+      // 検索語がなく絞り込みだけの場合は更新日時の新しい順に並べる
+      dates: parsed.dates.length > 0 || (hasFilters && !hasTokens(parsed.terms)),
+    };
+  }
+
+  // 検索語の語に一致するインデックスの語を列挙する
+  // 英数字は前方一致、漢字・かな1文字はその文字を含む語、それ以外（とフレーズ）は完全一致
+  function expandToken(data: SearchRankingData, field: SearchField, token: string, exact: boolean): string[] {
+    const postings = data.postings[field];
+    if (exact || (CJK_PATTERN.test(token) && Array.from(token).length > 1)) {
+      return Object.prototype.hasOwnProperty.call(postings, token) ? [token] : [];
+    }
+    if (CJK_PATTERN.test(token)) {
+      return getTerms(data, field).filter((term) => term.includes(token));
+    }
+    return getTerms(data, field).filter((term) => term.startsWith(token));
+  }
+
+  // 転置インデックスの1語分を ページ番号 -> [出現回数, フィールドの長さ, 出現位置] に展開する
+  function decodePostings(encoded: number[]): Map<number, [number, number, number[]]> {
+    const result = new Map<number, [number, number, number[]]>();
+    let page = 0;
+    for (let i = 0; i < encoded.length; i += 3 + encoded[i + 1]) {
+      page += encoded[i];
+      const positions: number[] = [];
+      let position = 0;
+      for (const gap of encoded.slice(i + 3, i + 3 + encoded[i + 1])) {
+        position += gap;
+        positions.push(position);
+      }
+      result.set(page, [encoded[i + 1], encoded[i + 2], positions]);
+    }
+    return result;
+  }
+
+  // ページ番号の差分の一覧を展開する
+  function decodePages(encoded: number[]): Set<number> {
+    const result = new Set<number>();
+    let page = 0;
+    for (const gap of encoded) {
+      page += gap;
+      result.add(page);
+    }
+    return result;
+  }
+
+  // 検索語の1語について、一致するページとスコアを計算する
+  function scoreToken(
+    data: SearchRankingData,
+    token: string,
+    fields: SearchField[],
+    exact: boolean
+  ): Map<number, number> {
+    const scores = new Map<number, number>();
+    const { pageCount, averageLengths } = data.stats;
+
+    for (const field of fields) {
+      // ページごとに、一致した語の中で最も高いスコアを使う
+      const best = new Map<number, number>();
+      for (const term of expandToken(data, field, token, exact)) {
+        const postings = decodePostings(data.postings[field][term]);
+        const idf = Math.log(1 + (pageCount - postings.size + 0.5) / (postings.size + 0.5));
+        for (const [page, [tf, length]] of postings) {
+          const norm = 1 - BM25_B + (BM25_B * length) / (averageLengths[field] || 1);
+          const score = (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+          best.set(page, Math.max(best.get(page) || 0, score));
+        }
+      }
+      for (const [page, score] of best) {
+        scores.set(page, (scores.get(page) || 0) + score * FIELD_WEIGHTS[field]);
+      }
+    }
+    return scores;
+  }
+
+  // 2つの結果の両方に含まれるページ（スコアは合計する）
+  function intersect(a: Map<number, number>, b: Map<number, number>): Map<number, number> {
+    const result = new Map<number, number>();
+    for (const [page, score] of a) {
+      if (b.has(page)) {
+        result.set(page, score + b.get(page)!);
+      }
+    }
+    return result;
+  }
+
+  // フレーズの語が同じフィールドに順番どおり続けて出現するページ
+  function findPhrasePages(data: SearchRankingData, tokens: string[], fields: SearchField[]): Set<number> {
+    const pages = new Set<number>();
+    for (const field of fields) {
+      const postings = data.postings[field];
+      if (!tokens.every((token) => Object.prototype.hasOwnProperty.call(postings, token))) {
+        continue;
+      }
+      const decoded = tokens.map((token) => decodePostings(postings[token]));
+      for (const [page, [, , starts]] of decoded[0]) {
+        const matched = starts.some((start) =>
+          decoded.every((positions, i) => positions.get(page)?.[2].includes(start + i))
+        );
+        if (matched) {
+          pages.add(page);
+        }
+      }
+    }
+    return pages;
+  }
+
+  // 検索語に一致するページとスコアを計算する（語はすべて含む必要があり、フレーズは語順と隣接も確かめる）
+  function scoreTerm(data: SearchRankingData, term: SearchQueryTerm): Map<number, number> | null {
+    const fields: SearchField[] = term.titleOnly ? ["title"] : FIELDS;
+    const tokens = tokenize(term.text);
+    let result: Map<number, number> | null = null;
+    for (const token of new Set(tokens)) {
+      const scores = scoreToken(data, token, fields, term.phrase);
+      result = result === null ? scores : intersect(result, scores);
+    }
+    if (result && term.phrase && tokens.length > 1) {
+      const phrasePages = findPhrasePages(data, tokens, fields);
+      for (const page of result.keys()) {
+        if (!phrasePages.has(page)) {
+          result.delete(page);
+        }
+      }
+    }
+    return result;
+  }
+
+  function rank(data: SearchRankingData, query: string): RankedPage[] {
+    const parsed = parseQuery(query);
+
+    // すべての検索語に一致するページ（AND検索）
+    let matched: Map<number, number> | null = null;
+    for (const term of parsed.terms) {
+      const scores = scoreTerm(data, term);
+      if (scores !== null) {
+        matched = matched === null ? scores : intersect(matched, scores);
+      }
+    }
+    const scored = matched !== null;
+    if (matched === null) {
+      // 検索語がなければ、絞り込みだけの場合はすべてのページが対象
+      if (parsed.tags.length + parsed.excludeTags.length + parsed.dates.length === 0) {
+        return [];
+      }
+      matched = new Map(data.titles.map((_, page) => [page, 0]));
+    }
+
+    // 除外する検索語とタグ、日付で絞り込む
+    for (const term of parsed.excludes) {
+      for (const page of (scoreTerm(data, term) || new Map()).keys()) {
+        matched.delete(page);
+      }
+    }
+    const tags = data.tags || {};
+    const tagPages = (tag: string) =>
+      decodePages(Object.prototype.hasOwnProperty.call(tags, tag) ? tags[tag] : []);
+    for (const tag of parsed.tags) {
+      const pages = tagPages(tag);
+      for (const page of matched.keys()) {
+        if (!pages.has(page)) {
+          matched.delete(page);
+        }
+      }
+    }
+    for (const tag of parsed.excludeTags) {
+      for (const page of tagPages(tag)) {
+        matched.delete(page);
+      }
+    }
+    for (const filter of parsed.dates) {
+      const times = data.dates ? data.dates[filter.field] : [];
+      for (const page of matched.keys()) {
+        const time = times[page];
+        if (
+          time === undefined ||
+          (filter.from !== undefined && time < filter.from) ||
+          (filter.to !== undefined && time >= filter.to)
+        ) {
+          matched.delete(page);
+        }
+      }
+    }
+
+    // タイトルの完全一致はタイトルの正規化キーで判定する
+    const queryKey = toKey(parsed.terms.map((term) => term.text).join(" "));
+    // タイトル一致かどうかは最初の検索語で判定する
+    const first = parsed.terms.find((term) => tokenize(term.text).length > 0);
+    const titleMatches = first ? scoreTerm(data, { ...first, titleOnly: true })! : new Map<number, number>();
+    const ranked: RankedPage[] = [];
+    for (const [page, score] of matched) {
+      const exact = scored && toKey(data.titles[page]) === queryKey;
+      ranked.push({ page, score: exact ? score + EXACT_TITLE_BONUS : score, titleMatch: titleMatches.has(page) });
+    }
+
+    // スコアの高い順（検索語がなければ更新日時の新しい順）、同じならタイトル順
+    const titles = data.titles;
+    const updated = data.dates ? data.dates.updated : [];
+    ranked.sort(
+      (a, b) =>
+        b.score - a.score ||
+        (scored ? 0 : (updated[b.page] || 0) - (updated[a.page] || 0)) ||
+        (titles[a.page] < titles[b.page] ? -1 : titles[a.page] > titles[b.page] ? 1 : 0)
+    );
+    return ranked;
+  }
+
+  function createResult(entry: SearchIndexEntry, ranked: RankedPage, query: string): SearchResult {
+    const keywords = parseQuery(query)
+      .terms.filter((term) => !term.titleOnly)
+      .map((term) => normalize(term.text));
+    // すべての検索語を含むHelpfeelがあればスニペットに使う
+    const helpfeel =
+      keywords.length > 0
+        ? entry.helpfeels.find((text) => {
+            const normalized = normalize(text);
+            return keywords.every((keyword) => normalized.includes(keyword));
+          })
+        : undefined;
+
+    let matchType: SearchResult["matchType"] = "content";
+    let snippet = entry.excerpt;
+    if (ranked.titleMatch) {
+      matchType = "title";
+    } else if (helpfeel !== undefined) {
+      matchType = "helpfeel";
+      snippet = helpfeel;
+    }
+    return { title: entry.title, id: entry.id, url: entry.url, snippet, matchType, score: ranked.score };
+  }
+
+  function search(index: SearchIndex, query: string): SearchResult[] {
+    return rank(index, query).map((ranked) => createResult(index.pages[ranked.page], ranked, query));
+  }
+
+  function highlight(text: string, query: string): HighlightSegment[] {
+    const needles = parseQuery(query)
+      .terms.map((term) => normalize(term.text))
+      .filter((needle) => needle.length > 0);
+    // 1文字ずつ正規化し、正規化した文字列の位置から元の文字の位置を引けるようにする
+    // 結合文字と半角の濁点・半濁点（ｶﾞ など）は前の文字と合わせて正規化する
+    const chars = text.match(COMBINING_SEQUENCE_PATTERN) || [];
+    const offsets: number[] = [];
+    let normalized = "";
+    chars.forEach((char, i) => {
+      const n = normalize(char);
+      for (let k = 0; k < n.length; k++) {
+        offsets.push(i);
+      }
+      normalized += n;
+    });
+
+    const marked = chars.map(() => false);
+    for (const needle of needles) {
+      let position = normalized.indexOf(needle);
+      while (position !== -1) {
+        for (let k = position; k < position + needle.length; k++) {
+          marked[offsets[k]] = true;
+        }
+        position = normalized.indexOf(needle, position + needle.length);
+      }
+    }
+
+    const segments: HighlightSegment[] = [];
+    chars.forEach((char, i) => {
+      const last = segments[segments.length - 1];
+      if (last && last.match === marked[i]) {
+        last.text += char;
+      } else {
+        segments.push({ text: char, match: marked[i] });
+      }
+    });
+    return segments;
+  }
+
+  function completeTitles(index: SearchTitleIndex, query: string, limit: number): TitleCompletion[] {
+    const text = parseQuery(query)
+      .terms.map((term) => term.text)
+      .join(" ");
+    const normalizedQuery = normalize(text.trim()).replace(/[\s_]+/g, " ");
+    if (!normalizedQuery) {
+      return [];
+    }
+    const candidates: { page: number; title: string; position: number }[] = [];
+    index.titles.forEach((title, page) => {
+      const position = normalize(title).replace(/[\s_]+/g, " ").indexOf(normalizedQuery);
+      if (position !== -1) {
+        candidates.push({ page, title, position });
+      }
+    });
+    return candidates
+      .sort(
+        (a, b) =>
+          (a.position === 0 ? 0 : 1) - (b.position === 0 ? 0 : 1) ||
+          a.title.length - b.title.length ||
+          (a.title < b.title ? -1 : a.title > b.title ? 1 : 0)
+      )
+      .slice(0, limit)
+      .map(({ page, title }) => ({ page, title, url: index.urls[page] }));
+  }
+
+  return {
+    normalize,
+    tokenize,
+    toTagKey,
+    parseQuery,
+    rank,
+    createResult,
+    search,
+    highlight,
+    completeTitles,
+    getTermKeys,
+    findShards,
+    getRequirements,
+  };
+}
@@ -1,217 +1,347 @@
 /**
  * 検索インデックス生成モジュール
- * ページ内容からプレーンテキストを抽出し、検索可能なインデックスを作成
+ * ページ内容からプレーンテキストを抽出し、語ごとの転置インデックスを作成
+ * 検索のランキングは search-engine.ts にあり、ブラウザの検索と共通
  */
 import type { CosensePage } from "../parser/types.js";
 import { parseLines } from "../parser/line-parser.js";
 import { getLineText } from "../parser/types.js";
-import type { ParsedNode } from "../parser/line-types.js";
+import type { ParsedNode, ParsedLine } from "../parser/line-types.js";
+import { extractTextFromNode, extractPlainText } from "../parser/plain-text.js";
+import { getPageId, getPageUrlFromIndex } from "../generator/routing.js";
+import {
+  createSearchEngine,
+  type SearchField,
+  type SearchIndex,
+  type SearchIndexEntry,
+  type SearchIndexStats,
+  type SearchTitleIndex,
+  type SearchPostings,
+  type SearchQuery,
+  type SearchResult,
+  type SearchTagIndex,
+  type SearchDates,
+  type HighlightSegment,
+} from "./search-engine.js";
 
-/**
- * 検索インデックスのページエントリ
- */
-export interface SearchIndexEntry {
-  title: string;
-  content: string; // プレーンテキスト化された本文
-  created: number;
-  updated: number;
-}
+export type {
+  SearchField,
+  SearchIndex,
+  SearchIndexEntry,
+  SearchIndexStats,
+  SearchTitleIndex,
+  SearchPostings,
+  SearchQuery,
+  SearchResult,
+  SearchTagIndex,
+  SearchDates,
+  HighlightSegment,
+};
 
-/**
- * 検索インデックス全体
- */
-export interface SearchIndex {
-  pages: SearchIndexEntry[];
-}
+const engine = createSearchEngine();
+
+// 検索結果のスニペットに使う本文の先頭の文字数
+const EXCERPT_LENGTH = 100;
 
 /**
- * 検索結果の1件
+ * パース済みの行からHelpfeelの質問文を抽出する
  */
-export interface SearchResult {
-  title: string;
-  content: string;
-  snippet: string;
-  matchType: "title" | "content";
-  score: number;
+function extractHelpfeels(parsedLines: ParsedLine[]): string[] {
+  return parsedLines
+    .filter((parsedLine) => parsedLine.isHelpfeel)
+    .map((parsedLine) => parsedLine.nodes.map(extractTextFromNode).join(""));
 }
 
 /**
- * ノードからプレーンテキストを抽出する（再帰的）
+ * ノードからハッシュタグを抽出する（装飾の中のハッシュタグも含む）
  */
-function extractTextFromNode(node: ParsedNode): string {
+function collectHashtags(node: ParsedNode): string[] {
   switch (node.type) {
-    case "text":
-      return node.text;
-    case "internal-link":
-      return node.title;
-    case "external-link":
-      return node.title;
-    case "external-project-link":
-      return node.page;
-    case "image":
-      return ""; // 画像はテキストなし
-    case "icon":
-      return ""; // アイコンはテキストなし
     case "hashtag":
-      return node.tag;
+      return [node.tag];
     case "bold":
-    case "italic":
-    case "strikethrough":
-    case "underline":
-      return node.children.map(extractTextFromNode).join("");
-    case "code":
-      return node.code;
-    case "math":
-      return node.formula;
+    case "decoration":
+      return node.children.flatMap(collectHashtags);
     default:
-      return "";
+      return [];
   }
 }
 
 /**
- * ページからプレーンテキストを抽出する
+ * パース済みの行からハッシュタグを抽出する（テーブルのセルも含む）
  */
-function extractPlainText(page: CosensePage): string {
-  const lines = page.lines.map(getLineText);
-  const parsedLines = parseLines(lines);
-
-  const textLines: string[] = [];
+function extractHashtags(parsedLines: ParsedLine[]): string[] {
+  return parsedLines.flatMap((parsedLine) => [
+    ...parsedLine.nodes.flatMap(collectHashtags),
+    ...(parsedLine.tableCells || []).flat().flatMap(collectHashtags),
+  ]);
+}
 
-  for (const parsedLine of parsedLines) {
-    if (parsedLine.isCodeBlockContent) {
-      // コードブロック内はそのままテキストとして含める
-      const text = parsedLine.nodes.map(extractTextFromNode).join("");
-      textLines.push(text);
-    } else {
-      const text = parsedLine.nodes.map(extractTextFromNode).join("");
-      textLines.push(text);
-    }
-  }
+/**
+ * 本文の先頭を切り出す（タイトル行を除き、空白をまとめる）
+ */
+function createExcerpt(content: string): string {
+  const text = content.split("\n").slice(1).join(" ").replace(/\s+/g, " ").trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}...` : text;
+}
 
-  return textLines.join("\n");
+/**
+ * 語の一覧を 語 -> 出現位置の一覧 に集計する
+ */
+function collectPositions(tokens: string[]): Map<string, number[]> {
+  const positions = new Map<string, number[]>();
+  tokens.forEach((token, position) => {
+    const list = positions.get(token) ?? [];
+    list.push(position);
+    positions.set(token, list);
+  });
+  return positions;
 }
 
 /**
  * ページ配列から検索インデックスを構築する
+ * 本文はインデックスに含めず、タイトル・Helpfeel・本文ごとの転置インデックスにする
  */
 export function buildSearchIndex(pages: CosensePage[]): SearchIndex {
-  const entries: SearchIndexEntry[] = pages.map((page) => ({
-    title: page.title,
-    content: extractPlainText(page),
-    created: page.created,
-    updated: page.updated,
-  }));
+  const fields: SearchField[] = ["title", "helpfeel", "content"];
+  const postings = new Map(fields.map((field) => [field, new Map<string, number[]>()]));
+  const lastPage = new Map(fields.map((field) => [field, new Map<string, number>()]));
+  const totalLengths: Record<SearchField, number> = { title: 0, helpfeel: 0, content: 0 };
+  const tags = new Map<string, number[]>();
+  const lastTagPage = new Map<string, number>();
 
-  return { pages: entries };
+  const entries: SearchIndexEntry[] = pages.map((page, pageIndex) => {
+    const parsedLines = parseLines(page.lines.map(getLineText));
+    const content = extractPlainText(parsedLines);
+    const helpfeels = extractHelpfeels(parsedLines);
+    const texts: Record<SearchField, string> = {
+      title: page.title,
+      helpfeel: helpfeels.join("\n"),
+      content: content.split("\n").slice(1).join("\n"),
+    };
+
+    for (const field of fields) {
+      const tokens = engine.tokenize(texts[field]);
+      totalLengths[field] += tokens.length;
+      // ページ番号と出現位置は前の値との差分で持つ（JSONを小さくするため）
+      // フィールドの長さも持つため、シャードだけでスコアを計算できる
+      // 出現位置はフレーズの語順と隣接を確かめるのに使う
+      for (const [term, positions] of collectPositions(tokens)) {
+        const list = postings.get(field)!.get(term) ?? [];
+        list.push(
+          pageIndex - (lastPage.get(field)!.get(term) ?? 0),
+          positions.length,
+          tokens.length,
+          ...positions.map((position, i) => position - (i > 0 ? positions[i - 1] : 0))
+        );
+        postings.get(field)!.set(term, list);
+        lastPage.get(field)!.set(term, pageIndex);
+      }
+    }
+
+    for (const tag of new Set(extractHashtags(parsedLines).map((tag) => engine.toTagKey(tag)))) {
+      const list = tags.get(tag) ?? [];
+      list.push(pageIndex - (lastTagPage.get(tag) ?? 0));
+      tags.set(tag, list);
+      lastTagPage.set(tag, pageIndex);
+    }
+
+    return {
+      title: page.title,
+      id: getPageId(page),
+      url: getPageUrlFromIndex(page.title),
+      excerpt: createExcerpt(content),
+      helpfeels,
+      created: page.created,
+      updated: page.updated,
+    };
+  });
+
+  const average = (field: SearchField) => (pages.length > 0 ? totalLengths[field] / pages.length : 0);
+  return {
+    pages: entries,
+    titles: entries.map((entry) => entry.title),
+    urls: entries.map((entry) => entry.url),
+    stats: {
+      pageCount: pages.length,
+      averageLengths: { title: average("title"), helpfeel: average("helpfeel"), content: average("content") },
+    },
+    postings: {
+      title: Object.fromEntries(postings.get("title")!),
+      helpfeel: Object.fromEntries(postings.get("helpfeel")!),
+      content: Object.fromEntries(postings.get("content")!),
+    },
+    tags: Object.fromEntries(tags),
+    dates: {
+      created: entries.map((entry) => entry.created),
+      updated: entries.map((entry) => entry.updated),
+    },
+  };
 }
 
 /**
- * スニペットを生成する（マッチ箇所の前後を含む）
+ * 検索を実行する（ブラウザの検索と同じランキング）
  */
-function createSnippet(
-  content: string,
-  query: string,
-  maxLength: number = 100
-): string {
-  const lowerContent = content.toLowerCase();
-  const lowerQuery = query.toLowerCase();
-  const index = lowerContent.indexOf(lowerQuery);
+export function search(index: SearchIndex, query: string): SearchResult[] {
+  return engine.search(index, query);
+}
 
-  if (index === -1) {
-    // マッチしない場合は先頭から
-    return content.slice(0, maxLength) + (content.length > maxLength ? "..." : "");
-  }
+/**
+ * 検索クエリを解析する（ブラウザの検索と共通）
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  return engine.parseQuery(query);
+}
 
-  // マッチ箇所の前後を含める
-  const start = Math.max(0, index - 30);
-  const end = Math.min(content.length, index + query.length + 70);
+/**
+ * 文字列の中の検索語を強調表示するために分割する
+ */
+export function highlightSearchTerms(text: string, query: string): HighlightSegment[] {
+  return engine.highlight(text, query);
+}
 
-  let snippet = content.slice(start, end);
-  if (start > 0) snippet = "..." + snippet;
-  if (end < content.length) snippet = snippet + "...";
+/**
+ * 検索用に文字列を正規化する（全角・半角、大文字・小文字、カタカナ・ひらがなを揃える）
+ */
+export function normalizeSearchText(text: string): string {
+  return engine.normalize(text);
+}
 
-  return snippet;
+/**
+ * 文字列を検索用の語に分割する（漢字・かなはバイグラム、英数字は単語）
+ */
+export function tokenize(text: string): string[] {
+  return engine.tokenize(text);
 }
 
 /**
- * 検索を実行する
+ * 検索インデックスの分割オプション
  */
-export function search(index: SearchIndex, query: string): SearchResult[] {
-  if (!query.trim()) {
-    return [];
-  }
+export interface SearchShardOptions {
+  /** シャード1つあたりの目安の大きさ（バイト、デフォルト: 256KB） */
+  shardSize?: number;
+  /** ページ情報のファイル1つあたりのページ数（デフォルト: 500） */
+  pageChunkSize?: number;
+}
 
-  // 複数キーワードに分割（スペース区切り）
-  const keywords = query
-    .trim()
-    .split(/\s+/)
-    .filter((k) => k.length > 0);
+/**
+ * 分割した検索インデックスの目録（search/manifest.json）
+ */
+export interface SearchManifest {
+  version: 2;
+  shardCount: number;
+  /** 各シャードの最初のキー（昇順、シャード i はキーが shardKeys[i] 以上 shardKeys[i + 1] 未満の語を持つ） */
+  shardKeys: string[];
+  pageChunkSize: number;
+  pageChunkCount: number;
+  stats: SearchIndexStats;
+}
 
-  const results: SearchResult[] = [];
+/**
+ * 分割した検索インデックス
+ */
+export interface SearchShards {
+  manifest: SearchManifest;
+  /** タイトルとURLだけのインデックス（最初に読み込み、タイトルの補完に使う） */
+  titles: SearchTitleIndex;
+  /** 語のキーの範囲で分けた転置インデックス */
+  shards: SearchPostings[];
+  /** ページ番号順に分けたページ情報（検索結果の表示に使う） */
+  pageChunks: SearchIndexEntry[][];
+  /** ハッシュタグ（tag: の絞り込みに使う） */
+  tags: SearchTagIndex;
+  /** 作成日時と更新日時（日付の絞り込みに使う） */
+  dates: SearchDates;
+}
 
-  for (const entry of index.pages) {
-    const lowerTitle = entry.title.toLowerCase();
-    const lowerContent = entry.content.toLowerCase();
+/**
+ * 空のシャード
+ */
+function createEmptyShard(): SearchPostings {
+  return { title: {}, helpfeel: {}, content: {} };
+}
 
-    // すべてのキーワードがタイトルか本文に含まれているかチェック
-    const allMatch = keywords.every((keyword) => {
-      const lowerKeyword = keyword.toLowerCase();
-      return (
-        lowerTitle.includes(lowerKeyword) || lowerContent.includes(lowerKeyword)
-      );
-    });
+/**
+ * 検索インデックスをシャードに分割する
+ * 語をキーの順に並べ、目安の大きさを超えないように区切る（区切りのキーは目録に入れる）
+ * ブラウザは検索語に前方一致するキーの範囲のシャードだけを読み込めばよい
+ * 同じキーの語は同じシャードに入れるため、1つのキーだけで目安を超える場合はそのシャードだけ大きくなる
+ */
+export function buildSearchShards(index: SearchIndex, options: SearchShardOptions = {}): SearchShards {
+  const shardSize = options.shardSize ?? 256 * 1024;
+  const pageChunkSize = Math.max(1, options.pageChunkSize ?? 500);
+  const fields: SearchField[] = ["title", "helpfeel", "content"];
 
-    if (!allMatch) {
-      continue;
+  // JSONにしたときの大きさ（"語":[...] と区切りの , の分）
+  const items: { key: string; field: SearchField; term: string; size: number }[] = [];
+  for (const field of fields) {
+    for (const [term, postings] of Object.entries(index.postings[field])) {
+      const size = Buffer.byteLength(JSON.stringify(term)) + Buffer.byteLength(JSON.stringify(postings)) + 2;
+      for (const key of engine.getTermKeys(term)) {
+        items.push({ key, field, term, size });
+      }
     }
+  }
+  // ブラウザと同じ文字列の比較（UTF-16のコード単位順）で並べる
+  items.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
 
-    // タイトル一致かどうかを判定（最初のキーワードで判定）
-    const firstKeyword = keywords[0].toLowerCase();
-    const titleMatch = lowerTitle.includes(firstKeyword);
-
-    // スコア計算
-    let score = 0;
-    if (titleMatch) {
-      score += 100;
-      // タイトルが完全一致ならさらに高スコア
-      if (lowerTitle === query.toLowerCase()) {
-        score += 50;
-      }
+  const emptySize = Buffer.byteLength(JSON.stringify(createEmptyShard()));
+  const shards: SearchPostings[] = [createEmptyShard()];
+  const shardKeys: string[] = [""];
+  let currentSize = emptySize;
+  for (let start = 0; start < items.length; ) {
+    let end = start;
+    let groupSize = 0;
+    while (end < items.length && items[end].key === items[start].key) {
+      groupSize += items[end].size;
+      end++;
     }
-    // 本文での一致数でスコア加算
-    for (const keyword of keywords) {
-      const lowerKeyword = keyword.toLowerCase();
-      const contentMatches = (
-        lowerContent.match(new RegExp(escapeRegExp(lowerKeyword), "gi")) || []
-      ).length;
-      score += contentMatches * 10;
+    if (currentSize > emptySize && currentSize + groupSize > shardSize) {
+      shards.push(createEmptyShard());
+      shardKeys.push(items[start].key);
+      currentSize = emptySize;
     }
-
-    results.push({
-      title: entry.title,
-      content: entry.content,
-      snippet: createSnippet(entry.content, keywords[0]),
-      matchType: titleMatch ? "title" : "content",
-      score,
-    });
+    const shard = shards[shards.length - 1];
+    for (const { field, term } of items.slice(start, end)) {
+      shard[field][term] = index.postings[field][term];
+    }
+    currentSize += groupSize;
+    start = end;
   }
 
-  // スコアでソート（降順）
-  results.sort((a, b) => b.score - a.score);
-
-  return results;
-}
+  const pageChunks: SearchIndexEntry[][] = [];
+  for (let i = 0; i < index.pages.length; i += pageChunkSize) {
+    pageChunks.push(index.pages.slice(i, i + pageChunkSize));
+  }
 
-/**
- * 正規表現の特殊文字をエスケープ
- */
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return {
+    manifest: {
+      version: 2,
+      shardCount: shards.length,
+      shardKeys,
+      pageChunkSize,
+      pageChunkCount: pageChunks.length,
+      stats: index.stats,
+    },
+    titles: { titles: index.titles, urls: index.urls },
+    shards,
+    pageChunks,
+    tags: index.tags,
+    dates: index.dates,
+  };
 }
 
 /**
- * 検索インデックスをJSON文字列に変換する
+ * 分割した検索インデックスを出力するファイルにする
+ * @returns 出力先（search/ からの相対パス） -> JSON文字列
  */
-export function serializeSearchIndex(index: SearchIndex): string {
-  return JSON.stringify(index);
+export function serializeSearchShards(shards: SearchShards): Map<string, string> {
+  const files = new Map<string, string>();
+  files.set("manifest.json", JSON.stringify(shards.manifest));
+  files.set("titles.json", JSON.stringify(shards.titles));
+  shards.shards.forEach((shard, i) => files.set(`shard-${i}.json`, JSON.stringify(shard)));
+  shards.pageChunks.forEach((chunk, i) => files.set(`pages-${i}.json`, JSON.stringify(chunk)));
+  files.set("tags.json", JSON.stringify(shards.tags));
+  files.set("dates.json", JSON.stringify(shards.dates));
+  return files;
 }
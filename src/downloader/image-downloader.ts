@@ -8,8 +8,10 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import * as crypto from "crypto";
 import type { CosensePage } from "../parser/types.js";
-import { parseLines } from "../parser/line-parser.js";
-import { getLineText } from "../parser/types.js";
+import {
+  collectExternalLinks,
+  type ExternalLinkOptions,
+} from "../analyzer/external-links.js";
 import {
   isScrapboxFilesUrl,
   extractScrapboxFileId,
@@ -55,25 +57,15 @@ const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "svg", "bmp"];
 const GYAZO_API_ENDPOINT = "https://api.gyazo.com/api/images";
 
 /**
- * ページ配列から画像URLを抽出する
+ * ページ配列から画像URLを抽出する（外部リンク一覧のうち画像のもの）
  */
-export function extractImageUrls(pages: CosensePage[]): string[] {
-  const urls = new Set<string>();
-
-  for (const page of pages) {
-    const lines = page.lines.map(getLineText);
-    const parsedLines = parseLines(lines);
-
-    for (const parsedLine of parsedLines) {
-      for (const node of parsedLine.nodes) {
-        if (node.type === "image") {
-          urls.add(node.url);
-        }
-      }
-    }
-  }
-
-  return Array.from(urls);
+export function extractImageUrls(
+  pages: CosensePage[],
+  options: ExternalLinkOptions = {}
+): string[] {
+  return collectExternalLinks(pages, options)
+    .filter((entry) => entry.kind === "image")
+    .map((entry) => entry.url);
 }
 
 /**
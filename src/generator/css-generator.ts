@@ -20,6 +20,17 @@ export function generateCSS(): string {
   --header-bg: #5e8a4b;
   --header-text: #fff;
   --search-bg: #fff;
+  /* シンタックスハイライト（サイトの配色に合わせる） */
+  --syntax-keyword: #3d6b2f;
+  --syntax-string: #a0522d;
+  --syntax-number: #b05a00;
+  --syntax-comment: #999;
+  --syntax-title: #5e8a4b;
+  --syntax-type: #2f6f8f;
+  --syntax-attr: #7a5c9e;
+  --syntax-meta: #888;
+  --syntax-deletion-bg: #fdecea;
+  --syntax-addition-bg: #eaf5e4;
 }
 
 * {
@@ -66,6 +77,18 @@ body {
 }
 
 /* Search */
+.visually-hidden {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  margin: -1px;
+  padding: 0;
+  overflow: hidden;
+  clip: rect(0, 0, 0, 0);
+  white-space: nowrap;
+  border: 0;
+}
+
 .search-container {
   position: relative;
   flex: 1;
@@ -105,30 +128,142 @@ body {
 }
 
 .search-result-item {
+  display: block;
   padding: 8px 12px;
   border-bottom: 1px solid var(--border-color);
-  cursor: pointer;
+  color: inherit;
+  text-decoration: none;
 }
 
-.search-result-item:hover {
+.search-result-item:hover,
+.search-result-item.selected,
+.search-more:hover,
+.search-more.selected {
   background-color: #f5f5f5;
 }
 
-.search-result-item:last-child {
-  border-bottom: none;
+.search-result-item.selected,
+.search-more.selected {
+  outline: 2px solid var(--link-color);
+  outline-offset: -2px;
+}
+
+.search-result-empty {
+  padding: 8px 12px;
+  color: #666;
 }
 
 .search-result-title {
+  display: block;
   font-weight: bold;
   color: var(--link-color);
 }
 
 .search-result-snippet {
+  display: block;
   font-size: 12px;
   color: #666;
   margin-top: 2px;
 }
 
+.search-results mark,
+.search-page-results mark {
+  background-color: #fff3a0;
+  color: inherit;
+  padding: 0;
+}
+
+.search-more {
+  display: block;
+  padding: 8px 12px;
+  font-size: 13px;
+  text-align: center;
+  border-top: 1px solid var(--border-color);
+}
+
+/* Search Page */
+.search-page-form {
+  display: flex;
+  gap: 8px;
+  margin-bottom: 12px;
+}
+
+.search-page-input {
+  flex: 1;
+  padding: 8px 12px;
+  font-size: 16px;
+  border: 1px solid var(--border-color);
+  border-radius: 4px;
+}
+
+.search-page-button {
+  padding: 8px 16px;
+  font-size: 14px;
+  border: 1px solid var(--border-color);
+  border-radius: 4px;
+  background: #f5f5f5;
+  cursor: pointer;
+}
+
+.search-help {
+  font-size: 13px;
+  color: #666;
+  margin-bottom: 16px;
+}
+
+.search-help ul {
+  margin: 8px 0 0;
+  padding-left: 20px;
+}
+
+.search-page-summary {
+  font-size: 14px;
+  color: #666;
+}
+
+.search-page-results {
+  list-style: none;
+  padding: 0;
+  margin: 0;
+}
+
+.search-page-result {
+  padding: 12px 0;
+  border-bottom: 1px solid var(--border-color);
+}
+
+.search-page-result-title {
+  font-weight: bold;
+  font-size: 16px;
+}
+
+.search-page-result-snippet {
+  font-size: 13px;
+  color: #666;
+  margin-top: 4px;
+}
+
+.search-pagination {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  justify-content: center;
+  margin-top: 24px;
+}
+
+.search-pagination a,
+.search-pagination-current {
+  padding: 4px 10px;
+  border: 1px solid var(--border-color);
+  border-radius: 4px;
+}
+
+.search-pagination-current {
+  background-color: var(--link-color);
+  border-color: var(--link-color);
+  color: #fff;
+}
+
 /* Main Content */
 .page-content,
 .index-content {
@@ -222,6 +357,28 @@ body {
 .bold-2 { font-weight: bold; font-size: 1.1em; }
 .bold-3 { font-weight: bold; font-size: 1.2em; }
 
+/* Headings ([** text] / [*** text] だけの行) */
+.heading {
+  font-weight: bold;
+  line-height: 1.5;
+  margin: 16px 0 4px;
+}
+
+h2.heading { font-size: 1.4em; }
+h3.heading { font-size: 1.2em; }
+
+.heading-anchor {
+  margin-left: 0.4em;
+  color: #bbb;
+  font-size: 0.8em;
+  text-decoration: none;
+  visibility: hidden;
+}
+
+.heading:hover .heading-anchor {
+  visibility: visible;
+}
+
 .inline-code {
   background-color: var(--code-bg);
   padding: 2px 6px;
@@ -230,12 +387,34 @@ body {
   font-size: 0.9em;
 }
 
+/* Code block */
+.code-block-container {
+  margin: 8px 0;
+}
+
+.code-block-header {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 8px;
+}
+
+.code-block-filename {
+  display: inline-block;
+  background-color: var(--header-bg);
+  color: var(--header-text);
+  padding: 0 8px;
+  border-radius: 4px 4px 0 0;
+  font-family: "SFMono-Regular", Consolas, "Liberation Mono", Menlo, monospace;
+  font-size: 12px;
+}
+
 .code-block {
   background-color: var(--code-bg);
   padding: 12px 16px;
-  border-radius: 4px;
+  border-radius: 0 4px 4px 4px;
   overflow-x: auto;
-  margin: 8px 0;
+  margin: 0;
   font-family: "SFMono-Regular", Consolas, "Liberation Mono", Menlo, monospace;
   font-size: 13px;
   line-height: 1.5;
@@ -246,6 +425,105 @@ body {
   padding: 0;
 }
 
+/* Syntax highlighting (highlight.js のトークン) */
+.hljs-keyword,
+.hljs-selector-tag,
+.hljs-literal,
+.hljs-built_in {
+  color: var(--syntax-keyword);
+  font-weight: bold;
+}
+
+.hljs-string,
+.hljs-regexp,
+.hljs-char.escape_ {
+  color: var(--syntax-string);
+}
+
+.hljs-number,
+.hljs-symbol,
+.hljs-bullet {
+  color: var(--syntax-number);
+}
+
+.hljs-comment,
+.hljs-quote {
+  color: var(--syntax-comment);
+  font-style: italic;
+}
+
+.hljs-title,
+.hljs-section,
+.hljs-selector-id,
+.hljs-selector-class {
+  color: var(--syntax-title);
+}
+
+.hljs-type,
+.hljs-class .hljs-title,
+.hljs-title.class_ {
+  color: var(--syntax-type);
+}
+
+.hljs-attr,
+.hljs-attribute,
+.hljs-variable,
+.hljs-template-variable,
+.hljs-params,
+.hljs-property {
+  color: var(--syntax-attr);
+}
+
+.hljs-meta,
+.hljs-tag,
+.hljs-name {
+  color: var(--syntax-meta);
+}
+
+.hljs-deletion {
+  background-color: var(--syntax-deletion-bg);
+}
+
+.hljs-addition {
+  background-color: var(--syntax-addition-bg);
+}
+
+.hljs-emphasis {
+  font-style: italic;
+}
+
+.hljs-strong {
+  font-weight: bold;
+}
+
+/* Table */
+.table-block {
+  margin: 8px 0;
+  overflow-x: auto;
+}
+
+.table-block table {
+  border-collapse: collapse;
+  font-size: 13px;
+}
+
+.table-caption {
+  text-align: left;
+  font-size: 12px;
+  color: #666;
+  padding: 2px 0;
+}
+
+.table-block td {
+  border: 1px solid var(--border-color);
+  padding: 4px 8px;
+  vertical-align: top;
+}
+
+.table-block tr:nth-child(even) td {
+  background-color: #fafafa;
+}
+
 /* Images */
 .page-image {
   max-width: 100%;
@@ -254,6 +532,107 @@ body {
   margin: 8px 0;
 }
 
+.strong-image {
+  display: block;
+}
+
+.image-link {
+  display: inline-block;
+}
+
+/* Location */
+.location {
+  display: inline-flex;
+  gap: 6px;
+  align-items: baseline;
+}
+
+.location-coords {
+  font-size: 0.85em;
+  color: #888;
+}
+
+/* Media (動画・音声・埋め込み) */
+.page-video {
+  display: block;
+  max-width: 100%;
+  border-radius: 4px;
+  margin: 8px 0;
+  background-color: #000;
+}
+
+.page-audio {
+  display: block;
+  max-width: 100%;
+  margin: 8px 0;
+}
+
+.embed {
+  display: block;
+  position: relative;
+  max-width: 560px;
+  margin: 8px 0;
+}
+
+.embed-youtube,
+.embed-vimeo {
+  aspect-ratio: 16 / 9;
+}
+
+.embed-twitter { height: 500px; max-width: 550px; }
+.embed-spotify { height: 352px; }
+.embed-soundcloud { height: 166px; }
+
+.embed-placeholder {
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 6px;
+  position: relative;
+  width: 100%;
+  height: 100%;
+  min-height: 80px;
+  overflow: hidden;
+  border-radius: 4px;
+  background-color: #222;
+  color: #fff;
+  text-decoration: none;
+}
+
+.embed-provider {
+  font-weight: bold;
+  font-size: 16px;
+}
+
+.embed-url {
+  max-width: 90%;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  font-size: 12px;
+  opacity: 0.7;
+}
+
+.embed-label {
+  position: relative;
+  padding: 6px 14px;
+  border-radius: 4px;
+  background-color: rgba(0, 0, 0, 0.6);
+  font-size: 13px;
+}
+
+.embed-placeholder:hover .embed-label {
+  background-color: rgba(0, 0, 0, 0.8);
+}
+
+.embed-frame {
+  width: 100%;
+  height: 100%;
+  border: none;
+  border-radius: 4px;
+}
+
 /* Icon - バッジスタイル */
 .icon {
   display: inline-block;
@@ -266,6 +645,84 @@ body {
   margin: 0 2px;
 }
 
+/* Numbered list (番号付きリスト) */
+.list-number {
+  color: #888;
+  margin-right: 0.5em;
+  font-variant-numeric: tabular-nums;
+}
+
+/* Command line ($ command / % command) */
+.command-line {
+  display: flex;
+  align-items: center;
+  gap: 8px;
+}
+
+.command {
+  background-color: var(--code-bg);
+  padding: 2px 8px;
+  border-radius: 3px;
+  font-family: "SFMono-Regular", Consolas, "Liberation Mono", Menlo, monospace;
+  font-size: 0.9em;
+}
+
+.command-prefix {
+  color: #888;
+  user-select: none;
+}
+
+.copy-button {
+  border: 1px solid var(--border-color);
+  background: #fff;
+  border-radius: 3px;
+  padding: 0 6px;
+  font-size: 11px;
+  color: #666;
+  cursor: pointer;
+}
+
+.copy-button:hover {
+  background-color: #f0f0f0;
+}
+
+.copy-button.copied {
+  color: var(--link-color);
+}
+
+/* Helpfeel (? 質問文) */
+.helpfeel {
+  color: #6a5acd;
+}
+
+.helpfeel-prefix {
+  display: inline-block;
+  width: 1.4em;
+  height: 1.4em;
+  line-height: 1.4em;
+  margin-right: 0.5em;
+  border-radius: 50%;
+  background-color: #6a5acd;
+  color: #fff;
+  text-align: center;
+  font-size: 0.85em;
+  font-weight: bold;
+}
+
+/* Icon - 画像 */
+.icon-link {
+  display: inline-block;
+  vertical-align: middle;
+  line-height: 1;
+}
+
+.icon-image {
+  height: 1.3em;
+  width: auto;
+  vertical-align: middle;
+  margin: 0 1px;
+}
+
 /* Quote (引用ブロック) */
 .quote {
   background-color: #f5f5f5;
@@ -274,10 +731,61 @@ body {
   margin: 4px 0;
 }
 
-/* Math */
-.math {
-  font-family: "Times New Roman", serif;
-  font-style: italic;
+/* Math (KaTeX) */
+.math-display {
+  display: block;
+  overflow-x: auto;
+  overflow-y: hidden;
+}
+
+.math-error {
+  font-family: "SFMono-Regular", Consolas, "Liberation Mono", Menlo, monospace;
+  font-size: 0.9em;
+  color: var(--missing-link-color);
+  border-bottom: 1px dotted var(--missing-link-color);
+}
+
+/* Stub Page (リンクされているが存在しないページ) */
+.stub-page .page-title {
+  color: var(--missing-link-color);
+}
+
+.stub-notice {
+  color: #888;
+  font-size: 14px;
+}
+
+.stub-references {
+  margin-top: 32px;
+}
+
+.stub-references h2 {
+  font-size: 14px;
+  font-weight: bold;
+  color: #666;
+  margin-bottom: 8px;
+}
+
+.stub-reference-list {
+  list-style: none;
+  padding: 0;
+}
+
+.stub-reference {
+  padding: 8px 0;
+  border-bottom: 1px solid var(--border-color);
+}
+
+.stub-reference-title {
+  color: var(--link-color);
+  font-weight: bold;
+  text-decoration: none;
+}
+
+.stub-reference-lines {
+  font-size: 13px;
+  color: #555;
+  margin-top: 4px;
 }
 
 /* Related Pages */
@@ -298,29 +806,294 @@ body {
   margin-bottom: 8px;
 }
 
-.related-links {
+.related-cards {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+  gap: 8px;
+}
+
+.related-card {
+  display: flex;
+  flex-direction: column;
+  background-color: #fff;
+  border: 1px solid var(--border-color);
+  border-radius: 4px;
+  overflow: hidden;
+  font-size: 13px;
+}
+
+.related-card:hover {
+  border-color: var(--link-color);
+}
+
+.related-card.backlink {
+  grid-column: 1 / -1;
+}
+
+.related-card.two-hop {
+  background-color: #f8f8f8;
+}
+
+.related-card-link {
+  display: block;
+  padding: 8px 12px;
+  color: var(--link-color);
+  text-decoration: none;
+}
+
+.related-card-title {
+  display: block;
+  font-weight: bold;
+  word-break: break-word;
+}
+
+.related-card-thumbnail {
+  display: block;
+  max-width: 100%;
+  max-height: 120px;
+  margin-top: 6px;
+  object-fit: contain;
+}
+
+.related-card-context {
+  padding: 0 12px 8px;
+  color: #555;
+}
+
+.related-card-context .line,
+.stub-reference-lines .line {
+  margin: 2px 0;
+}
+
+.table-cell-separator {
+  color: #999;
+}
+
+.two-hop-group {
+  margin-bottom: 16px;
+}
+
+.two-hop-heading {
+  font-size: 13px;
+  margin-bottom: 6px;
+}
+
+.two-hop-via {
+  color: var(--link-color);
+  text-decoration: none;
+}
+
+.two-hop-via.missing-link {
+  color: var(--missing-link-color);
+}
+
+.two-hop-more {
+  margin-top: 8px;
+}
+
+.two-hop-more summary {
+  cursor: pointer;
+  color: #666;
+  font-size: 13px;
+  margin-bottom: 8px;
+}
+
+/* Tags (タグ一覧・タグのページ一覧) */
+.tag-page-link {
+  font-size: 13px;
+  color: var(--link-color);
+}
+
+.tag-page-item {
+  flex-wrap: wrap;
+}
+
+.tag-page-snippet {
+  flex-basis: 100%;
+  margin: 4px 0 0;
+  color: #666;
+  font-size: 13px;
+}
+
+.tag-cloud {
   display: flex;
   flex-wrap: wrap;
-  gap: 8px;
+  align-items: baseline;
+  gap: 8px 16px;
+}
+
+.tag-cloud-item {
+  color: var(--link-color);
+  text-decoration: none;
+}
+
+.tag-cloud-item:hover {
+  text-decoration: underline;
+}
+
+.tag-cloud-level-1 {
+  font-size: 12px;
 }
 
-.related-link {
+.tag-cloud-level-2 {
+  font-size: 14px;
+}
+
+.tag-cloud-level-3 {
+  font-size: 17px;
+}
+
+.tag-cloud-level-4 {
+  font-size: 21px;
+}
+
+.tag-cloud-level-5 {
+  font-size: 26px;
+  font-weight: bold;
+}
+
+/* Knowledge Graph */
+.graph-content {
+  max-width: 1200px;
+  margin: 0 auto;
+  padding: 16px;
+}
+
+.graph-toolbar {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 12px;
+  margin-bottom: 12px;
+}
+
+.graph-search {
+  padding: 6px 10px;
+  border: 1px solid var(--border-color);
+  border-radius: 4px;
+  font-size: 14px;
+}
+
+.graph-legend {
+  display: flex;
+  gap: 12px;
+  font-size: 13px;
+  color: #666;
+}
+
+.graph-legend-item::before {
+  content: "";
   display: inline-block;
-  padding: 4px 12px;
-  background-color: #f0f0f0;
+  width: 10px;
+  height: 10px;
+  margin-right: 4px;
+  border-radius: 50%;
+  vertical-align: middle;
+}
+
+.graph-legend-item.page::before {
+  background-color: var(--header-bg);
+}
+
+.graph-legend-item.hashtag::before {
+  background-color: #2f6f8f;
+}
+
+.graph-legend-item.missing::before {
+  border: 1px solid var(--missing-link-color);
+}
+
+.graph-view {
+  height: calc(100vh - 160px);
+  min-height: 400px;
+  background-color: #fff;
+  border: 1px solid var(--border-color);
   border-radius: 4px;
+  overflow: hidden;
+}
+
+.local-graph-section {
+  margin-top: 24px;
+}
+
+.local-graph-section h3 {
+  font-size: 14px;
+  font-weight: bold;
+  color: #666;
+  margin-bottom: 8px;
+}
+
+.local-graph {
+  height: 300px;
+  background-color: #fff;
+  border: 1px solid var(--border-color);
+  border-radius: 4px;
+  overflow: hidden;
+}
+
+.graph-canvas {
+  display: block;
+  touch-action: none;
+}
+
+.graph-page-link {
+  font-size: 13px;
   color: var(--link-color);
-  text-decoration: none;
+}
+
+/* Maintainer Report (リンクの保守用レポート) */
+.report-summary {
+  display: grid;
+  grid-template-columns: max-content 1fr;
+  gap: 4px 16px;
+  margin-bottom: 24px;
+}
+
+.report-summary dt {
+  color: #666;
+}
+
+.report-section {
+  margin-bottom: 32px;
+}
+
+.report-section h2 {
+  font-size: 18px;
+  margin-bottom: 4px;
+}
+
+.report-count,
+.report-value {
+  color: #888;
   font-size: 13px;
+  font-weight: normal;
 }
 
-.related-link:hover {
-  background-color: #e0e0e0;
+.report-description,
+.report-empty {
+  color: #666;
+  font-size: 13px;
+  margin-bottom: 8px;
 }
 
-.related-link.two-hop {
-  background-color: #f8f8f8;
-  opacity: 0.8;
+.report-list {
+  padding-left: 20px;
+}
+
+.report-link {
+  color: var(--link-color);
+  text-decoration: none;
+}
+
+.report-link.missing-link {
+  color: var(--missing-link-color);
+}
+
+/* このページへのリンク（リンク元の行で強調表示） */
+.mention {
+  background-color: #fff3b0;
+  border-radius: 2px;
+  padding: 0 2px;
 }
 
 /* Index Page */
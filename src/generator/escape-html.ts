@@ -0,0 +1,16 @@
+/**
+ * HTMLエスケープモジュール
+ * HTML生成・数式・シンタックスハイライトで共通のエスケープ処理
+ */
+
+/**
+ * HTMLエスケープ
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
@@ -0,0 +1,16 @@
+/**
+ * XMLエスケープモジュール
+ * フィード（Atom・RSS）とリンクグラフの出力（GraphML・GEXF）で共通のエスケープ処理
+ */
+
+/**
+ * XMLエスケープ
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
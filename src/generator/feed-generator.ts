@@ -0,0 +1,222 @@
+/**
+ * フィード生成モジュール
+ * 更新されたページの一覧を Atom（feed.xml）、RSS 2.0（rss.xml）、JSON Feed（feed.json）で出力する
+ * フィードリーダーで読めるように、URLはサイトのベースURLからの絶対URLにする
+ */
+import * as crypto from "crypto";
+import type { CosensePage } from "../parser/types.js";
+import { createTitleIndex, toTitleKey } from "../parser/title-key.js";
+import { renderPageContent } from "./html-generator.js";
+import { getPageUrlFromIndex } from "./routing.js";
+import { escapeXml } from "./escape-xml.js";
+
+/**
+ * フィードの生成オプション
+ */
+export interface FeedOptions {
+  /** サイトのベースURL（例: https://example.github.io/archive/） */
+  baseUrl: string;
+  /** フィードのタイトル */
+  title: string;
+  /** フィードのURL（出力先のルートからの相対パス、例: feed.xml）。タグごとのフィードは tags/ 以下 */
+  path?: string;
+  /** 最大件数（デフォルト: 50） */
+  limit?: number;
+  /** 要約に使う本文の行数（タイトル行を除く、デフォルト: 5） */
+  summaryLines?: number;
+  /** 存在するページのタイトル（要約のリンクの表示に使う） */
+  existingPages?: Set<string>;
+  /** エクスポートした日時（エントリーがない場合のフィードの更新日時に使う） */
+  exported?: number;
+}
+
+/**
+ * フィードの1件
+ */
+export interface FeedEntry {
+  id: string;
+  title: string;
+  url: string;
+  /** 要約（HTML、URLは絶対URL） */
+  summary: string;
+  created: number;
+  updated: number;
+}
+
+/**
+ * ベースURLの末尾を / に揃える
+ */
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+}
+
+/**
+ * Cosenseのタイムスタンプ（秒）をISO 8601の文字列にする
+ */
+function toIsoDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+/**
+ * Cosenseのタイムスタンプ（秒）をRFC 822の文字列にする（RSS用）
+ */
+function toRfc822Date(timestamp: number): string {
+  return new Date(timestamp * 1000).toUTCString();
+}
+
+/**
+ * エントリーのIDを生成する
+ * ページのID（なければタイトルの正規化キー）と更新日時から決まるため、
+ * 更新されていないページは再ビルドしても同じIDになる
+ */
+export function createEntryId(baseUrl: string, page: CosensePage): string {
+  const source = `${normalizeBaseUrl(baseUrl)}\n${page.id ?? toTitleKey(page.title)}\n${page.updated}`;
+  const hex = crypto.createHash("md5").update(source).digest("hex");
+  return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * HTMLの中の相対URL（href, src）を絶対URLにする
+ */
+function absolutizeUrls(html: string, base: string): string {
+  return html.replace(/\b(href|src)="([^"]*)"/g, (match, attribute: string, value: string) => {
+    if (value === "#" || /^[a-z][a-z0-9+.-]*:/i.test(value)) {
+      return match;
+    }
+    return `${attribute}="${new URL(value.replace(/&amp;/g, "&"), base).href.replace(/&/g, "&amp;")}"`;
+  });
+}
+
+/**
+ * ページ本文の先頭の行をHTMLにレンダリングして要約にする（ページと同じレンダリング）
+ */
+function renderSummary(
+  page: CosensePage,
+  baseUrl: string,
+  pageIndex: Map<string, string>,
+  options: FeedOptions
+): string {
+  const lines = page.lines.slice(0, 1 + (options.summaryLines ?? 5));
+  const html = renderPageContent({ ...page, lines }, { pageIndex });
+  // ページ内のリンクは pages/ からの相対パスになっている
+  return absolutizeUrls(html, `${baseUrl}pages/`);
+}
+
+/**
+ * ページ配列からフィードのエントリーを作成する（更新日時の新しい順）
+ */
+export function buildFeedEntries(pages: CosensePage[], options: FeedOptions): FeedEntry[] {
+  const baseUrl = normalizeBaseUrl(options.baseUrl);
+  const pageIndex = createTitleIndex(options.existingPages ?? []);
+  return [...pages]
+    .sort((a, b) => b.updated - a.updated || a.title.localeCompare(b.title))
+    .slice(0, options.limit ?? 50)
+    .map((page) => ({
+      id: createEntryId(baseUrl, page),
+      title: page.title,
+      url: `${baseUrl}${getPageUrlFromIndex(page.title)}`,
+      summary: renderSummary(page, baseUrl, pageIndex, options),
+      created: page.created,
+      updated: page.updated,
+    }));
+}
+
+/**
+ * フィード全体の更新日時（最も新しいエントリーの更新日時、ビルドした時刻は使わない）
+ * エントリーがない場合はエクスポートした日時で、それもなければ undefined
+ */
+function getFeedUpdated(entries: FeedEntry[], options: FeedOptions): number | undefined {
+  if (entries.length === 0) {
+    return options.exported;
+  }
+  return entries.reduce((latest, entry) => Math.max(latest, entry.updated), 0);
+}
+
+/**
+ * Atomフィードを生成
+ */
+export function generateAtomFeed(entries: FeedEntry[], options: FeedOptions): string {
+  const baseUrl = normalizeBaseUrl(options.baseUrl);
+  const feedUrl = `${baseUrl}${options.path ?? "feed.xml"}`;
+  const updated = getFeedUpdated(entries, options);
+  const items = entries
+    .map(
+      (entry) => `  <entry>
+    <id>${escapeXml(entry.id)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>
+    <published>${toIsoDate(entry.created)}</published>
+    <updated>${toIsoDate(entry.updated)}</updated>
+    <summary type="html">${escapeXml(entry.summary)}</summary>
+  </entry>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feedUrl)}</id>
+  <title>${escapeXml(options.title)}</title>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(baseUrl)}"/>
+${updated !== undefined ? `  <updated>${toIsoDate(updated)}</updated>\n` : ""}  <author><name>${escapeXml(options.title)}</name></author>
+${items}
+</feed>
+`;
+}
+
+/**
+ * RSS 2.0フィードを生成
+ */
+export function generateRssFeed(entries: FeedEntry[], options: FeedOptions): string {
+  const baseUrl = normalizeBaseUrl(options.baseUrl);
+  const feedUrl = `${baseUrl}${options.path ?? "rss.xml"}`;
+  const updated = getFeedUpdated(entries, options);
+  const items = entries
+    .map(
+      (entry) => `    <item>
+      <guid isPermaLink="false">${escapeXml(entry.id)}</guid>
+      <title>${escapeXml(entry.title)}</title>
+      <link>${escapeXml(entry.url)}</link>
+      <pubDate>${toRfc822Date(entry.updated)}</pubDate>
+      <description>${escapeXml(entry.summary)}</description>
+    </item>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${escapeXml(baseUrl)}</link>
+    <description>${escapeXml(options.title)} の更新されたページ</description>
+    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>
+${updated !== undefined ? `    <lastBuildDate>${toRfc822Date(updated)}</lastBuildDate>\n` : ""}${items}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * JSON Feed（バージョン1.1）を生成
+ */
+export function generateJsonFeed(entries: FeedEntry[], options: FeedOptions): string {
+  const baseUrl = normalizeBaseUrl(options.baseUrl);
+  return JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title: options.title,
+      home_page_url: baseUrl,
+      feed_url: `${baseUrl}${options.path ?? "feed.json"}`,
+      items: entries.map((entry) => ({
+        id: entry.id,
+        url: entry.url,
+        title: entry.title,
+        content_html: entry.summary,
+        date_published: toIsoDate(entry.created),
+        date_modified: toIsoDate(entry.updated),
+      })),
+    },
+    null,
+    2
+  );
+}
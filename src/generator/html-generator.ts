@@ -3,114 +3,346 @@
  * パースされた行やページをHTMLに変換する
  * Gyazo画像はAPIで解決した直リンクを使用する
  */
-import * as crypto from "crypto";
 import type { CosensePage } from "../parser/types.js";
-import type { LinkGraph } from "../analyzer/link-analyzer.js";
-import { parseLine, parseLines } from "../parser/line-parser.js";
+import type { LinkGraph, LinkContext, TwoHopGroup } from "../analyzer/link-analyzer.js";
+import type { GraphReport } from "../analyzer/graph-report.js";
+import { parseLine, parseLines, isBareImageLink } from "../parser/line-parser.js";
 import { getLineText } from "../parser/types.js";
-import { get1HopLinks, get2HopLinks } from "../analyzer/link-analyzer.js";
-import type { ParsedNode, ParsedLine } from "../parser/line-types.js";
+import { createTitleIndex, toTitleKey } from "../parser/title-key.js";
+import { extractTextFromNode, extractLineText } from "../parser/plain-text.js";
+import { get1HopLinks, get2HopLinks, get2HopGroups } from "../analyzer/link-analyzer.js";
+import type {
+  ParsedNode,
+  ParsedLine,
+  EmbedNode,
+  LocationNode,
+  DecorationNode,
+  DecorationStyle,
+} from "../parser/line-types.js";
+import { renderMath } from "./math-renderer.js";
+import { escapeHtml } from "./escape-html.js";
+import {
+  getPageUrlFromIndex,
+  getPageUrlFromPage,
+  getTagUrlFromPage,
+  getTagFeedUrl,
+  getLocalGraphUrlFromPage,
+} from "./routing.js";
+import { highlightCode, resolveHighlightLanguage } from "./syntax-highlighter.js";
 import {
   isGyazoUrl,
   createGyazoFallbackLink,
   type GyazoResolveResult,
 } from "../resolver/gyazo-resolver.js";
 
-// 最大ファイル名長（拡張子を除く）
-const MAX_FILENAME_LENGTH = 200;
+// アイコンの最大繰り返し回数（[user.icon*N]）
+const MAX_ICON_REPEAT = 100;
+// 2ホップリンクのグループごとに最初から表示する件数（残りは「さらに表示」で開く）
+const TWO_HOP_VISIBLE_COUNT = 6;
+// タグのページ一覧に表示するスニペットの最大文字数
+const TAG_SNIPPET_LENGTH = 120;
+// タグクラウドの文字の大きさの段階数
+const TAG_CLOUD_LEVELS = 5;
+// ローカルグラフに表示する1ホップ先の最大件数（リンクの多いページでもグラフのデータを抑える）
+const LOCAL_GRAPH_MAX_ONE_HOP = 50;
+// ローカルグラフに表示する2ホップ先の最大件数
+const LOCAL_GRAPH_MAX_TWO_HOP = 30;
+// KaTeXのスタイルシート（数式を含むページの <head> に追加する）
+const KATEX_STYLESHEET = '<link rel="stylesheet" href="../assets/css/katex.min.css">';
 
 /**
  * レンダリングコンテキスト
  * ノードのレンダリングに必要な情報を保持
  */
 export interface RenderContext {
-  existingPages: Set<string>;
+  /** 存在するページの正規化キーの索引（正規化キー -> タイトル、createTitleIndex で作る） */
+  pageIndex: Map<string, string>;
   /** Gyazo URL解決結果のマップ（元URL -> 解決結果） */
   gyazoResults?: Map<string, GyazoResolveResult>;
   /** Gyazo APIトークンが設定されているか */
   hasGyazoToken?: boolean;
+  /** アイコン画像のマップ（ページタイトル -> 画像URL、ローカルパス/Gyazo URLに置換済み） */
+  iconUrls?: Map<string, string>;
+  /** 動画・音声・埋め込みをプレーヤーではなくリンクとして出力するか（オフラインアーカイブ用） */
+  mediaAsLinks?: boolean;
+  /** 括弧なしで書かれた画像URLを画像として表示するか */
+  bareImageUrls?: boolean;
+  /** 空ページ（リンクされているが存在しないページ）を出力するタイトルの正規化キーの索引 */
+  stubPageIndex?: Map<string, string>;
+  /** タグごとのページ一覧（tags/）を出力するハッシュタグの正規化キーの索引 */
+  tagPageIndex?: Map<string, string>;
+  /** このページへのリンクを強調表示する（リンク元の行の表示用） */
+  mentionTitle?: string;
+  /** 数式のパースに失敗したときに呼ばれる（ビルド時の警告用） */
+  onMathError?: (formula: string, error: string) => void;
 }
 
 /**
- * HTMLエスケープ
+ * 正規化キーの索引からリンクの表記に対応するタイトルを探す（大文字・小文字、空白と_を区別しない）
+ * @returns 見つからない場合は undefined
  */
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
+function findTitle(index: Map<string, string> | undefined, title: string): string | undefined {
+  return index?.get(toTitleKey(title));
 }
 
 /**
- * ページタイトルからファイル名を生成（ファイルシステム用）
- * 長いタイトルはハッシュベースのファイル名を使用
- * ファイルシステムで問題になる文字は置換する
+ * リンクの表記に対応する存在するページのタイトルを探す
+ * @returns 存在しない場合は undefined
  */
-export function generatePageFilename(title: string): string {
-  // ファイルシステムで問題になる文字を置換
-  // / はディレクトリ区切りとして解釈されるため _ に置換
-  const safeTitle = title.replace(/\//g, "_");
-
-  // ファイル名が長すぎる場合（UTF-8で255バイト以上）はハッシュを使用
-  const byteLength = Buffer.byteLength(safeTitle, "utf8");
-  if (byteLength > MAX_FILENAME_LENGTH) {
-    const hash = crypto.createHash("md5").update(title).digest("hex");
-    return `page_${hash}.html`;
-  }
-
-  // 日本語をそのままファイル名として使用
-  return `${safeTitle}.html`;
+function findExistingPage(context: RenderContext, title: string): string | undefined {
+  return findTitle(context.pageIndex, title);
 }
 
 /**
- * URLエンコード済みのファイル名を生成
+ * リンクのクラス名を生成する
+ * リンク先が存在しない場合は missing-link、強調表示するページへのリンクなら mention を付ける
  */
-function getEncodedFilename(title: string): string {
-  const filename = generatePageFilename(title);
-  // ファイル名をURLエンコード（.htmlの.は維持）
-  return encodeURIComponent(filename).replace(/%2E/g, ".");
+function getLinkClassName(
+  baseClassName: string,
+  title: string,
+  page: string | undefined,
+  context: RenderContext
+): string {
+  const classNames = [baseClassName];
+  if (!page) {
+    classNames.push("missing-link");
+  }
+  if (context.mentionTitle !== undefined && toTitleKey(title) === toTitleKey(context.mentionTitle)) {
+    classNames.push("mention");
+  }
+  return classNames.join(" ");
 }
 
 /**
- * ページへのリンクURLを生成（インデックスページ用、pages/プレフィックス付き）
+ * 存在しないページへのリンク先URLを取得する
+ * 空ページを出力する場合はそのページ、出力しない場合は "#"
  */
-function getPageUrlFromIndex(title: string): string {
-  return `pages/${getEncodedFilename(title)}`;
+function getMissingPageUrl(context: RenderContext, title: string): string {
+  const stub = findTitle(context.stubPageIndex, title);
+  return stub ? getPageUrlFromPage(stub) : "#";
 }
 
 /**
- * ページへのリンクURLを生成（ページ内リンク用、同じディレクトリ）
+ * 画像のレンダリング結果
  */
-function getPageUrlFromPage(title: string): string {
-  return getEncodedFilename(title);
+interface RenderedImage {
+  html: string;
+  /** 画像自体がリンクになっているか（Gyazoの動画やトークンなしのフォールバック） */
+  isLink: boolean;
 }
 
 /**
  * Gyazo画像をレンダリング
  */
-function renderGyazoImage(url: string, context: RenderContext): string {
+function renderGyazoImage(
+  url: string,
+  context: RenderContext,
+  className: string = "page-image"
+): RenderedImage {
   // Gyazo解決結果がある場合
   if (context.gyazoResults) {
     const result = context.gyazoResults.get(url);
     if (result && result.success) {
       // 動画の場合はGIF画像を表示
       if (result.type === "video") {
-        return `<a href="${escapeHtml(result.videoUrl || url)}" target="_blank" rel="noopener"><img src="${escapeHtml(result.imageUrl)}" alt="" class="page-image gyazo-video" loading="lazy"></a>`;
+        return {
+          html: `<a href="${escapeHtml(result.videoUrl || url)}" target="_blank" rel="noopener"><img src="${escapeHtml(result.imageUrl)}" alt="" class="${className} gyazo-video" loading="lazy"></a>`,
+          isLink: true,
+        };
       }
       // 通常の画像
-      return `<img src="${escapeHtml(result.imageUrl)}" alt="" class="page-image" loading="lazy">`;
+      return {
+        html: `<img src="${escapeHtml(result.imageUrl)}" alt="" class="${className}" loading="lazy">`,
+        isLink: false,
+      };
     }
   }
 
   // APIトークンがない場合は「Gyazo」リンクを表示
   if (!context.hasGyazoToken) {
-    return createGyazoFallbackLink(url);
+    return { html: createGyazoFallbackLink(url), isLink: true };
   }
 
   // 解決に失敗した場合はフォールバック（元のURLを使用）
-  return `<img src="${escapeHtml(url)}" alt="" class="page-image" loading="lazy">`;
+  return { html: `<img src="${escapeHtml(url)}" alt="" class="${className}" loading="lazy">`, isLink: false };
+}
+
+/**
+ * 画像をレンダリング
+ * 強調画像（[[画像URL]]）は大きく表示するクラスを付ける
+ */
+function renderImage(url: string, strong: boolean, context: RenderContext): RenderedImage {
+  const className = strong ? "page-image strong-image" : "page-image";
+  // Gyazo URLの場合は特別な処理
+  if (isGyazoUrl(url)) {
+    return renderGyazoImage(url, context, className);
+  }
+  return { html: `<img src="${escapeHtml(url)}" alt="" class="${className}" loading="lazy">`, isLink: false };
+}
+
+/**
+ * リンク付き画像をレンダリング
+ * Gyazoの動画やトークンなしのフォールバックのように画像自体がリンクになる場合は、
+ * リンクを入れ子にせずリンク先を後ろに並べる
+ */
+function renderImageLink(url: string, href: string, context: RenderContext): string {
+  const image = renderImage(url, false, context);
+  if (image.isLink) {
+    return `${image.html}<a href="${escapeHtml(href)}" class="external-link image-link-target" target="_blank" rel="noopener">${escapeHtml(href)}</a>`;
+  }
+  return `<a href="${escapeHtml(href)}" class="image-link" target="_blank" rel="noopener">${image.html}</a>`;
+}
+
+/**
+ * 座標を N35.68,E139.76 の形式で表す
+ */
+function formatCoordinates(latitude: number, longitude: number): string {
+  const lat = `${latitude < 0 ? "S" : "N"}${Math.abs(latitude)}`;
+  const lon = `${longitude < 0 ? "W" : "E"}${Math.abs(longitude)}`;
+  return `${lat},${lon}`;
+}
+
+/**
+ * 位置情報をレンダリング（OpenStreetMapへの静的リンクと座標）
+ */
+function renderLocation(node: LocationNode): string {
+  const { latitude, longitude, zoom } = node;
+  const href = `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=${zoom}/${latitude}/${longitude}`;
+  const coordinates = formatCoordinates(latitude, longitude);
+  const name = node.name
+    ? `<span class="location-name">${escapeHtml(node.name)}</span>`
+    : "";
+  return `<a href="${escapeHtml(href)}" class="location" target="_blank" rel="noopener">${name}<span class="location-coords">${coordinates}</span></a>`;
+}
+
+/**
+ * 埋め込みサービスの表示名
+ */
+const EMBED_PROVIDER_NAMES: Record<EmbedNode["provider"], string> = {
+  youtube: "YouTube",
+  vimeo: "Vimeo",
+  twitter: "X (Twitter)",
+  spotify: "Spotify",
+  soundcloud: "SoundCloud",
+};
+
+/**
+ * 埋め込み用iframeのURLを生成
+ * トラッキングを抑えるURL（youtube-nocookie、dnt）を優先する
+ */
+function getEmbedSrc(node: EmbedNode): string {
+  switch (node.provider) {
+    case "youtube":
+      return `https://www.youtube-nocookie.com/embed/${encodeURIComponent(node.id)}?autoplay=1`;
+    case "vimeo":
+      return `https://player.vimeo.com/video/${encodeURIComponent(node.id)}?dnt=1&autoplay=1`;
+    case "twitter":
+      return `https://platform.twitter.com/embed/Tweet.html?id=${encodeURIComponent(node.id)}&dnt=true`;
+    case "spotify":
+      return `https://open.spotify.com/embed/${encodeURIComponent(node.embedType || "track")}/${encodeURIComponent(node.id)}`;
+    case "soundcloud":
+      return `https://w.soundcloud.com/player/?url=${encodeURIComponent(`https://soundcloud.com/${node.id}`)}&auto_play=true`;
+  }
+}
+
+/**
+ * 動画・音声・埋め込みをリンクとしてレンダリング（オフラインアーカイブ用）
+ */
+function renderMediaLink(url: string): string {
+  return `<a href="${escapeHtml(url)}" class="external-link media-link" target="_blank" rel="noopener">${escapeHtml(url)}</a>`;
+}
+
+/**
+ * 埋め込みをレンダリング
+ * iframeは自動で読み込まず、クリックしたときに読み込むプレースホルダーを表示する
+ * （JSが無効な場合は元のURLへのリンクとして機能する）
+ */
+function renderEmbed(node: EmbedNode, context: RenderContext): string {
+  if (context.mediaAsLinks) {
+    return renderMediaLink(node.url);
+  }
+  const name = EMBED_PROVIDER_NAMES[node.provider];
+  // サムネイルなど外部の画像は使わず、サービス名と元のURLだけを表示する（外部への通信はクリック後のみ）
+  return `<span class="embed embed-${node.provider}"><a href="${escapeHtml(node.url)}" class="embed-placeholder" target="_blank" rel="noopener" data-embed-src="${escapeHtml(getEmbedSrc(node))}" data-embed-title="${escapeHtml(name)}"><span class="embed-provider">${escapeHtml(name)}</span><span class="embed-url">${escapeHtml(node.url)}</span><span class="embed-label">クリックして読み込む</span></a></span>`;
+}
+
+/**
+ * アイコン画像のsrcを解決する
+ * Gyazo画像は解決済みの直リンクを使用し、解決できない場合は null を返す
+ */
+function resolveIconSrc(url: string, context: RenderContext): string | null {
+  if (!isGyazoUrl(url)) {
+    return url;
+  }
+  const result = context.gyazoResults?.get(url);
+  if (result && result.success) {
+    return result.imageUrl;
+  }
+  return null;
+}
+
+/**
+ * アイコンをレンダリング
+ * ユーザーページの最初の画像を小さく表示し、ユーザーページにリンクする
+ * 画像が見つからない場合はテキストのバッジを表示する
+ */
+function renderIcon(user: string, count: number, context: RenderContext): string {
+  const repeat = Math.min(Math.max(count, 1), MAX_ICON_REPEAT);
+  const page = findExistingPage(context, user);
+  const iconUrl = context.iconUrls?.get(page ?? user);
+  const src = iconUrl ? resolveIconSrc(iconUrl, context) : null;
+
+  if (!src) {
+    return `<span class="icon">${escapeHtml(user)}</span>`.repeat(repeat);
+  }
+
+  const img = `<img src="${escapeHtml(src)}" alt="${escapeHtml(user)}" title="${escapeHtml(user)}" class="icon-image" loading="lazy">`;
+  const images = img.repeat(repeat);
+  if (page) {
+    return `<a href="${getPageUrlFromPage(page)}" class="icon-link">${images}</a>`;
+  }
+  return `<span class="icon-link">${images}</span>`;
+}
+
+/**
+ * 装飾の種類ごとにHTML要素で囲む（先に書かれた装飾が外側）
+ * 太字・斜体・打消し線・下線以外の装飾は deco-xxx クラスの span で表す
+ */
+function wrapDecorations(
+  html: string,
+  styles: DecorationStyle[],
+  level: number
+): string {
+  return [...styles].reverse().reduce((inner, style) => {
+    switch (style) {
+      case "bold":
+        return `<strong class="bold-${Math.min(level, 3)}">${inner}</strong>`;
+      case "italic":
+        return `<em>${inner}</em>`;
+      case "strikethrough":
+        return `<del>${inner}</del>`;
+      case "underline":
+        return `<u>${inner}</u>`;
+      default:
+        return `<span class="deco-${style}">${inner}</span>`;
+    }
+  }, html);
+}
+
+/**
+ * 数式をHTMLにレンダリング
+ * 失敗した場合は元の数式を表示し、onMathErrorで通知する
+ */
+function renderMathNode(
+  formula: string,
+  displayMode: boolean,
+  context: RenderContext
+): string {
+  const result = renderMath(formula, displayMode);
+  if (!result.success && context.onMathError) {
+    context.onMathError(formula, result.error || "");
+  }
+  return result.html;
 }
 
 /**
@@ -122,32 +354,57 @@ function renderNode(node: ParsedNode, context: RenderContext): string {
       return escapeHtml(node.text);
 
     case "internal-link": {
-      const exists = context.existingPages.has(node.title);
-      const className = exists ? "internal-link" : "internal-link missing-link";
-      const href = exists ? getPageUrlFromPage(node.title) : "#";
+      const page = findExistingPage(context, node.title);
+      const className = getLinkClassName("internal-link", node.title, page, context);
+      const href = page ? getPageUrlFromPage(page) : getMissingPageUrl(context, node.title);
       return `<a href="${href}" class="${className}">${escapeHtml(node.title)}</a>`;
     }
 
     case "external-link":
+      if (context.bareImageUrls && isBareImageLink(node)) {
+        return renderImage(node.url, false, context).html;
+      }
       return `<a href="${escapeHtml(node.url)}" class="external-link" target="_blank" rel="noopener">${escapeHtml(node.title)}</a>`;
 
     case "external-project-link":
       return `<a href="https://scrapbox.io/${escapeHtml(node.project)}/${encodeURIComponent(node.page)}" class="external-project-link" target="_blank" rel="noopener">${escapeHtml(node.page || node.project)}</a>`;
 
     case "image":
-      // Gyazo URLの場合は特別な処理
-      if (isGyazoUrl(node.url)) {
-        return renderGyazoImage(node.url, context);
+      return renderImage(node.url, !!node.strong, context).html;
+
+    case "image-link":
+      return renderImageLink(node.url, node.href, context);
+
+    case "location":
+      return renderLocation(node);
+
+    case "video":
+      if (context.mediaAsLinks) {
+        return renderMediaLink(node.url);
       }
-      return `<img src="${escapeHtml(node.url)}" alt="" class="page-image" loading="lazy">`;
+      return `<video src="${escapeHtml(node.url)}" class="page-video" controls preload="none"></video>`;
+
+    case "audio":
+      if (context.mediaAsLinks) {
+        return renderMediaLink(node.url);
+      }
+      return `<audio src="${escapeHtml(node.url)}" class="page-audio" controls preload="none"></audio>`;
+
+    case "embed":
+      return renderEmbed(node, context);
 
     case "icon":
-      return `<span class="icon">${escapeHtml(node.user)}</span>`;
+      return renderIcon(node.user, node.count, context);
 
     case "hashtag": {
-      const exists = context.existingPages.has(node.tag);
-      const className = exists ? "hashtag" : "hashtag missing-link";
-      const href = exists ? getPageUrlFromPage(node.tag) : "#";
+      const page = findExistingPage(context, node.tag);
+      const className = getLinkClassName("hashtag", node.tag, page, context);
+      // ページも空ページもない場合はタグのページ一覧を開く
+      let href = page ? getPageUrlFromPage(page) : getMissingPageUrl(context, node.tag);
+      const tag = findTitle(context.tagPageIndex, node.tag);
+      if (href === "#" && tag) {
+        href = getTagUrlFromPage(tag);
+      }
       return `<a href="${href}" class="${className}">#${escapeHtml(node.tag)}</a>`;
     }
 
@@ -157,32 +414,155 @@ function renderNode(node: ParsedNode, context: RenderContext): string {
       return `<strong class="bold-${level}">${children}</strong>`;
     }
 
-    case "italic": {
-      const children = node.children.map((c) => renderNode(c, context)).join("");
-      return `<em>${children}</em>`;
-    }
-
-    case "strikethrough": {
-      const children = node.children.map((c) => renderNode(c, context)).join("");
-      return `<del>${children}</del>`;
-    }
-
-    case "underline": {
+    case "decoration": {
       const children = node.children.map((c) => renderNode(c, context)).join("");
-      return `<u>${children}</u>`;
+      return wrapDecorations(children, node.styles, node.level);
     }
 
     case "code":
       return `<code class="inline-code">${escapeHtml(node.code)}</code>`;
 
     case "math":
-      return `<span class="math">${escapeHtml(node.formula)}</span>`;
+      return renderMathNode(node.formula, false, context);
 
     default:
       return "";
   }
 }
 
+/**
+ * 見出しとして扱う行なら見出しノードとレベル（h2/h3）を返す
+ * インデントなしで [** text] や [*** text] だけが書かれた行を見出しとみなす
+ * 太字レベルが大きいほど上位の見出しになる（*** -> h2, ** -> h3）
+ */
+function getHeading(
+  parsed: ParsedLine
+): { node: DecorationNode; tagLevel: number } | null {
+  if (parsed.indent > 0 || parsed.isQuote) {
+    return null;
+  }
+  const nodes = parsed.nodes.filter(
+    (n) => !(n.type === "text" && n.text.trim() === "")
+  );
+  if (nodes.length !== 1) {
+    return null;
+  }
+  const node = nodes[0];
+  if (node.type !== "decoration" || !node.styles.includes("bold") || node.level < 2) {
+    return null;
+  }
+  return { node, tagLevel: node.level >= 3 ? 2 : 3 };
+}
+
+/**
+ * 見出しのアンカーIDを生成
+ * 同じページ内で重複する場合は連番を付与する
+ */
+function createHeadingId(text: string, usedIds: Map<string, number>): string {
+  const base = text.trim().replace(/\s+/g, "_") || "heading";
+  const count = usedIds.get(base) || 0;
+  usedIds.set(base, count + 1);
+  return count === 0 ? base : `${base}-${count + 1}`;
+}
+
+/**
+ * 見出しをHTMLにレンダリング
+ * 太字以外の装飾は見出しの中身に適用する
+ */
+function renderHeading(
+  node: DecorationNode,
+  tagLevel: number,
+  id: string,
+  context: RenderContext
+): string {
+  const children = node.children.map((c) => renderNode(c, context)).join("");
+  const content = wrapDecorations(
+    children,
+    node.styles.filter((s) => s !== "bold"),
+    0
+  );
+  const tag = `h${tagLevel}`;
+  return `<${tag} id="${escapeHtml(id)}" class="heading bold-${Math.min(node.level, 3)}">${content}<a href="#${encodeURIComponent(id)}" class="heading-anchor">#</a></${tag}>`;
+}
+
+/**
+ * パース済みの1行（ブロック・見出し以外）をHTMLにレンダリング
+ * インデントがある行には先頭に黒丸（•）、番号付きリストには番号を追加
+ * 引用ブロック（>で始まる行）はblockquoteタグで囲む
+ */
+function renderLineBody(
+  parsed: ParsedLine,
+  context: RenderContext,
+  listNumber?: number
+): string {
+  const indentClass = parsed.indent > 0 ? ` indent-${parsed.indent}` : "";
+  const bullet = parsed.indent > 0 ? '<span class="bullet">•</span>' : "";
+
+  // コマンドライン（記法は解釈せずコピーボタンを付ける）
+  if (parsed.isCommandLine) {
+    const command = parsed.nodes.map(extractTextFromNode).join("");
+    return `<div class="line command-line${indentClass}">${bullet}<code class="command"><span class="command-prefix">${escapeHtml(parsed.commandPrefix || "$")}</span> ${escapeHtml(command)}</code><button type="button" class="copy-button" data-copy="${escapeHtml(command)}">コピー</button></div>`;
+  }
+
+  // Helpfeel
+  if (parsed.isHelpfeel) {
+    const question = parsed.nodes.map(extractTextFromNode).join("");
+    return `<div class="line helpfeel${indentClass}">${bullet}<span class="helpfeel-prefix">?</span><span class="helpfeel-text">${escapeHtml(question)}</span></div>`;
+  }
+
+  // 数式だけの行はブロック表示にする
+  const meaningfulNodes = parsed.nodes.filter(
+    (n) => !(n.type === "text" && n.text.trim() === "")
+  );
+  if (
+    !parsed.isQuote &&
+    !parsed.isNumberedList &&
+    meaningfulNodes.length === 1 &&
+    meaningfulNodes[0].type === "math"
+  ) {
+    const math = renderMathNode(meaningfulNodes[0].formula, true, context);
+    return `<div class="line math-line${indentClass}">${bullet}${math}</div>`;
+  }
+
+  const content = parsed.nodes.map((n) => renderNode(n, context)).join("");
+
+  // 引用ブロック
+  if (parsed.isQuote) {
+    return `<blockquote class="quote${indentClass}">${content}</blockquote>`;
+  }
+
+  // 番号付きリスト
+  if (parsed.isNumberedList) {
+    const number = `<span class="list-number">${listNumber ?? parsed.listNumber ?? 1}.</span>`;
+    return `<div class="line numbered-list${indentClass}">${number}${content}</div>`;
+  }
+
+  return `<div class="line${indentClass}">${bullet}${content}</div>`;
+}
+
+/**
+ * 番号付きリストの番号を更新し、現在の行の番号を返す
+ * 同じインデントで連続する項目には記述された番号に関わらず連番を振る
+ * （より深いインデントの行を挟んでも連番は継続し、浅い行や番号なしの行でリセット）
+ */
+function updateListNumbering(
+  counters: Map<number, number>,
+  parsed: ParsedLine
+): number | undefined {
+  for (const depth of counters.keys()) {
+    if (depth > parsed.indent || (depth === parsed.indent && !parsed.isNumberedList)) {
+      counters.delete(depth);
+    }
+  }
+  if (!parsed.isNumberedList) {
+    return undefined;
+  }
+  const previous = counters.get(parsed.indent);
+  const number = previous !== undefined ? previous + 1 : parsed.listNumber ?? 1;
+  counters.set(parsed.indent, number);
+  return number;
+}
+
 /**
  * 1行をHTMLにレンダリング
  * インデントがある行には先頭に黒丸（•）を追加
@@ -195,42 +575,65 @@ export function renderLine(
 ): string {
   const parsed = parseLine(line);
   const renderContext: RenderContext = {
-    existingPages,
     ...context,
+    pageIndex: context?.pageIndex ?? createTitleIndex(existingPages),
   };
-  const content = parsed.nodes.map((n) => renderNode(n, renderContext)).join("");
 
-  // 引用ブロック
-  if (parsed.isQuote) {
-    if (parsed.indent > 0) {
-      return `<blockquote class="quote indent-${parsed.indent}">${content}</blockquote>`;
-    }
-    return `<blockquote class="quote">${content}</blockquote>`;
+  // 見出し
+  const heading = getHeading(parsed);
+  if (heading) {
+    const text = extractTextFromNode(heading.node);
+    const id = createHeadingId(text, new Map());
+    return renderHeading(heading.node, heading.tagLevel, id, renderContext);
   }
 
-  if (parsed.indent > 0) {
-    const bullet = '<span class="bullet">•</span>';
-    return `<div class="line indent-${parsed.indent}">${bullet}${content}</div>`;
-  }
-  return `<div class="line">${content}</div>`;
+  return renderLineBody(parsed, renderContext, parsed.listNumber);
 }
 
 /**
  * コードブロックをHTMLにレンダリング
+ * Cosenseと同様にファイル名とコピーボタンのヘッダーを表示し、本文はビルド時にハイライトする
  */
-function renderCodeBlock(lines: string[], lang: string): string {
-  const code = lines.map(escapeHtml).join("\n");
-  const langClass = lang ? ` language-${lang}` : "";
-  return `<pre class="code-block${langClass}"><code>${code}</code></pre>`;
+function renderCodeBlock(lines: string[], lang: string, filename: string): string {
+  const source = lines.join("\n");
+  const code = highlightCode(source, lang);
+  const language = resolveHighlightLanguage(lang);
+  const langClass = lang ? ` language-${escapeHtml(language || lang)}` : "";
+  const header = `<div class="code-block-header"><span class="code-block-filename">${escapeHtml(filename)}</span><button type="button" class="copy-button" data-copy="${escapeHtml(source)}">コピー</button></div>`;
+  return `<div class="code-block-container">${header}<pre class="code-block${langClass}"><code class="hljs">${code}</code></pre></div>`;
 }
 
 /**
- * ページ本文をHTMLにレンダリング
+ * テーブルをHTMLにレンダリング
+ * テーブル名はキャプションとして表示する
  */
-function renderPageContent(page: CosensePage, context: RenderContext): string {
+function renderTable(
+  name: string,
+  rows: ParsedNode[][][],
+  context: RenderContext
+): string {
+  const caption = `<caption class="table-caption">${escapeHtml(name)}</caption>`;
+  const body = rows
+    .map((cells) => {
+      const tds = cells
+        .map((cell) => `<td>${cell.map((n) => renderNode(n, context)).join("")}</td>`)
+        .join("");
+      return `<tr>${tds}</tr>`;
+    })
+    .join("");
+  return `<div class="table-block"><table>${caption}<tbody>${body}</tbody></table></div>`;
+}
+
+/**
+ * ページ本文をHTMLにレンダリング（コードブロック、テーブル、見出し、箇条書きの番号を含む）
+ * フィードの要約もこの関数でレンダリングする
+ */
+export function renderPageContent(page: CosensePage, context: RenderContext): string {
   const lines = page.lines.map(getLineText);
   const parsedLines = parseLines(lines);
   const htmlParts: string[] = [];
+  const headingIds = new Map<string, number>();
+  const listCounters = new Map<number, number>();
 
   let i = 0;
   while (i < parsedLines.length) {
@@ -242,10 +645,13 @@ function renderPageContent(page: CosensePage, context: RenderContext): string {
       continue;
     }
 
+    const listNumber = updateListNumbering(listCounters, parsed);
+
     // コードブロック
     if (parsed.isCodeBlock) {
       const codeLines: string[] = [];
       const lang = parsed.codeBlockLang || "";
+      const filename = parsed.codeBlockFilename || "";
       i++;
 
       while (i < parsedLines.length && parsedLines[i].isCodeBlockContent) {
@@ -253,80 +659,159 @@ function renderPageContent(page: CosensePage, context: RenderContext): string {
         i++;
       }
 
-      htmlParts.push(renderCodeBlock(codeLines, lang));
+      htmlParts.push(renderCodeBlock(codeLines, lang, filename));
       continue;
     }
 
-    // 通常行
-    const content = parsed.nodes.map((n) => renderNode(n, context)).join("");
-
-    // 引用ブロック
-    if (parsed.isQuote) {
-      if (parsed.indent > 0) {
-        htmlParts.push(`<blockquote class="quote indent-${parsed.indent}">${content}</blockquote>`);
-      } else {
-        htmlParts.push(`<blockquote class="quote">${content}</blockquote>`);
-      }
+    // テーブル
+    if (parsed.isTable) {
+      const rows: ParsedNode[][][] = [];
+      const name = parsed.tableName || "";
       i++;
+
+      while (i < parsedLines.length && parsedLines[i].isTableContent) {
+        rows.push(parsedLines[i].tableCells || []);
+        i++;
+      }
+
+      htmlParts.push(renderTable(name, rows, context));
       continue;
     }
 
-    if (parsed.indent > 0) {
-      const bullet = '<span class="bullet">•</span>';
-      htmlParts.push(`<div class="line indent-${parsed.indent}">${bullet}${content}</div>`);
-    } else {
-      htmlParts.push(`<div class="line">${content}</div>`);
+    // 見出し
+    const heading = getHeading(parsed);
+    if (heading) {
+      const text = extractTextFromNode(heading.node);
+      const id = createHeadingId(text, headingIds);
+      htmlParts.push(renderHeading(heading.node, heading.tagLevel, id, context));
+      i++;
+      continue;
     }
+
+    // 通常行
+    htmlParts.push(renderLineBody(parsed, context, listNumber));
     i++;
   }
 
   return htmlParts.join("\n");
 }
 
+/**
+ * リンク元の1行をインラインだけでレンダリング
+ * 行だけを取り出して表示するため、見出しやブロックにはせず、テーブルの行はセルを区切って並べる
+ */
+function renderContextLine(line: ParsedLine, context: RenderContext): string {
+  if (line.isCodeBlock || line.isCodeBlockContent || line.isTable) {
+    const text = line.nodes.map(extractTextFromNode).join("");
+    return `<div class="line"><code>${escapeHtml(text)}</code></div>`;
+  }
+  if (line.isTableContent && line.tableCells) {
+    const cells = line.tableCells.map((cell) => cell.map((n) => renderNode(n, context)).join(""));
+    return `<div class="line table-row-context">${cells.join('<span class="table-cell-separator"> / </span>')}</div>`;
+  }
+  return `<div class="line">${line.nodes.map((n) => renderNode(n, context)).join("")}</div>`;
+}
+
+/**
+ * リンク元の行をレンダリング（このページへのリンクを強調表示する）
+ */
+function renderContextLines(
+  contexts: LinkContext[],
+  mentionTitle: string,
+  context: RenderContext
+): string {
+  return contexts.map(({ line }) => renderContextLine(line, { ...context, mentionTitle })).join("");
+}
+
+/**
+ * 関連ページのカードをレンダリング
+ * タイトルとページの最初の画像のサムネイル、リンク元の場合はリンクが書かれている行を表示する
+ */
+function renderRelatedCard(
+  title: string,
+  context: RenderContext,
+  options: { className?: string; contextHtml?: string } = {}
+): string {
+  const thumbnailUrl = context.iconUrls?.get(title);
+  const src = thumbnailUrl ? resolveIconSrc(thumbnailUrl, context) : null;
+  const thumbnail = src
+    ? `<img src="${escapeHtml(src)}" alt="" class="related-card-thumbnail" loading="lazy">`
+    : "";
+  const className = options.className ? `related-card ${options.className}` : "related-card";
+  const contextHtml = options.contextHtml
+    ? `<div class="related-card-context">${options.contextHtml}</div>`
+    : "";
+  return `<div class="${className}"><a href="${getPageUrlFromPage(title)}" class="related-card-link"><span class="related-card-title">${escapeHtml(title)}</span>${thumbnail}</a>${contextHtml}</div>`;
+}
+
+/**
+ * 橋渡しするページごとの2ホップリンクをレンダリング
+ * スコアの高い順に表示し、多い場合は残りを「さらに表示」で開けるようにする
+ */
+function renderTwoHopGroup(group: TwoHopGroup, context: RenderContext): string {
+  const page = findExistingPage(context, group.via);
+  const href = page ? getPageUrlFromPage(page) : getMissingPageUrl(context, group.via);
+  const className = page ? "two-hop-via" : "two-hop-via missing-link";
+  const heading = `<h4 class="two-hop-heading"><a href="${href}" class="${className}">${escapeHtml(group.via)}</a></h4>`;
+
+  const cards = group.pages.map((p) => renderRelatedCard(p.title, context, { className: "two-hop" }));
+  const visible = cards.slice(0, TWO_HOP_VISIBLE_COUNT).join("");
+  const rest = cards.slice(TWO_HOP_VISIBLE_COUNT);
+  const more =
+    rest.length > 0
+      ? `<details class="two-hop-more"><summary>さらに ${rest.length} 件を表示</summary><div class="related-cards">${rest.join("")}</div></details>`
+      : "";
+  return `<div class="two-hop-group">${heading}<div class="related-cards">${visible}</div>${more}</div>`;
+}
+
 /**
  * 関連ページセクションをレンダリング
+ * Cosenseと同様にリンク先・リンク元・2ホップ先をカードで表示する
  */
 function renderRelatedPages(
   pageTitle: string,
-  linkGraph: LinkGraph
+  linkGraph: LinkGraph,
+  context: RenderContext
 ): string {
   const oneHop = get1HopLinks(linkGraph, pageTitle);
-  const twoHop = get2HopLinks(linkGraph, pageTitle);
+  const twoHopGroups = get2HopGroups(linkGraph, pageTitle);
 
   const parts: string[] = [];
 
   // 1ホップリンク（outgoing）
   if (oneHop.outgoing.length > 0) {
-    const links = oneHop.outgoing
+    const cards = oneHop.outgoing
       .filter((t) => linkGraph.existingPages.has(t))
-      .map((t) => `<a href="${getPageUrlFromPage(t)}" class="related-link">${escapeHtml(t)}</a>`)
+      .map((t) => renderRelatedCard(t, context))
       .join("");
-    if (links) {
-      parts.push(`<div class="related-section"><h3>リンク先</h3><div class="related-links">${links}</div></div>`);
+    if (cards) {
+      parts.push(`<div class="related-section"><h3>リンク先</h3><div class="related-cards">${cards}</div></div>`);
     }
   }
 
-  // 1ホップリンク（incoming / バックリンク）
+  // 1ホップリンク（incoming / バックリンク）: このページが書かれている行も表示する
   if (oneHop.incoming.length > 0) {
-    const links = oneHop.incoming
+    const cards = oneHop.incoming
       .filter((t) => linkGraph.existingPages.has(t))
-      .map((t) => `<a href="${getPageUrlFromPage(t)}" class="related-link">${escapeHtml(t)}</a>`)
+      .map((t) => {
+        const lines = linkGraph.linkContexts.get(t)?.get(pageTitle) || [];
+        return renderRelatedCard(t, context, {
+          className: "backlink",
+          contextHtml: renderContextLines(lines, pageTitle, context),
+        });
+      })
       .join("");
-    if (links) {
-      parts.push(`<div class="related-section"><h3>リンク元</h3><div class="related-links">${links}</div></div>`);
+    if (cards) {
+      parts.push(`<div class="related-section"><h3>リンク元</h3><div class="related-cards">${cards}</div></div>`);
     }
   }
 
-  // 2ホップリンク
-  if (twoHop.length > 0) {
-    const links = twoHop
-      .filter((t) => linkGraph.existingPages.has(t))
-      .slice(0, 20) // 最大20件
-      .map((t) => `<a href="${getPageUrlFromPage(t)}" class="related-link two-hop">${escapeHtml(t)}</a>`)
+  // 2ホップリンク（橋渡しするページごと）
+  if (twoHopGroups.length > 0) {
+    const groups = twoHopGroups
+      .map((group) => renderTwoHopGroup(group, context))
       .join("");
-    if (links) {
-      parts.push(`<div class="related-section"><h3>関連ページ</h3><div class="related-links">${links}</div></div>`);
-    }
+    parts.push(`<div class="related-section"><h3>関連ページ</h3>${groups}</div>`);
   }
 
   if (parts.length === 0) {
@@ -336,6 +821,97 @@ function renderRelatedPages(
   return `<section class="related-pages">${parts.join("")}</section>`;
 }
 
+/**
+ * ページと同じ名前のタグのページ一覧へのリンクをレンダリング（タグのページ一覧がなければ空文字）
+ */
+function renderTagPageLink(title: string, context: RenderContext): string {
+  const tag = findTitle(context.tagPageIndex, title);
+  if (!tag) {
+    return "";
+  }
+  return `<a href="${getTagUrlFromPage(tag)}" class="tag-page-link">#${escapeHtml(tag)} のページ一覧</a>`;
+}
+
+/**
+ * ローカルグラフのデータ（local-graph/ にページごとのJSONとして出力し、graph.jsが読み込む）
+ */
+export interface LocalGraphData {
+  /** URLはページからの相対パスで、開けるページがない場合は null */
+  nodes: { title: string; url: string | null; missing: boolean; center: boolean }[];
+  edges: { source: string; target: string; type: string }[];
+}
+
+/**
+ * ローカルグラフに表示する1ホップ先を取得する（リンク先、リンク元の順に最大件数まで）
+ */
+function getLocalGraphOneHop(linkGraph: LinkGraph, pageTitle: string): Set<string> {
+  const oneHop = get1HopLinks(linkGraph, pageTitle);
+  const titles = new Set([...oneHop.outgoing, ...oneHop.incoming]);
+  titles.delete(pageTitle);
+  return new Set(Array.from(titles).slice(0, LOCAL_GRAPH_MAX_ONE_HOP));
+}
+
+/**
+ * ローカルグラフ（このページの周辺のリンクグラフ）のデータを作成する
+ * 2ホップ先は表示する1ホップ先とつながる存在するページのみを含める
+ * つながるページがない場合は null
+ */
+export function buildLocalGraphData(
+  pageTitle: string,
+  linkGraph: LinkGraph,
+  options?: {
+    /** 空ページを出力するタイトルの正規化キーの索引（空ページへのリンクに使う） */
+    stubPageIndex?: Map<string, string>;
+  }
+): LocalGraphData | null {
+  const oneHopTitles = getLocalGraphOneHop(linkGraph, pageTitle);
+  if (oneHopTitles.size === 0) {
+    return null;
+  }
+  const context: RenderContext = { pageIndex: linkGraph.pageIndex, stubPageIndex: options?.stubPageIndex };
+  const isLinkedToOneHop = (title: string) =>
+    [...(linkGraph.forwardLinks.get(title) || []), ...(linkGraph.backLinks.get(title) || [])].some((t) =>
+      oneHopTitles.has(t)
+    );
+  const twoHop = get2HopLinks(linkGraph, pageTitle)
+    .filter((t) => linkGraph.existingPages.has(t) && isLinkedToOneHop(t))
+    .slice(0, LOCAL_GRAPH_MAX_TWO_HOP);
+  const titles = new Set([pageTitle, ...oneHopTitles, ...twoHop]);
+
+  const nodes = Array.from(titles, (title) => {
+    const missing = !linkGraph.existingPages.has(title);
+    const href = missing ? getMissingPageUrl(context, title) : getPageUrlFromPage(title);
+    return { title, url: href === "#" ? null : href, missing, center: title === pageTitle };
+  });
+  const edges: LocalGraphData["edges"] = [];
+  for (const source of titles) {
+    for (const [target, types] of linkGraph.linkTypes.get(source) || []) {
+      if (!titles.has(target)) {
+        continue;
+      }
+      for (const type of types) {
+        edges.push({ source, target, type });
+      }
+    }
+  }
+  return { nodes, edges };
+}
+
+/**
+ * ローカルグラフのウィジェットをレンダリング
+ * グラフのデータ（buildLocalGraphData）は local-graph/ のJSONに出力し、graph.jsが画面に表示されたときに読み込んで描画する
+ */
+function renderLocalGraph(pageTitle: string, linkGraph: LinkGraph): string {
+  if (getLocalGraphOneHop(linkGraph, pageTitle).size === 0) {
+    return "";
+  }
+  return `<section class="local-graph-section">
+      <h3>ローカルグラフ</h3>
+      <div class="local-graph" data-local-graph-src="${escapeHtml(getLocalGraphUrlFromPage(pageTitle))}"></div>
+      <a href="../graph.html" class="graph-page-link">全体のグラフを見る</a>
+    </section>`;
+}
+
 /**
  * 日付をフォーマット
  */
@@ -348,6 +924,74 @@ function formatDate(timestamp: number): string {
   });
 }
 
+/**
+ * ヘッダーの検索欄（コンボボックス）
+ * 検索結果のリストと、件数を読み上げるライブリージョンは search.js が更新する
+ */
+function renderSearchBox(): string {
+  return `<div class="search-container" role="search">
+        <label for="search-input" class="visually-hidden">ページを検索</label>
+        <input type="text" id="search-input" placeholder="検索..." class="search-input" role="combobox" aria-autocomplete="list" aria-expanded="false" aria-controls="search-results" aria-keyshortcuts="/" autocomplete="off">
+        <div id="search-results" class="search-results" role="listbox" aria-label="検索結果"></div>
+        <div id="search-status" class="visually-hidden" role="status" aria-live="polite"></div>
+      </div>`;
+}
+
+/**
+ * ページの共通レイアウトのオプション
+ */
+interface LayoutOptions {
+  /** ページのタイトル（省略時はプロジェクト名だけをタイトルにする） */
+  title?: string;
+  projectName: string;
+  /** サイトのルートからのディレクトリの深さ（pages/ と tags/ のページは 1） */
+  depth: number;
+  /** <head> に追加する要素 */
+  head?: string[];
+  /** ヘッダーに検索欄を表示するか（デフォルト: true） */
+  searchBox?: boolean;
+  /** <main> 要素 */
+  main: string;
+  /** 読み込むスクリプト（assets/js/ のファイル名） */
+  scripts?: (string | { src: string; defer: boolean })[];
+}
+
+/**
+ * ページ全体のHTMLを共通のレイアウト（<head>、ヘッダー、スクリプト）で生成
+ */
+function renderLayout(options: LayoutOptions): string {
+  const root = "../".repeat(options.depth);
+  const projectName = escapeHtml(options.projectName);
+  const title = options.title ? `${escapeHtml(options.title)} - ${projectName}` : projectName;
+  const head = (options.head ?? []).map((element) => `\n  ${element}`).join("");
+  const searchBox = options.searchBox === false ? "" : `\n      ${renderSearchBox()}`;
+  const scripts = (options.scripts ?? [])
+    .map((script) => {
+      const { src, defer } = typeof script === "string" ? { src: script, defer: false } : script;
+      return `  <script src="${root}assets/js/${src}"${defer ? " defer" : ""}></script>\n`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <link rel="stylesheet" href="${root}assets/css/style.css">${head}
+</head>
+<body>
+  <header class="site-header">
+    <nav class="header-nav">
+      <a href="${root}index.html" class="project-name">${projectName}</a>${searchBox}
+    </nav>
+  </header>
+
+  ${options.main}
+${scripts ? `\n${scripts}` : ""}</body>
+</html>`;
+}
+
 /**
  * ページ全体のHTMLを生成
  */
@@ -358,43 +1002,44 @@ export function renderPage(
   options?: {
     gyazoResults?: Map<string, GyazoResolveResult>;
     hasGyazoToken?: boolean;
+    iconUrls?: Map<string, string>;
+    mediaAsLinks?: boolean;
+    bareImageUrls?: boolean;
+    stubPageIndex?: Map<string, string>;
+    tagPageIndex?: Map<string, string>;
+    onMathError?: (formula: string, error: string) => void;
   }
 ): string {
   const context: RenderContext = {
-    existingPages: linkGraph.existingPages,
+    pageIndex: linkGraph.pageIndex,
     gyazoResults: options?.gyazoResults,
     hasGyazoToken: options?.hasGyazoToken,
+    iconUrls: options?.iconUrls,
+    mediaAsLinks: options?.mediaAsLinks,
+    bareImageUrls: options?.bareImageUrls,
+    stubPageIndex: options?.stubPageIndex,
+    tagPageIndex: options?.tagPageIndex,
+    onMathError: options?.onMathError,
   };
   const content = renderPageContent(page, context);
-  const relatedPages = renderRelatedPages(page.title, linkGraph);
+  const relatedPages = renderRelatedPages(page.title, linkGraph, context);
+  const localGraph = renderLocalGraph(page.title, linkGraph);
   const createdDate = formatDate(page.created);
   const updatedDate = formatDate(page.updated);
 
-  return `<!DOCTYPE html>
-<html lang="ja">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${escapeHtml(page.title)} - ${escapeHtml(projectName)}</title>
-  <link rel="stylesheet" href="../assets/css/style.css">
-</head>
-<body>
-  <header class="site-header">
-    <nav class="header-nav">
-      <a href="../index.html" class="project-name">${escapeHtml(projectName)}</a>
-      <div class="search-container">
-        <input type="text" id="search-input" placeholder="検索..." class="search-input">
-        <div id="search-results" class="search-results"></div>
-      </div>
-    </nav>
-  </header>
-
-  <main class="page-content">
+  return renderLayout({
+    title: page.title,
+    projectName,
+    depth: 1,
+    // 数式を含むページのみKaTeXのスタイルシートを読み込む
+    head: content.includes('class="katex') ? [KATEX_STYLESHEET] : [],
+    main: `<main class="page-content">
     <article class="page">
       <h1 class="page-title">${escapeHtml(page.title)}</h1>
       <div class="page-meta">
         <span class="created">作成: ${createdDate}</span>
         <span class="updated">更新: ${updatedDate}</span>
+        ${renderTagPageLink(page.title, context)}
       </div>
       <div class="page-body">
         ${content}
@@ -402,11 +1047,91 @@ export function renderPage(
     </article>
 
     ${relatedPages}
-  </main>
+    ${localGraph}
+  </main>`,
+    // ローカルグラフがあるページのみグラフのスクリプトを読み込む
+    scripts: ["search.js", "copy.js", "embed.js", ...(localGraph ? [{ src: "graph.js", defer: true }] : [])],
+  });
+}
 
-  <script src="../assets/js/search.js"></script>
-</body>
-</html>`;
+/**
+ * 空ページのリンク元一覧をレンダリング
+ * リンク元ページごとに、リンクが書かれている行を表示する
+ */
+function renderStubReferences(
+  title: string,
+  linkGraph: LinkGraph,
+  context: RenderContext
+): string {
+  const referrers = Array.from(linkGraph.backLinks.get(title) || []);
+  const items = referrers
+    .map((referrer) => {
+      const lines = linkGraph.linkContexts.get(referrer)?.get(title) || [];
+      const contextLines = `<div class="stub-reference-lines">${renderContextLines(lines, title, context)}</div>`;
+      return `<li class="stub-reference">
+          <a href="${getPageUrlFromPage(referrer)}" class="stub-reference-title">${escapeHtml(referrer)}</a>
+          ${contextLines}
+        </li>`;
+    })
+    .join("\n");
+  return `<section class="stub-references">
+      <h2>リンク元</h2>
+      <ul class="stub-reference-list">
+        ${items}
+      </ul>
+    </section>`;
+}
+
+/**
+ * 空ページ（リンクされているが存在しないページ）のHTMLを生成
+ * Cosenseと同様に、タイトルとこのページにリンクしているページの一覧を表示する
+ */
+export function renderStubPage(
+  title: string,
+  linkGraph: LinkGraph,
+  projectName: string,
+  options?: {
+    gyazoResults?: Map<string, GyazoResolveResult>;
+    hasGyazoToken?: boolean;
+    iconUrls?: Map<string, string>;
+    mediaAsLinks?: boolean;
+    bareImageUrls?: boolean;
+    stubPageIndex?: Map<string, string>;
+    tagPageIndex?: Map<string, string>;
+    onMathError?: (formula: string, error: string) => void;
+  }
+): string {
+  const context: RenderContext = {
+    pageIndex: linkGraph.pageIndex,
+    gyazoResults: options?.gyazoResults,
+    hasGyazoToken: options?.hasGyazoToken,
+    iconUrls: options?.iconUrls,
+    mediaAsLinks: options?.mediaAsLinks,
+    bareImageUrls: options?.bareImageUrls,
+    stubPageIndex: options?.stubPageIndex,
+    tagPageIndex: options?.tagPageIndex,
+    onMathError: options?.onMathError,
+  };
+  const referrerCount = linkGraph.backLinks.get(title)?.size || 0;
+  const references = renderStubReferences(title, linkGraph, context);
+
+  return renderLayout({
+    title,
+    projectName,
+    depth: 1,
+    // リンク元の行に数式が含まれる場合のみKaTeXのスタイルシートを読み込む
+    head: references.includes('class="katex') ? [KATEX_STYLESHEET] : [],
+    main: `<main class="page-content">
+    <article class="page stub-page">
+      <h1 class="page-title">${escapeHtml(title)}</h1>
+      <p class="stub-notice">このページはまだ作成されていません。${referrerCount} ページからリンクされています。</p>
+      ${renderTagPageLink(title, context)}
+    </article>
+
+    ${references}
+  </main>`,
+    scripts: ["search.js", "copy.js", "embed.js"],
+  });
 }
 
 /**
@@ -414,11 +1139,21 @@ export function renderPage(
  */
 export function renderIndexPage(
   pages: CosensePage[],
-  projectName: string
+  projectName: string,
+  options?: { hasFeeds?: boolean }
 ): string {
   // 更新日時でソート（新しい順）
   const sortedPages = [...pages].sort((a, b) => b.updated - a.updated);
 
+  // フィードを出力した場合はフィードリーダー向けに通知する
+  const feedLinks = options?.hasFeeds
+    ? [
+        `<link rel="alternate" type="application/atom+xml" title="${escapeHtml(projectName)}" href="feed.xml">`,
+        `<link rel="alternate" type="application/rss+xml" title="${escapeHtml(projectName)}" href="rss.xml">`,
+        `<link rel="alternate" type="application/feed+json" title="${escapeHtml(projectName)}" href="feed.json">`,
+      ]
+    : [];
+
   const pageList = sortedPages
     .map((page) => {
       const date = formatDate(page.updated);
@@ -429,34 +1164,295 @@ export function renderIndexPage(
     })
     .join("\n");
 
-  return `<!DOCTYPE html>
-<html lang="ja">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${escapeHtml(projectName)}</title>
-  <link rel="stylesheet" href="assets/css/style.css">
-</head>
-<body>
-  <header class="site-header">
-    <nav class="header-nav">
-      <a href="index.html" class="project-name">${escapeHtml(projectName)}</a>
-      <div class="search-container">
-        <input type="text" id="search-input" placeholder="検索..." class="search-input">
-        <div id="search-results" class="search-results"></div>
-      </div>
-    </nav>
-  </header>
-
-  <main class="index-content">
+  return renderLayout({
+    projectName,
+    depth: 0,
+    head: feedLinks,
+    main: `<main class="index-content">
     <h1 class="index-title">${escapeHtml(projectName)}</h1>
-    <p class="page-count">${pages.length} ページ</p>
+    <p class="page-count">${pages.length} ページ <a href="graph.html" class="graph-page-link">グラフを見る</a> <a href="tags/index.html" class="graph-page-link">タグ一覧</a></p>
     <ul class="page-list">
       ${pageList}
     </ul>
-  </main>
+  </main>`,
+    scripts: ["search.js"],
+  });
+}
 
-  <script src="assets/js/search.js"></script>
-</body>
-</html>`;
+/**
+ * ナレッジグラフのページのHTMLを生成
+ * グラフのデータ（link-data.json）は表示時に読み込む
+ */
+export function renderGraphPage(projectName: string): string {
+  return renderLayout({
+    title: "グラフ",
+    projectName,
+    depth: 0,
+    main: `<main class="graph-content">
+    <div class="graph-toolbar">
+      <input type="search" id="graph-search" placeholder="ページを探す..." class="graph-search" aria-label="グラフ内のページを探す">
+      <span class="graph-legend">
+        <span class="graph-legend-item page">ページ</span>
+        <span class="graph-legend-item hashtag">ハッシュタグ</span>
+        <span class="graph-legend-item missing">未作成のページ</span>
+      </span>
+    </div>
+    <div class="graph-view" data-graph-src="link-data.json"></div>
+  </main>`,
+    scripts: ["search.js", "graph.js"],
+  });
+}
+
+/**
+ * 検索結果ページ（search.html）をレンダリング
+ * 検索は search.js が ?q= の検索語で行い、結果とページ番号のリンクを表示する
+ */
+export function renderSearchPage(projectName: string): string {
+  return renderLayout({
+    title: "検索",
+    projectName,
+    depth: 0,
+    head: ['<meta name="robots" content="noindex">'],
+    searchBox: false,
+    main: `<main class="page-content">
+    <article class="page search-page" id="search-page">
+      <h1 class="page-title">検索</h1>
+      <form class="search-page-form" action="search.html" method="get" role="search">
+        <input type="search" name="q" id="search-page-input" class="search-page-input" placeholder="検索..." aria-label="検索語">
+        <button type="submit" class="search-page-button">検索</button>
+      </form>
+      <details class="search-help">
+        <summary>検索の書き方</summary>
+        <ul>
+          <li><code>語1 語2</code> すべての語を含むページ</li>
+          <li><code>"フレーズ"</code> 語を完全に一致させる</li>
+          <li><code>-語</code> 語を含むページを除く</li>
+          <li><code>title:語</code> タイトルに語を含むページ</li>
+          <li><code>tag:タグ</code> ハッシュタグの付いたページ（<code>-tag:タグ</code> で除く）</li>
+          <li><code>updated:&gt;2023-01-01</code> 更新日時で絞り込む（<code>&gt;=</code> <code>&lt;</code> <code>&lt;=</code>、<code>created:</code> は作成日時、日付はUTC）</li>
+        </ul>
+      </details>
+      <p class="search-page-summary" aria-live="polite"></p>
+      <ol class="search-page-results"></ol>
+      <nav class="search-pagination" aria-label="検索結果のページ"></nav>
+    </article>
+  </main>`,
+    scripts: ["search.js"],
+  });
+}
+
+// 保守用レポートで連結成分ごとに表示するページ数
+const REPORT_COMPONENT_SAMPLE_SIZE = 5;
+// 保守用レポートで表示する連結成分の数
+const REPORT_MAX_COMPONENTS = 20;
+
+/**
+ * 保守用レポートのページ名をリンクにする
+ * 存在しないページは空ページがあればリンクし、なければ文字だけ表示する
+ */
+function renderReportPageLink(
+  title: string,
+  existingPages: Set<string>,
+  stubPages: Set<string> | undefined
+): string {
+  if (existingPages.has(title) || stubPages?.has(title)) {
+    const className = existingPages.has(title) ? "report-link" : "report-link missing-link";
+    return `<a href="${getPageUrlFromIndex(title)}" class="${className}">${escapeHtml(title)}</a>`;
+  }
+  return `<span class="missing-link">${escapeHtml(title)}</span>`;
+}
+
+/**
+ * 保守用レポートのページ一覧のセクションをレンダリング
+ */
+function renderReportSection(heading: string, description: string, items: string[]): string {
+  const body =
+    items.length > 0
+      ? `<ul class="report-list">${items.map((item) => `<li>${item}</li>`).join("")}</ul>`
+      : `<p class="report-empty">該当するページはありません</p>`;
+  return `<section class="report-section">
+      <h2>${escapeHtml(heading)} <span class="report-count">${items.length}</span></h2>
+      <p class="report-description">${escapeHtml(description)}</p>
+      ${body}
+    </section>`;
+}
+
+/**
+ * リンクグラフの保守用レポートのHTMLを生成
+ * サイトの利用者向けではないため、ページ一覧からはリンクせず検索エンジンにも登録させない
+ */
+export function renderReportPage(
+  report: GraphReport,
+  linkGraph: LinkGraph,
+  projectName: string,
+  options?: { stubPages?: Set<string> }
+): string {
+  const link = (title: string) =>
+    renderReportPageLink(title, linkGraph.existingPages, options?.stubPages);
+
+  const components = report.components.slice(0, REPORT_MAX_COMPONENTS).map((component) => {
+    const sample = component.slice(0, REPORT_COMPONENT_SAMPLE_SIZE).map(link).join("、");
+    const rest = component.length - REPORT_COMPONENT_SAMPLE_SIZE;
+    return `${component.length} ページ: ${sample}${rest > 0 ? ` ほか ${rest} ページ` : ""}`;
+  });
+
+  const sections = [
+    renderReportSection(
+      "孤立したページ",
+      "リンク先もリンク元もないページです。",
+      report.orphans.map(link)
+    ),
+    renderReportSection(
+      "リンク元のないページ",
+      "他のページにリンクしていますが、どのページからもリンクされていないページです。",
+      report.outboundOnly.map(link)
+    ),
+    renderReportSection(
+      "よくリンクされているページ",
+      "リンク元のページ数が多い順です。",
+      report.hubs.map((hub) => `${link(hub.title)} <span class="report-value">${hub.inDegree}</span>`)
+    ),
+    renderReportSection(
+      "PageRank",
+      "リンクのつながりから計算した重要度の高い順です（未作成のページも含みます）。",
+      report.pageRank.map(
+        (entry) => `${link(entry.title)} <span class="report-value">${entry.score.toFixed(4)}</span>`
+      )
+    ),
+    renderReportSection(
+      "存在しないリンク先",
+      "リンクされていますが作成されていないページです。リンク元のページ数が多い順です。",
+      report.missingTargets.map(
+        (target) => `${link(target.title)} <span class="report-value">${target.inDegree}</span>`
+      )
+    ),
+    renderReportSection(
+      "連結成分",
+      `リンクの向きを無視してつながっているページのまとまりです（全 ${report.components.length} 個、大きい順に最大 ${REPORT_MAX_COMPONENTS} 個を表示）。`,
+      components
+    ),
+  ];
+
+  return renderLayout({
+    title: "リンクの保守用レポート",
+    projectName,
+    depth: 0,
+    head: ['<meta name="robots" content="noindex, nofollow">'],
+    searchBox: false,
+    main: `<main class="index-content report-content">
+    <h1 class="index-title">リンクの保守用レポート</h1>
+    <dl class="report-summary">
+      <dt>ページ数</dt><dd>${report.pageCount}</dd>
+      <dt>リンク数</dt><dd>${report.linkCount}</dd>
+      <dt>連結成分</dt><dd>${report.components.length}</dd>
+      <dt>存在しないリンク先</dt><dd>${report.missingTargets.length}</dd>
+    </dl>
+    ${sections.join("\n    ")}
+  </main>`,
+  });
+}
+
+/**
+ * ページ本文の先頭からスニペットを作成する（タイトル行、コードブロック、table: の行は除く）
+ * テーブルの行はセルを / で区切る
+ */
+function createPageSnippet(page: CosensePage): string {
+  const parsedLines = parseLines(page.lines.map(getLineText)).slice(1);
+  const text = parsedLines
+    .filter((parsed) => !parsed.isCodeBlock && !parsed.isCodeBlockContent && !parsed.isTable)
+    .map((parsed) => extractLineText(parsed, " / ").trim())
+    .filter((line) => line.length > 0)
+    .join(" ");
+  return text.length > TAG_SNIPPET_LENGTH ? `${text.slice(0, TAG_SNIPPET_LENGTH)}…` : text;
+}
+
+/**
+ * タグのページ一覧のHTMLを生成
+ * 同じ名前のページ（または空ページ）があれば、そのページへのリンクも表示する
+ * @param pages タグが付いているページ（表示順）
+ */
+export function renderTagPage(
+  tag: string,
+  pages: CosensePage[],
+  projectName: string,
+  options?: { pageIndex?: Map<string, string>; stubPageIndex?: Map<string, string>; hasFeed?: boolean }
+): string {
+  const context: RenderContext = {
+    pageIndex: options?.pageIndex ?? new Map(),
+    stubPageIndex: options?.stubPageIndex,
+  };
+  // 同じ名前のページ、なければ空ページ
+  const target = findExistingPage(context, tag) ?? findTitle(context.stubPageIndex, tag);
+  const pageLink = target
+    ? `<a href="../pages/${getPageUrlFromPage(target)}" class="tag-page-link">ページ「${escapeHtml(target)}」を開く</a>`
+    : "";
+
+  const feedLink = options?.hasFeed
+    ? [`<link rel="alternate" type="application/atom+xml" title="#${escapeHtml(tag)}" href="../${getTagFeedUrl(tag)}">`]
+    : [];
+
+  const items = pages
+    .map((tagged) => {
+      const snippet = createPageSnippet(tagged);
+      return `<li class="page-item tag-page-item">
+        <a href="../pages/${getPageUrlFromPage(tagged.title)}" class="page-link">${escapeHtml(tagged.title)}</a>
+        <span class="page-date">${formatDate(tagged.updated)}</span>
+        ${snippet ? `<p class="tag-page-snippet">${escapeHtml(snippet)}</p>` : ""}
+      </li>`;
+    })
+    .join("\n");
+
+  return renderLayout({
+    title: `#${tag}`,
+    projectName,
+    depth: 1,
+    head: feedLink,
+    main: `<main class="index-content">
+    <h1 class="index-title">#${escapeHtml(tag)}</h1>
+    <p class="page-count">${pages.length} ページ <a href="index.html" class="tag-page-link">タグ一覧</a> ${pageLink}</p>
+    <ul class="page-list">
+      ${items}
+    </ul>
+  </main>`,
+    scripts: ["search.js"],
+  });
+}
+
+/**
+ * タグ一覧（タグクラウド）のHTMLを生成
+ * タグの文字の大きさはタグが付いているページ数（対数）で決める
+ */
+export function renderTagIndexPage(
+  tags: { tag: string; count: number }[],
+  projectName: string
+): string {
+  const counts = tags.map(({ count }) => Math.log(count));
+  const min = Math.min(...counts);
+  const max = Math.max(...counts);
+  const level = (count: number) =>
+    max > min
+      ? 1 + Math.round(((Math.log(count) - min) / (max - min)) * (TAG_CLOUD_LEVELS - 1))
+      : Math.ceil(TAG_CLOUD_LEVELS / 2);
+
+  const cloud = [...tags]
+    .sort((a, b) => a.tag.localeCompare(b.tag))
+    .map(
+      ({ tag, count }) =>
+        `<a href="${getTagUrlFromPage(tag)}" class="tag-cloud-item tag-cloud-level-${level(count)}" title="${count} ページ">#${escapeHtml(tag)}</a>`
+    )
+    .join("\n      ");
+
+  return renderLayout({
+    title: "タグ一覧",
+    projectName,
+    depth: 1,
+    main: `<main class="index-content">
+    <h1 class="index-title">タグ一覧</h1>
+    <p class="page-count">${tags.length} タグ</p>
+    <div class="tag-cloud">
+      ${cloud}
+    </div>
+  </main>`,
+    scripts: ["search.js"],
+  });
 }
@@ -1,124 +1,241 @@
 /**
  * クライアントサイドJavaScript生成モジュール
- * 検索機能のJSを生成
+ * 検索機能・コピーボタン・埋め込みのJSを生成
  */
 
+import { createSearchEngine } from "../analyzer/search-engine.js";
+
 /**
  * 検索機能のJavaScriptを生成
+ * 検索エンジンは search-engine.ts の関数をそのまま埋め込む
  */
 export function generateSearchJS(): string {
   return `// Cosense Archiver - Search Functionality
 
 (function() {
-  let searchIndex = null;
+  let manifest = null;
+  let titleIndex = null;
+  let indexReady = null;
   let searchInput = null;
   let searchResults = null;
+  let searchStatus = null;
+  let isOpen = false;
+  let options = []; // 表示中の選択肢（{ id, href }）
+  let activeIndex = -1; // 矢印キーで選択中の選択肢（-1 は検索欄）
   let debounceTimer = null;
+  let searchId = 0;
+  const shardCache = new Map(); // シャード番号 -> 転置インデックス（Promise）
+  const pageChunkCache = new Map(); // ページ情報のファイル番号 -> ページ情報（Promise）
+  const rankingDataCache = new Map(); // シャードの組み合わせ -> ランキングデータ
+  let tagIndex = null;
+  let dates = null;
+  const MAX_RESULTS = 10;
+  // 検索結果ページの1ページあたりの件数
+  const PAGE_SIZE = 20;
+
+  // ページのパスに応じてサイトのルートを調整（pages/ と tags/ は1階層下）
+  const rootPath = /\\/(pages|tags)\\//.test(window.location.pathname) ? '..' : '.';
+  const indexPath = rootPath + '/search/';
+
+  async function fetchJSON(file) {
+    const response = await fetch(indexPath + file);
+    return response.json();
+  }
 
-  // 検索インデックスを読み込む
+  // 目録とタイトルだけのインデックスを読み込む（シャードは検索語に応じて読み込む）
   async function loadSearchIndex() {
     try {
-      // ページのパスに応じてインデックスのパスを調整
-      const basePath = window.location.pathname.includes('/pages/') ? '..' : '.';
-      const response = await fetch(basePath + '/search.json');
-      searchIndex = await response.json();
+      [manifest, titleIndex] = await Promise.all([fetchJSON('manifest.json'), fetchJSON('titles.json')]);
     } catch (error) {
       console.error('Failed to load search index:', error);
     }
   }
 
-  // 検索を実行
-  function search(query) {
-    if (!searchIndex || !query.trim()) {
-      return [];
+  function loadShard(id) {
+    if (!shardCache.has(id)) {
+      shardCache.set(id, fetchJSON('shard-' + id + '.json'));
     }
+    return shardCache.get(id);
+  }
 
-    const keywords = query.trim().toLowerCase().split(/\\s+/);
-    const results = [];
+  function loadPageChunk(id) {
+    if (!pageChunkCache.has(id)) {
+      pageChunkCache.set(id, fetchJSON('pages-' + id + '.json'));
+    }
+    return pageChunkCache.get(id);
+  }
 
-    for (const page of searchIndex.pages) {
-      const lowerTitle = page.title.toLowerCase();
-      const lowerContent = page.content.toLowerCase();
+  // 検索エンジン（サーバー側の search() と共通のランキング）
+  const engine = (${createSearchEngine.toString()})();
 
-      // すべてのキーワードが含まれているか確認
-      const allMatch = keywords.every(keyword =>
-        lowerTitle.includes(keyword) || lowerContent.includes(keyword)
-      );
+  // 検索語に必要なシャード（絞り込みに使う場合はタグと日時も）を読み込み、ランキングデータを作る
+  async function getRankingData(query) {
+    const requirements = engine.getRequirements(query, manifest.shardKeys);
+    if (requirements.tags && !tagIndex) {
+      tagIndex = await fetchJSON('tags.json');
+    }
+    if (requirements.dates && !dates) {
+      dates = await fetchJSON('dates.json');
+    }
+    const cacheKey = requirements.shards.join(',') + (requirements.tags ? ':tags' : '') + (requirements.dates ? ':dates' : '');
+    if (!rankingDataCache.has(cacheKey)) {
+      const shards = await Promise.all(requirements.shards.map(loadShard));
+      // 語が __proto__ などでも通常のプロパティとして扱えるように、プロトタイプのないオブジェクトにまとめる
+      const postings = { title: Object.create(null), helpfeel: Object.create(null), content: Object.create(null) };
+      for (const shard of shards) {
+        for (const field of Object.keys(postings)) {
+          Object.assign(postings[field], shard[field]);
+        }
+      }
+      if (rankingDataCache.size >= 20) {
+        rankingDataCache.clear();
+      }
+      rankingDataCache.set(cacheKey, {
+        titles: titleIndex.titles,
+        stats: manifest.stats,
+        postings: postings,
+        tags: requirements.tags ? tagIndex : undefined,
+        dates: requirements.dates ? dates : undefined
+      });
+    }
+    return rankingDataCache.get(cacheKey);
+  }
 
-      if (!allMatch) continue;
+  // 検索語に一致するページをすべて順位付けする
+  async function rankAll(query) {
+    await indexReady;
+    if (!manifest || !query.trim()) {
+      return [];
+    }
+    const data = await getRankingData(query);
+    return engine.rank(data, query);
+  }
 
-      // スコア計算
-      let score = 0;
-      const titleMatch = keywords.some(k => lowerTitle.includes(k));
+  // 順位付けしたページのページ情報を読み込み、検索結果にする
+  function loadResults(ranked, query) {
+    return Promise.all(ranked.map(async (item) => {
+      const chunk = await loadPageChunk(Math.floor(item.page / manifest.pageChunkSize));
+      return engine.createResult(chunk[item.page % manifest.pageChunkSize], item, query);
+    }));
+  }
 
-      if (titleMatch) {
-        score += 100;
-        if (lowerTitle === query.toLowerCase()) {
-          score += 50;
-        }
+  // タイトルの補完候補をすぐに表示し、シャードを読み込んだら検索結果で置き換える
+  async function runSearch(query) {
+    if (!query.trim()) {
+      closeResults();
+      announce('');
+      return;
+    }
+    const id = ++searchId;
+    if (titleIndex) {
+      const completions = engine.completeTitles(titleIndex, query, MAX_RESULTS);
+      if (completions.length > 0) {
+        displayResults(completions.map(c => ({ title: c.title, url: c.url, snippet: '' })), query);
       }
-
-      // スニペット生成
-      let snippet = '';
-      const firstKeyword = keywords[0];
-      const index = lowerContent.indexOf(firstKeyword);
-      if (index !== -1) {
-        const start = Math.max(0, index - 30);
-        const end = Math.min(page.content.length, index + 70);
-        snippet = page.content.slice(start, end);
-        if (start > 0) snippet = '...' + snippet;
-        if (end < page.content.length) snippet = snippet + '...';
-      } else {
-        snippet = page.content.slice(0, 100) + '...';
+    }
+    try {
+      const ranked = await rankAll(query);
+      const results = await loadResults(ranked.slice(0, MAX_RESULTS), query);
+      if (id === searchId) {
+        displayResults(results, query);
+        announce(ranked.length === 0
+          ? '検索結果がありません'
+          : ranked.length + ' 件の検索結果があります。上下キーで選択できます');
       }
-
-      results.push({
-        title: page.title,
-        snippet: snippet,
-        matchType: titleMatch ? 'title' : 'content',
-        score: score
-      });
+    } catch (error) {
+      console.error('Failed to search:', error);
     }
+  }
 
-    // スコアでソート
-    results.sort((a, b) => b.score - a.score);
+  // 検索結果のページのURL（インデックスにはサイトのルートからの相対URLが入っている）
+  function getResultUrl(result) {
+    return rootPath + '/' + result.url;
+  }
 
-    return results.slice(0, 10); // 最大10件
+  // 検索結果ページのURL
+  function getSearchPageUrl(query, page) {
+    return rootPath + '/search.html?q=' + encodeURIComponent(query) + (page > 1 ? '&page=' + page : '');
   }
 
-  // 検索結果を表示
-  function displayResults(results) {
-    if (!searchResults) return;
+  // 検索語を強調表示したHTML
+  function highlightHtml(text, query) {
+    return engine.highlight(text, query).map(segment =>
+      segment.match ? '<mark>' + escapeHtml(segment.text) + '</mark>' : escapeHtml(segment.text)
+    ).join('');
+  }
+
+  // 検索結果の件数をスクリーンリーダーに伝える
+  function announce(message) {
+    if (searchStatus) {
+      searchStatus.textContent = message;
+    }
+  }
 
-    if (results.length === 0) {
-      searchResults.innerHTML = '<div class="search-result-item">検索結果がありません</div>';
-      searchResults.classList.add('active');
+  function openResults() {
+    isOpen = true;
+    searchResults.classList.add('active');
+    searchInput.setAttribute('aria-expanded', 'true');
+  }
+
+  // 検索結果を閉じる（読み込み中の検索結果も表示しない）
+  function closeResults() {
+    searchId++;
+    setActiveOption(-1);
+    isOpen = false;
+    searchResults.classList.remove('active');
+    searchInput.setAttribute('aria-expanded', 'false');
+  }
+
+  // 選択中の選択肢を変える（フォーカスは検索欄に残し、aria-activedescendant で伝える）
+  function setActiveOption(index) {
+    const previous = options[activeIndex] && document.getElementById(options[activeIndex].id);
+    if (previous) {
+      previous.setAttribute('aria-selected', 'false');
+      previous.classList.remove('selected');
+    }
+    activeIndex = index;
+    if (!options[index]) {
+      activeIndex = -1;
+      searchInput.removeAttribute('aria-activedescendant');
       return;
     }
+    const current = document.getElementById(options[index].id);
+    if (current) {
+      current.setAttribute('aria-selected', 'true');
+      current.classList.add('selected');
+      if (current.scrollIntoView) current.scrollIntoView({ block: 'nearest' });
+    }
+    searchInput.setAttribute('aria-activedescendant', options[index].id);
+  }
 
-    // ページパスを取得
-    const basePath = window.location.pathname.includes('/pages/') ? '' : 'pages/';
+  // 矢印キーで選択肢を移動する（端からは検索欄に戻る）
+  function moveActiveOption(delta) {
+    if (options.length === 0) return;
+    let next = activeIndex + delta;
+    if (next < -1) next = options.length - 1;
+    if (next >= options.length) next = -1;
+    setActiveOption(next);
+  }
 
-    const html = results.map(result => {
-      const encodedTitle = encodeURIComponent(result.title);
-      return \`<div class="search-result-item" data-href="\${basePath}\${encodedTitle}.html">
-        <div class="search-result-title">\${escapeHtml(result.title)}</div>
-        <div class="search-result-snippet">\${escapeHtml(result.snippet)}</div>
-      </div>\`;
-    }).join('');
+  // 検索結果を表示（選択肢はすべて実際のリンク）
+  function displayResults(results, query) {
+    if (!searchResults) return;
 
-    searchResults.innerHTML = html;
-    searchResults.classList.add('active');
+    options = results.map((result, i) => ({ id: 'search-option-' + i, href: getResultUrl(result) }));
+    options.push({ id: 'search-option-more', href: getSearchPageUrl(query, 1) });
+    activeIndex = -1;
+    searchInput.removeAttribute('aria-activedescendant');
 
-    // クリックイベントを追加
-    searchResults.querySelectorAll('.search-result-item').forEach(item => {
-      item.addEventListener('click', function() {
-        const href = this.getAttribute('data-href');
-        if (href) {
-          window.location.href = href;
-        }
-      });
-    });
+    const more = \`<a class="search-more" id="search-option-more" href="\${options[options.length - 1].href}" role="option" aria-selected="false" tabindex="-1">すべての検索結果を見る</a>\`;
+    const html = results.length === 0
+      ? '<div class="search-result-empty">検索結果がありません</div>'
+      : results.map((result, i) => \`<a class="search-result-item" id="\${options[i].id}" href="\${options[i].href}" role="option" aria-selected="false" tabindex="-1">
+        <span class="search-result-title">\${highlightHtml(result.title, query)}</span>
+        <span class="search-result-snippet">\${highlightHtml(result.snippet, query)}</span>
+      </a>\`).join('');
+
+    searchResults.innerHTML = html + more;
+    openResults();
   }
 
   // HTMLエスケープ
@@ -128,15 +245,82 @@ export function generateSearchJS(): string {
     return div.innerHTML;
   }
 
+  // ページ番号のリンク（前後と、最初・最後・現在のページの周辺）
+  function renderPagination(query, current, pageCount) {
+    if (pageCount <= 1) return '';
+    const gap = '<span class="search-pagination-gap">…</span>';
+    const links = [];
+    if (current > 1) {
+      links.push(\`<a href="\${getSearchPageUrl(query, current - 1)}" rel="prev">前へ</a>\`);
+    }
+    for (let page = 1; page <= pageCount; page++) {
+      if (page !== 1 && page !== pageCount && Math.abs(page - current) > 2) {
+        if (links[links.length - 1] !== gap) {
+          links.push(gap);
+        }
+        continue;
+      }
+      links.push(page === current
+        ? \`<span class="search-pagination-current" aria-current="page">\${page}</span>\`
+        : \`<a href="\${getSearchPageUrl(query, page)}">\${page}</a>\`);
+    }
+    if (current < pageCount) {
+      links.push(\`<a href="\${getSearchPageUrl(query, current + 1)}" rel="next">次へ</a>\`);
+    }
+    return links.join('');
+  }
+
+  // 検索結果ページ（search.html?q=...&page=...）を表示
+  async function renderSearchPage(container) {
+    const params = new URLSearchParams(window.location.search);
+    const query = params.get('q') || '';
+    const page = Math.max(1, parseInt(params.get('page') || '1', 10) || 1);
+    const input = document.getElementById('search-page-input');
+    const summary = container.querySelector('.search-page-summary');
+    const list = container.querySelector('.search-page-results');
+    const pagination = container.querySelector('.search-pagination');
+    if (input) input.value = query;
+    if (!query.trim()) {
+      summary.textContent = '検索語を入力してください';
+      return;
+    }
+    document.title = query + ' - ' + document.title;
+
+    try {
+      const ranked = await rankAll(query);
+      const pageCount = Math.ceil(ranked.length / PAGE_SIZE);
+      const current = Math.min(page, Math.max(1, pageCount));
+      const start = (current - 1) * PAGE_SIZE;
+      const results = await loadResults(ranked.slice(start, start + PAGE_SIZE), query);
+
+      summary.textContent = ranked.length === 0
+        ? '検索結果がありません'
+        : \`\${ranked.length} 件中 \${start + 1}〜\${start + results.length} 件目\`;
+      list.innerHTML = results.map(result => \`<li class="search-page-result">
+        <a href="\${getResultUrl(result)}" class="search-page-result-title">\${highlightHtml(result.title, query)}</a>
+        <div class="search-page-result-snippet">\${highlightHtml(result.snippet, query)}</div>
+      </li>\`).join('');
+      pagination.innerHTML = renderPagination(query, current, pageCount);
+    } catch (error) {
+      console.error('Failed to search:', error);
+    }
+  }
+
   // 初期化
   function init() {
     searchInput = document.getElementById('search-input');
     searchResults = document.getElementById('search-results');
-
-    if (!searchInput || !searchResults) return;
+    searchStatus = document.getElementById('search-status');
+    const searchPage = document.getElementById('search-page');
 
     // 検索インデックスを読み込む
-    loadSearchIndex();
+    indexReady = loadSearchIndex();
+
+    if (searchPage) {
+      renderSearchPage(searchPage);
+    }
+
+    if (!searchInput || !searchResults) return;
 
     // 入力イベント
     searchInput.addEventListener('input', function() {
@@ -145,37 +329,67 @@ export function generateSearchJS(): string {
       // デバウンス
       clearTimeout(debounceTimer);
       debounceTimer = setTimeout(() => {
-        if (query.trim()) {
-          const results = search(query);
-          displayResults(results);
-        } else {
-          searchResults.classList.remove('active');
-        }
+        runSearch(query);
       }, 200);
     });
 
-    // フォーカスアウトで結果を閉じる（遅延あり）
-    searchInput.addEventListener('blur', function() {
-      setTimeout(() => {
-        searchResults.classList.remove('active');
-      }, 200);
+    // 検索結果をクリックしてもフォーカスを検索欄に残す（リンクはそのまま開く）
+    searchResults.addEventListener('mousedown', function(e) {
+      e.preventDefault();
+    });
+
+    // 検索欄と検索結果の外にフォーカスが移ったら閉じる
+    const container = searchInput.closest('.search-container');
+    container.addEventListener('focusout', function(e) {
+      if (!e.relatedTarget || !container.contains(e.relatedTarget)) {
+        closeResults();
+      }
     });
 
     // フォーカスで結果を再表示
     searchInput.addEventListener('focus', function() {
       if (this.value.trim()) {
-        const results = search(this.value);
-        displayResults(results);
+        runSearch(this.value);
       }
     });
 
-    // Escapeで閉じる
+    // 上下キーで選択、Enterで選択したページ（なければ検索結果ページ）を開く、Escapeで閉じる
     searchInput.addEventListener('keydown', function(e) {
-      if (e.key === 'Escape') {
-        searchResults.classList.remove('active');
-        this.blur();
+      // 日本語入力の変換中のキーは扱わない
+      if (e.isComposing) return;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        if (isOpen) {
+          moveActiveOption(e.key === 'ArrowDown' ? 1 : -1);
+        } else if (this.value.trim()) {
+          runSearch(this.value);
+        }
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        if (isOpen && options[activeIndex]) {
+          window.location.href = options[activeIndex].href;
+        } else if (this.value.trim()) {
+          window.location.href = getSearchPageUrl(this.value.trim(), 1);
+        }
+      } else if (e.key === 'Escape') {
+        if (isOpen) {
+          closeResults();
+        } else {
+          this.value = '';
+          announce('');
+        }
       }
     });
+
+    // / で検索欄にフォーカス（入力欄で入力しているときは除く）
+    document.addEventListener('keydown', function(e) {
+      if (e.key !== '/' || e.ctrlKey || e.metaKey || e.altKey || e.isComposing) return;
+      const target = e.target;
+      if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
+      e.preventDefault();
+      searchInput.focus();
+      searchInput.select();
+    });
   }
 
   // DOMContentLoaded で初期化
@@ -187,3 +401,436 @@ export function generateSearchJS(): string {
 })();
 `;
 }
+
+/**
+ * コピーボタンのJavaScriptを生成
+ * data-copy属性の文字列をクリップボードにコピーする
+ */
+export function generateCopyJS(): string {
+  return `// Cosense Archiver - Copy Button
+
+(function() {
+  document.addEventListener('click', async function(e) {
+    const button = e.target.closest('.copy-button');
+    if (!button) return;
+
+    const text = button.getAttribute('data-copy') || '';
+    try {
+      await navigator.clipboard.writeText(text);
+      const label = button.textContent;
+      button.textContent = 'コピーしました';
+      button.classList.add('copied');
+      setTimeout(() => {
+        button.textContent = label;
+        button.classList.remove('copied');
+      }, 1500);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  });
+})();
+`;
+}
+
+/**
+ * 埋め込みのJavaScriptを生成
+ * クリックされたプレースホルダーをiframeに置き換える（外部サービスへの通信はクリック後のみ）
+ */
+export function generateEmbedJS(): string {
+  return `// Cosense Archiver - Click-to-load Embeds
+
+(function() {
+  document.addEventListener('click', function(e) {
+    const placeholder = e.target.closest('.embed-placeholder[data-embed-src]');
+    if (!placeholder) return;
+
+    e.preventDefault();
+    const iframe = document.createElement('iframe');
+    iframe.src = placeholder.getAttribute('data-embed-src');
+    iframe.title = placeholder.getAttribute('data-embed-title') || '';
+    iframe.className = 'embed-frame';
+    iframe.setAttribute('allow', 'autoplay; encrypted-media; fullscreen; picture-in-picture');
+    iframe.setAttribute('allowfullscreen', '');
+    iframe.setAttribute('loading', 'lazy');
+    placeholder.replaceWith(iframe);
+  });
+})();
+`;
+}
+
+/**
+ * ナレッジグラフのJavaScriptを生成
+ * 力学モデルでリンクグラフを配置してcanvasに描画する（検索してフォーカス、クリックでページを開く）
+ * 全体のグラフ（data-graph-src）はすぐに、ページ内のローカルグラフ（data-local-graph-src）は
+ * 画面に表示されたときにJSONを読み込んで描画する
+ */
+export function generateGraphJS(): string {
+  return `// Cosense Archiver - Knowledge Graph
+
+(function() {
+  const COLORS = {
+    page: '#5e8a4b',
+    hashtag: '#2f6f8f',
+    missing: '#c9302c',
+    center: '#e0a800',
+    edge: 'rgba(0, 0, 0, 0.15)',
+    hashtagEdge: 'rgba(47, 111, 143, 0.35)',
+    label: '#333',
+  };
+  // 力学モデルのパラメータ
+  const CELL_SIZE = 80; // 反発力を計算する範囲（グリッドの1マス）
+  const REPULSION = 600;
+  const SPRING = 0.02;
+  const SPRING_LENGTH = 40;
+  const GRAVITY = 0.01;
+  const DAMPING = 0.6;
+  // これ以下のノード数ならすべてのラベルを表示する
+  const LABEL_NODE_LIMIT = 60;
+
+  // タイトルの正規化キー（小文字、空白を_に置換）
+  function toKey(title) {
+    return title.toLowerCase().replace(/\\s/g, '_');
+  }
+
+  // JSONのノードとエッジからグラフを作る
+  function createGraph(data) {
+    const index = new Map();
+    const nodes = data.nodes.map(function(n, i) {
+      // 黄金角で渦巻き状に初期配置する
+      const angle = i * 2.399963;
+      const radius = 10 * Math.sqrt(i);
+      const node = {
+        title: n.title,
+        url: n.url,
+        missing: !!n.missing,
+        center: !!n.center,
+        hashtag: false,
+        degree: 0,
+        x: n.center ? 0 : Math.cos(angle) * radius,
+        y: n.center ? 0 : Math.sin(angle) * radius,
+        vx: 0,
+        vy: 0,
+      };
+      index.set(n.title, node);
+      return node;
+    });
+    const edges = [];
+    for (const e of data.edges) {
+      const source = index.get(e.source);
+      const target = index.get(e.target);
+      if (!source || !target || source === target) continue;
+      if (e.type === 'hashtag') target.hashtag = true;
+      source.degree++;
+      target.degree++;
+      edges.push({ source: source, target: target, type: e.type });
+    }
+    return { nodes: nodes, edges: edges };
+  }
+
+  // 配置を1ステップ更新する（反発力は近くのノードだけをグリッドで探して計算する）
+  function step(graph, alpha) {
+    const grid = new Map();
+    for (const node of graph.nodes) {
+      const key = Math.floor(node.x / CELL_SIZE) + ',' + Math.floor(node.y / CELL_SIZE);
+      if (!grid.has(key)) grid.set(key, []);
+      grid.get(key).push(node);
+    }
+
+    for (const node of graph.nodes) {
+      const cx = Math.floor(node.x / CELL_SIZE);
+      const cy = Math.floor(node.y / CELL_SIZE);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          const cell = grid.get((cx + dx) + ',' + (cy + dy));
+          if (!cell) continue;
+          for (const other of cell) {
+            if (other === node) continue;
+            let ddx = node.x - other.x;
+            let ddy = node.y - other.y;
+            let d2 = ddx * ddx + ddy * ddy;
+            if (d2 === 0) {
+              ddx = Math.random() - 0.5;
+              ddy = Math.random() - 0.5;
+              d2 = ddx * ddx + ddy * ddy;
+            }
+            if (d2 > CELL_SIZE * CELL_SIZE) continue;
+            const d = Math.sqrt(d2);
+            const force = (REPULSION / d2) * alpha;
+            node.vx += (ddx / d) * force;
+            node.vy += (ddy / d) * force;
+          }
+        }
+      }
+    }
+
+    for (const edge of graph.edges) {
+      const dx = edge.target.x - edge.source.x;
+      const dy = edge.target.y - edge.source.y;
+      const d = Math.sqrt(dx * dx + dy * dy) || 1;
+      const force = (d - SPRING_LENGTH) * SPRING * alpha;
+      const fx = (dx / d) * force;
+      const fy = (dy / d) * force;
+      edge.source.vx += fx;
+      edge.source.vy += fy;
+      edge.target.vx -= fx;
+      edge.target.vy -= fy;
+    }
+
+    for (const node of graph.nodes) {
+      if (node.center) {
+        node.vx = 0;
+        node.vy = 0;
+        continue;
+      }
+      node.vx = (node.vx - node.x * GRAVITY * alpha) * DAMPING;
+      node.vy = (node.vy - node.y * GRAVITY * alpha) * DAMPING;
+      node.x += node.vx;
+      node.y += node.vy;
+    }
+  }
+
+  function nodeRadius(node) {
+    return 3 + Math.min(Math.sqrt(node.degree), 8);
+  }
+
+  function nodeColor(node) {
+    if (node.center) return COLORS.center;
+    if (node.missing) return COLORS.missing;
+    if (node.hashtag) return COLORS.hashtag;
+    return COLORS.page;
+  }
+
+  // canvasにグラフを描画し、パン・ズーム・クリックを扱う
+  function createView(container, graph, basePath) {
+    const canvas = document.createElement('canvas');
+    canvas.className = 'graph-canvas';
+    container.appendChild(canvas);
+    const ctx = canvas.getContext('2d');
+    const view = { x: 0, y: 0, scale: 1, focused: null, hovered: null };
+    let width = 0;
+    let height = 0;
+    let alpha = 1;
+    let animating = false;
+
+    function resize() {
+      const ratio = window.devicePixelRatio || 1;
+      width = container.clientWidth;
+      height = container.clientHeight;
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+      canvas.style.width = width + 'px';
+      canvas.style.height = height + 'px';
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      draw();
+    }
+
+    function toScreen(node) {
+      return {
+        x: width / 2 + (node.x + view.x) * view.scale,
+        y: height / 2 + (node.y + view.y) * view.scale,
+      };
+    }
+
+    function draw() {
+      ctx.clearRect(0, 0, width, height);
+      ctx.lineWidth = 1;
+      for (const edge of graph.edges) {
+        const s = toScreen(edge.source);
+        const t = toScreen(edge.target);
+        ctx.strokeStyle = edge.type === 'hashtag' ? COLORS.hashtagEdge : COLORS.edge;
+        ctx.beginPath();
+        ctx.moveTo(s.x, s.y);
+        ctx.lineTo(t.x, t.y);
+        ctx.stroke();
+      }
+      const showAllLabels = graph.nodes.length <= LABEL_NODE_LIMIT || view.scale >= 2;
+      ctx.font = '12px sans-serif';
+      for (const node of graph.nodes) {
+        const p = toScreen(node);
+        if (p.x < -20 || p.y < -20 || p.x > width + 20 || p.y > height + 20) continue;
+        const r = nodeRadius(node) * Math.min(Math.max(view.scale, 0.5), 2);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, r, 0, Math.PI * 2);
+        if (node.missing) {
+          ctx.fillStyle = '#fff';
+          ctx.fill();
+          ctx.strokeStyle = nodeColor(node);
+          ctx.stroke();
+        } else {
+          ctx.fillStyle = nodeColor(node);
+          ctx.fill();
+        }
+        const highlighted = node === view.focused || node === view.hovered;
+        if (highlighted) {
+          ctx.strokeStyle = COLORS.center;
+          ctx.lineWidth = 3;
+          ctx.stroke();
+          ctx.lineWidth = 1;
+        }
+        if (showAllLabels || highlighted || node.center) {
+          ctx.fillStyle = COLORS.label;
+          ctx.fillText((node.hashtag ? '#' : '') + node.title, p.x + r + 3, p.y + 4);
+        }
+      }
+    }
+
+    function tick() {
+      step(graph, alpha);
+      alpha *= 0.98;
+      draw();
+      if (alpha > 0.02) {
+        requestAnimationFrame(tick);
+      } else {
+        animating = false;
+      }
+    }
+
+    function restart() {
+      alpha = Math.max(alpha, 0.3);
+      if (!animating) {
+        animating = true;
+        requestAnimationFrame(tick);
+      }
+    }
+
+    // 画面上の位置にあるノードを探す
+    function findNode(clientX, clientY) {
+      const rect = canvas.getBoundingClientRect();
+      const x = clientX - rect.left;
+      const y = clientY - rect.top;
+      let found = null;
+      let best = Infinity;
+      for (const node of graph.nodes) {
+        const p = toScreen(node);
+        const d = (p.x - x) * (p.x - x) + (p.y - y) * (p.y - y);
+        const r = nodeRadius(node) * Math.min(Math.max(view.scale, 0.5), 2) + 4;
+        if (d <= r * r && d < best) {
+          found = node;
+          best = d;
+        }
+      }
+      return found;
+    }
+
+    let drag = null;
+    canvas.addEventListener('pointerdown', function(e) {
+      drag = { x: e.clientX, y: e.clientY, viewX: view.x, viewY: view.y, moved: false };
+      canvas.setPointerCapture(e.pointerId);
+    });
+    canvas.addEventListener('pointermove', function(e) {
+      if (drag) {
+        const dx = e.clientX - drag.x;
+        const dy = e.clientY - drag.y;
+        if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+        view.x = drag.viewX + dx / view.scale;
+        view.y = drag.viewY + dy / view.scale;
+        draw();
+        return;
+      }
+      const node = findNode(e.clientX, e.clientY);
+      if (node !== view.hovered) {
+        view.hovered = node;
+        canvas.style.cursor = node && node.url ? 'pointer' : 'default';
+        canvas.title = node ? node.title : '';
+        draw();
+      }
+    });
+    canvas.addEventListener('pointerup', function(e) {
+      const wasDrag = drag && drag.moved;
+      drag = null;
+      if (wasDrag) return;
+      // クリックしたノードのページを開く
+      const node = findNode(e.clientX, e.clientY);
+      if (node && node.url) {
+        window.location.href = basePath + node.url;
+      }
+    });
+    canvas.addEventListener('wheel', function(e) {
+      e.preventDefault();
+      const factor = e.deltaY < 0 ? 1.1 : 1 / 1.1;
+      view.scale = Math.min(Math.max(view.scale * factor, 0.1), 8);
+      draw();
+    }, { passive: false });
+    window.addEventListener('resize', resize);
+
+    // 指定したノードを中央に表示して強調する
+    view.focus = function(node) {
+      view.focused = node;
+      if (node) {
+        view.x = -node.x;
+        view.y = -node.y;
+        view.scale = Math.max(view.scale, 1.5);
+      }
+      draw();
+    };
+
+    resize();
+    restart();
+    return view;
+  }
+
+  // 検索欄に入力したタイトルのノードにフォーカスする
+  function setupSearch(input, graph, view) {
+    if (!input) return;
+    input.addEventListener('input', function() {
+      const key = toKey(input.value.trim());
+      if (!key) {
+        view.focus(null);
+        return;
+      }
+      const node =
+        graph.nodes.find(function(n) { return toKey(n.title) === key; }) ||
+        graph.nodes.find(function(n) { return toKey(n.title).includes(key); });
+      view.focus(node || null);
+    });
+  }
+
+  function init() {
+    // 全体のグラフ: JSONを読み込んでから描画する
+    document.querySelectorAll('[data-graph-src]').forEach(function(container) {
+      fetch(container.getAttribute('data-graph-src'))
+        .then(function(response) { return response.json(); })
+        .then(function(data) {
+          const graph = createGraph(data);
+          const view = createView(container, graph, container.getAttribute('data-graph-base') || '');
+          setupSearch(document.getElementById('graph-search'), graph, view);
+        })
+        .catch(function(error) {
+          console.error('Failed to load graph data:', error);
+        });
+    });
+
+    // ローカルグラフ: 画面に表示されたときにJSONを読み込んで描画する
+    const locals = document.querySelectorAll('[data-local-graph-src]');
+    const render = function(container) {
+      fetch(container.getAttribute('data-local-graph-src'))
+        .then(function(response) { return response.json(); })
+        .then(function(data) {
+          createView(container, createGraph(data), '');
+        })
+        .catch(function(error) {
+          console.error('Failed to load local graph data:', error);
+        });
+    };
+    if (!('IntersectionObserver' in window)) {
+      locals.forEach(render);
+      return;
+    }
+    const observer = new IntersectionObserver(function(entries) {
+      entries.forEach(function(entry) {
+        if (!entry.isIntersecting) return;
+        observer.unobserve(entry.target);
+        render(entry.target);
+      });
+    });
+    locals.forEach(function(container) { observer.observe(container); });
+  }
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', init);
+  } else {
+    init();
+  }
+})();
+`;
+}
@@ -0,0 +1,232 @@
+/**
+ * リンクデータ出力モジュール
+ * リンクグラフを link-data.json と、Gephi・Graphvizなどで読み込める形式（GraphML, DOT, GEXF）に変換する
+ */
+import type { CosensePage } from "../parser/types.js";
+import type { LinkGraph, LinkType } from "../analyzer/link-analyzer.js";
+import { getPageUrlFromIndex } from "./routing.js";
+import { escapeXml } from "./escape-xml.js";
+
+/**
+ * グラフの出力形式
+ */
+export type GraphFormat = "graphml" | "dot" | "gexf";
+
+/**
+ * 対応している出力形式の一覧
+ */
+export const GRAPH_FORMATS: readonly GraphFormat[] = ["graphml", "dot", "gexf"];
+
+/**
+ * リンクデータのノード（ページ）
+ */
+export interface LinkDataNode {
+  title: string;
+  /** ページのURL（出力先のルートからの相対パス）。ページがない場合は null */
+  url: string | null;
+  /** 作成日時・更新日時（存在しないページは null） */
+  created: number | null;
+  updated: number | null;
+  /** リンク元の数 */
+  inDegree: number;
+  /** リンク先の数 */
+  outDegree: number;
+  /** リンクされているが存在しないページか */
+  missing: boolean;
+}
+
+/**
+ * リンクデータのエッジ（リンク）
+ * 同じページ間に [ページ] と #tag の両方がある場合は種類ごとに別のエッジになる
+ */
+export interface LinkDataEdge {
+  source: string;
+  target: string;
+  type: LinkType;
+}
+
+/**
+ * リンクデータ全体
+ */
+export interface LinkData {
+  nodes: LinkDataNode[];
+  edges: LinkDataEdge[];
+}
+
+/**
+ * リンクグラフからリンクデータを作成する
+ * @param options.stubPages 空ページを出力するタイトルのセット（存在しないページのURLに使う）
+ */
+export function buildLinkData(
+  graph: LinkGraph,
+  pages: CosensePage[],
+  options: { stubPages?: Set<string> } = {}
+): LinkData {
+  const pagesByTitle = new Map(pages.map((page) => [page.title, page]));
+
+  // 存在するページ、リンクされているだけのページの順
+  const titles = new Set([...graph.existingPages, ...graph.backLinks.keys()]);
+  const nodes: LinkDataNode[] = Array.from(titles, (title) => {
+    const page = pagesByTitle.get(title);
+    const missing = !graph.existingPages.has(title);
+    const hasPage = !missing || !!options.stubPages?.has(title);
+    return {
+      title,
+      url: hasPage ? getPageUrlFromIndex(title) : null,
+      created: page ? page.created : null,
+      updated: page ? page.updated : null,
+      inDegree: graph.backLinks.get(title)?.size || 0,
+      outDegree: graph.forwardLinks.get(title)?.size || 0,
+      missing,
+    };
+  });
+
+  const edges: LinkDataEdge[] = [];
+  for (const [source, targets] of graph.linkTypes) {
+    for (const [target, types] of targets) {
+      for (const type of types) {
+        edges.push({ source, target, type });
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * リンクデータをJSON文字列にシリアライズ
+ */
+export function serializeLinkData(data: LinkData): string {
+  return JSON.stringify(data);
+}
+
+/**
+ * DOTの文字列リテラル（"..."）にする
+ */
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+/**
+ * ノードのIDの対応表を作る（タイトルはXMLのIDに使えない文字を含むため n0, n1, ... を使う）
+ */
+function createNodeIds(data: LinkData): Map<string, string> {
+  return new Map(data.nodes.map((node, i) => [node.title, `n${i}`]));
+}
+
+/**
+ * リンクデータをGraphML形式に変換
+ */
+export function toGraphML(data: LinkData): string {
+  const ids = createNodeIds(data);
+  const nodes = data.nodes.map((node) => {
+    const values = [
+      `<data key="title">${escapeXml(node.title)}</data>`,
+      node.url !== null ? `<data key="url">${escapeXml(node.url)}</data>` : "",
+      node.created !== null ? `<data key="created">${node.created}</data>` : "",
+      node.updated !== null ? `<data key="updated">${node.updated}</data>` : "",
+      `<data key="missing">${node.missing}</data>`,
+    ].join("");
+    return `    <node id="${ids.get(node.title)}">${values}</node>`;
+  });
+  const edges = data.edges.map(
+    (edge, i) =>
+      `    <edge id="e${i}" source="${ids.get(edge.source)}" target="${ids.get(edge.target)}"><data key="type">${edge.type}</data></edge>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="title" for="node" attr.name="title" attr.type="string"/>
+  <key id="url" for="node" attr.name="url" attr.type="string"/>
+  <key id="created" for="node" attr.name="created" attr.type="long"/>
+  <key id="updated" for="node" attr.name="updated" attr.type="long"/>
+  <key id="missing" for="node" attr.name="missing" attr.type="boolean"/>
+  <key id="type" for="edge" attr.name="type" attr.type="string"/>
+  <graph id="G" edgedefault="directed">
+${[...nodes, ...edges].join("\n")}
+  </graph>
+</graphml>
+`;
+}
+
+/**
+ * リンクデータをGraphvizのDOT形式に変換
+ * 存在しないページは破線、ハッシュタグのリンクは点線で表す
+ */
+export function toDot(data: LinkData, graphName: string = "cosense"): string {
+  const nodes = data.nodes.map((node) => {
+    const attributes = [`label=${quoteDot(node.title)}`];
+    if (node.url !== null) {
+      attributes.push(`URL=${quoteDot(node.url)}`);
+    }
+    if (node.missing) {
+      attributes.push(`style=dashed`, `missing=true`);
+    }
+    return `  ${quoteDot(node.title)} [${attributes.join(", ")}];`;
+  });
+  const edges = data.edges.map((edge) => {
+    const style = edge.type === "hashtag" ? ", style=dotted" : "";
+    return `  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)} [type=${edge.type}${style}];`;
+  });
+
+  return `digraph ${quoteDot(graphName)} {
+${[...nodes, ...edges].join("\n")}
+}
+`;
+}
+
+/**
+ * リンクデータをGEXF形式（Gephi）に変換
+ */
+export function toGexf(data: LinkData): string {
+  const ids = createNodeIds(data);
+  const nodes = data.nodes.map((node) => {
+    const values = [
+      node.url !== null ? `<attvalue for="url" value="${escapeXml(node.url)}"/>` : "",
+      node.created !== null ? `<attvalue for="created" value="${node.created}"/>` : "",
+      node.updated !== null ? `<attvalue for="updated" value="${node.updated}"/>` : "",
+      `<attvalue for="missing" value="${node.missing}"/>`,
+    ].join("");
+    return `      <node id="${ids.get(node.title)}" label="${escapeXml(node.title)}"><attvalues>${values}</attvalues></node>`;
+  });
+  const edges = data.edges.map(
+    (edge, i) =>
+      `      <edge id="e${i}" source="${ids.get(edge.source)}" target="${ids.get(edge.target)}" label="${edge.type}"><attvalues><attvalue for="type" value="${edge.type}"/></attvalues></edge>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://gexf.net/1.3" version="1.3">
+  <graph defaultedgetype="directed">
+    <attributes class="node">
+      <attribute id="url" title="url" type="string"/>
+      <attribute id="created" title="created" type="long"/>
+      <attribute id="updated" title="updated" type="long"/>
+      <attribute id="missing" title="missing" type="boolean"/>
+    </attributes>
+    <attributes class="edge">
+      <attribute id="type" title="type" type="string"/>
+    </attributes>
+    <nodes>
+${nodes.join("\n")}
+    </nodes>
+    <edges>
+${edges.join("\n")}
+    </edges>
+  </graph>
+</gexf>
+`;
+}
+
+/**
+ * 指定した形式でリンクデータを出力する
+ */
+export function exportGraph(data: LinkData, format: GraphFormat, graphName?: string): string {
+  switch (format) {
+    case "graphml":
+      return toGraphML(data);
+    case "dot":
+      return toDot(data, graphName);
+    case "gexf":
+      return toGexf(data);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * 数式レンダリングモジュール
+ * [$ formula] の数式をビルド時にKaTeXでHTML+MathMLに変換する
+ * オフラインで閲覧できるよう、スタイルシートとフォントはassets/にコピーする
+ */
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createRequire } from "module";
+import katex from "katex";
+import { escapeHtml } from "./escape-html.js";
+
+/**
+ * 数式のレンダリング結果
+ */
+export interface MathRenderResult {
+  html: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 数式をHTMLにレンダリングする
+ * パースに失敗した場合は元の数式テキストをそのまま表示する
+ * @param formula - LaTeX形式の数式
+ * @param displayMode - ブロック表示（行全体が数式の場合）にするか
+ */
+export function renderMath(
+  formula: string,
+  displayMode: boolean = false
+): MathRenderResult {
+  const className = displayMode ? "math math-display" : "math";
+  try {
+    const rendered = katex.renderToString(formula, {
+      displayMode,
+      output: "htmlAndMathml",
+      throwOnError: true,
+    });
+    return {
+      html: `<span class="${className}">${rendered}</span>`,
+      success: true,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      html: `<span class="${className} math-error" title="${escapeHtml(message)}">${escapeHtml(formula)}</span>`,
+      success: false,
+      error: message,
+    };
+  }
+}
+
+/**
+ * KaTeXのスタイルシートとフォントを出力先にコピーする
+ * スタイルシートはフォントを相対パス（fonts/）で参照するため、同じディレクトリに配置する
+ * @param cssDir - CSSの出力先ディレクトリ（assets/css）
+ */
+export async function copyMathAssets(cssDir: string): Promise<void> {
+  const require = createRequire(import.meta.url);
+  const katexDistDir = path.dirname(require.resolve("katex/dist/katex.min.css"));
+
+  await fs.mkdir(cssDir, { recursive: true });
+  await fs.copyFile(
+    path.join(katexDistDir, "katex.min.css"),
+    path.join(cssDir, "katex.min.css")
+  );
+  await fs.cp(path.join(katexDistDir, "fonts"), path.join(cssDir, "fonts"), {
+    recursive: true,
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * ルーティングモジュール
+ * ページやタグのファイル名・URL・IDを生成する
+ * HTML生成、フィード、検索インデックスはすべてこのモジュールのURLを使う
+ */
+import * as crypto from "crypto";
+import type { CosensePage } from "../parser/types.js";
+import { toTitleKey } from "../parser/title-key.js";
+
+// 最大ファイル名長（拡張子を除く）
+const MAX_FILENAME_LENGTH = 200;
+
+/**
+ * 文字列のMD5ハッシュ（16進数）
+ */
+function md5(text: string): string {
+  return crypto.createHash("md5").update(text).digest("hex");
+}
+
+/**
+ * ページタイトルからファイル名を生成（ファイルシステム用）
+ * タイトルの正規化キーを使うため、表記の揺れ（大文字・小文字、空白と_）は同じファイルになる
+ * 長いタイトルはハッシュベースのファイル名を使用
+ * ファイルシステムで問題になる文字は置換する
+ */
+export function generatePageFilename(title: string): string {
+  const key = toTitleKey(title);
+  // ファイルシステムで問題になる文字を置換
+  // / はディレクトリ区切りとして解釈されるため _ に置換
+  const safeTitle = key.replace(/\//g, "_");
+
+  // ファイル名が長すぎる場合（UTF-8で255バイト以上）はハッシュを使用
+  const byteLength = Buffer.byteLength(safeTitle, "utf8");
+  if (byteLength > MAX_FILENAME_LENGTH) {
+    return `page_${md5(key)}.html`;
+  }
+
+  // 日本語をそのままファイル名として使用
+  return `${safeTitle}.html`;
+}
+
+/**
+ * URLエンコード済みのファイル名を生成
+ * ファイル名からURLを作るときは必ずこれを通す（手でエンコードしない）
+ */
+export function getEncodedFilename(filename: string): string {
+  // ファイル名をURLエンコード（.htmlの.は維持）
+  return encodeURIComponent(filename).replace(/%2E/g, ".");
+}
+
+/**
+ * ページへのリンクURLを生成（インデックスページ用、pages/プレフィックス付き）
+ * サイトのルートからの相対URLで、検索インデックスにもこのURLを入れる
+ */
+export function getPageUrlFromIndex(title: string): string {
+  return `pages/${getPageUrlFromPage(title)}`;
+}
+
+/**
+ * ページへのリンクURLを生成（ページ内リンク用、同じディレクトリ）
+ */
+export function getPageUrlFromPage(title: string): string {
+  return getEncodedFilename(generatePageFilename(title));
+}
+
+/**
+ * ページのIDを取得する
+ * エクスポートにIDがあればそれを使い、なければ正規化キーのハッシュにする（ビルドをまたいで変わらない）
+ */
+export function getPageId(page: Pick<CosensePage, "title" | "id">): string {
+  return page.id ?? md5(toTitleKey(page.title));
+}
+
+/**
+ * タグのページ一覧のファイル名を生成（tags/ ディレクトリ用）
+ * ページと同じ規則で、タグ一覧（index.html）と重なる場合はハッシュベースのファイル名を使う
+ */
+export function generateTagFilename(tag: string): string {
+  const filename = generatePageFilename(tag);
+  if (filename === "index.html") {
+    return `tag_${md5(toTitleKey(tag))}.html`;
+  }
+  return filename;
+}
+
+/**
+ * タグごとのフィード（Atom）のファイル名を生成（tags/ ディレクトリ用）
+ */
+export function generateTagFeedFilename(tag: string): string {
+  return generateTagFilename(tag).replace(/\.html$/, ".xml");
+}
+
+/**
+ * タグのページ一覧へのリンクURLを生成（インデックスページ用、tags/プレフィックス付き）
+ */
+export function getTagUrlFromIndex(tag: string): string {
+  return `tags/${getEncodedFilename(generateTagFilename(tag))}`;
+}
+
+/**
+ * タグのページ一覧へのリンクURLを生成（pages/ や tags/ のページ用）
+ */
+export function getTagUrlFromPage(tag: string): string {
+  return `../${getTagUrlFromIndex(tag)}`;
+}
+
+/**
+ * タグごとのフィードのURLを生成（サイトのルートからの相対URL、tags/プレフィックス付き）
+ */
+export function getTagFeedUrl(tag: string): string {
+  return `tags/${getEncodedFilename(generateTagFeedFilename(tag))}`;
+}
+
+/**
+ * ページのローカルグラフのデータのファイル名を生成（local-graph/ ディレクトリ用）
+ */
+export function generateLocalGraphFilename(title: string): string {
+  return generatePageFilename(title).replace(/\.html$/, ".json");
+}
+
+/**
+ * ページのローカルグラフのデータのURLを生成（pages/ のページ用）
+ */
+export function getLocalGraphUrlFromPage(title: string): string {
+  return `../local-graph/${getEncodedFilename(generateLocalGraphFilename(title))}`;
+}
@@ -0,0 +1,104 @@
+/**
+ * シンタックスハイライトモジュール
+ * コードブロックをビルド時にトークン化し、クラス付きのspanに変換する
+ * （クライアント側のJSは不要）
+ */
+import hljs from "highlight.js";
+import { escapeHtml } from "./escape-html.js";
+
+/**
+ * Cosenseのファイル名・拡張子・言語名からhighlight.jsの言語名への対応表
+ * highlight.js自身が認識する名前（js, py, ts など）はここに書かなくてよい
+ */
+const LANGUAGE_MAP: Record<string, string> = {
+  // ファイル名
+  makefile: "makefile",
+  gnumakefile: "makefile",
+  dockerfile: "dockerfile",
+  containerfile: "dockerfile",
+  gemfile: "ruby",
+  rakefile: "ruby",
+  vagrantfile: "ruby",
+  procfile: "bash",
+  bashrc: "bash",
+  zshrc: "bash",
+  profile: "bash",
+  gitignore: "plaintext",
+  // 拡張子・言語名
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "javascript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  htm: "xml",
+  html: "xml",
+  vue: "xml",
+  svelte: "xml",
+  svg: "xml",
+  txt: "plaintext",
+  text: "plaintext",
+  tex: "latex",
+  sty: "latex",
+  ps1: "powershell",
+  psm1: "powershell",
+  bat: "dos",
+  cmd: "dos",
+  h: "c",
+  hpp: "cpp",
+  cc: "cpp",
+  kts: "kotlin",
+  scala: "scala",
+  sc: "scala",
+  pyw: "python",
+  ipynb: "json",
+  jsonc: "json",
+  json5: "json",
+  toml: "ini",
+  env: "bash",
+  sh: "bash",
+  zsh: "bash",
+  fish: "bash",
+  el: "lisp",
+  lisp: "lisp",
+  mermaid: "plaintext",
+};
+
+/**
+ * コードブロックの言語（拡張子や名前）からhighlight.jsの言語名を解決する
+ * @returns highlight.jsの正式な言語名。対応する言語がない場合は null
+ */
+export function resolveHighlightLanguage(lang: string): string | null {
+  const key = lang.toLowerCase();
+  if (!key) {
+    return null;
+  }
+  const mapped = LANGUAGE_MAP[key];
+  if (mapped) {
+    return mapped;
+  }
+  // 別名（js, py など）は正式な言語名（javascript, python など）に揃える
+  const language = hljs.getLanguage(key);
+  if (!language) {
+    return null;
+  }
+  return hljs.listLanguages().find((name) => hljs.getLanguage(name) === language) || key;
+}
+
+/**
+ * コードをハイライトしたHTMLを返す
+ * 対応する言語がない場合はエスケープしたコードをそのまま返す
+ * @param code - コード（複数行は改行区切り）
+ * @param lang - コードブロックの言語（拡張子や名前）
+ */
+export function highlightCode(code: string, lang: string): string {
+  const language = resolveHighlightLanguage(lang);
+  if (language) {
+    try {
+      return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    } catch {
+      // ハイライトに失敗した場合はプレーンテキストとして扱う
+    }
+  }
+  return escapeHtml(code);
+}
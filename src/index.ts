@@ -30,26 +30,79 @@ function loadEnvFile(): void {
 
 loadEnvFile();
 import { loadCosenseJson } from "./parser/json-parser.js";
-import { isCosenseExport } from "./parser/types.js";
-import { buildLinkGraph } from "./analyzer/link-analyzer.js";
-import { buildSearchIndex, serializeSearchIndex } from "./analyzer/search-index.js";
+import { isCosenseExport, getLineText } from "./parser/types.js";
+import { rewriteImageUrls } from "./parser/line-stringifier.js";
+import { createTitleIndex, toTitleKey } from "./parser/title-key.js";
+import {
+  buildLinkGraph,
+  getMissingPages,
+  getTaggedPages,
+} from "./analyzer/link-analyzer.js";
+import {
+  analyzeLinkGraph,
+  formatGraphReport,
+  serializeGraphReport,
+} from "./analyzer/graph-report.js";
+import {
+  buildSearchIndex,
+  buildSearchShards,
+  serializeSearchShards,
+} from "./analyzer/search-index.js";
+import {
+  collectExternalLinks,
+  serializeExternalLinks,
+} from "./analyzer/external-links.js";
 import {
   extractImageUrls,
   downloadImages,
   generateImageMappingsSync,
+  generateLocalPath,
 } from "./downloader/image-downloader.js";
 import {
   renderPage,
+  buildLocalGraphData,
+  renderStubPage,
   renderIndexPage,
-  generatePageFilename,
+  renderGraphPage,
+  renderSearchPage,
+  renderReportPage,
+  renderTagPage,
+  renderTagIndexPage,
 } from "./generator/html-generator.js";
+import {
+  generatePageFilename,
+  generateTagFilename,
+  generateTagFeedFilename,
+  generateLocalGraphFilename,
+  getTagFeedUrl,
+} from "./generator/routing.js";
+import {
+  buildFeedEntries,
+  generateAtomFeed,
+  generateRssFeed,
+  generateJsonFeed,
+} from "./generator/feed-generator.js";
 import { generateCSS } from "./generator/css-generator.js";
-import { generateSearchJS } from "./generator/js-generator.js";
+import {
+  buildLinkData,
+  serializeLinkData,
+  exportGraph,
+  GRAPH_FORMATS,
+  type GraphFormat,
+} from "./generator/link-data.js";
+import { copyMathAssets } from "./generator/math-renderer.js";
+import {
+  generateSearchJS,
+  generateCopyJS,
+  generateEmbedJS,
+  generateGraphJS,
+} from "./generator/js-generator.js";
 import {
   isGyazoUrl,
   resolveGyazoUrls,
   type GyazoResolveResult,
 } from "./resolver/gyazo-resolver.js";
+import { resolveIconUrls } from "./resolver/icon-resolver.js";
 import {
   uploadImagesToGyazo,
   type UploadResult,
@@ -61,6 +114,15 @@ interface Options {
   downloadImages: boolean;
   uploadToGyazo: boolean;
   concurrency: number;
+  mediaAsLinks: boolean;
+  bareImageUrls: boolean;
+  stubMinReferrers: number;
+  graphFormats: GraphFormat[];
+  healthReport: boolean;
+  baseUrl?: string;
+  tagFeeds: boolean;
+  searchShardSize: number;
+  searchPageChunkSize: number;
   gyazoAccessToken?: string;
   connectSid?: string;
 }
@@ -73,6 +135,15 @@ function parseArgs(): Options {
     downloadImages: true,
     uploadToGyazo: false,
     concurrency: 5,
+    mediaAsLinks: false,
+    bareImageUrls: false,
+    stubMinReferrers: 1,
+    graphFormats: [],
+    healthReport: false,
+    baseUrl: process.env.SITE_BASE_URL,
+    tagFeeds: false,
+    searchShardSize: 256,
+    searchPageChunkSize: 500,
     gyazoAccessToken: process.env.GYAZO_ACCESS_TOKEN,
     connectSid: process.env.CONNECT_SID,
   };
@@ -88,6 +159,33 @@ function parseArgs(): Options {
       options.uploadToGyazo = true;
     } else if (arg === "-c" || arg === "--concurrency") {
       options.concurrency = parseInt(args[++i], 10) || 5;
+    } else if (arg === "--media-as-links") {
+      options.mediaAsLinks = true;
+    } else if (arg === "--bare-image-urls") {
+      options.bareImageUrls = true;
+    } else if (arg === "--stub-min-referrers") {
+      options.stubMinReferrers = parseInt(args[++i], 10) || 1;
+    } else if (arg === "--graph-format") {
+      // カンマ区切りで複数指定できる（--graph-format graphml,dot）
+      for (const format of (args[++i] || "").split(",")) {
+        if (!GRAPH_FORMATS.includes(format as GraphFormat)) {
+          console.error(`エラー: 不明なグラフ形式です: ${format}（${GRAPH_FORMATS.join(", ")} のいずれか）`);
+          process.exit(1);
+        }
+        if (!options.graphFormats.includes(format as GraphFormat)) {
+          options.graphFormats.push(format as GraphFormat);
+        }
+      }
+    } else if (arg === "--health-report") {
+      options.healthReport = true;
+    } else if (arg === "--base-url") {
+      options.baseUrl = args[++i];
+    } else if (arg === "--tag-feeds") {
+      options.tagFeeds = true;
+    } else if (arg === "--search-shard-size") {
+      options.searchShardSize = parseInt(args[++i], 10) || 256;
+    } else if (arg === "--search-page-chunk") {
+      options.searchPageChunkSize = parseInt(args[++i], 10) || 500;
     } else if (arg === "--gyazo-token") {
       options.gyazoAccessToken = args[++i];
     } else if (arg === "--connect-sid") {
@@ -109,6 +207,7 @@ Cosense Archiver - Cosense(旧Scrapbox)のJSONから静的サイトを生成
 
 使用方法:
   cosense-archiver <input.json> [options]
+  cosense-archiver analyze <input.json> [analyze options]
 
 引数:
   <input.json>     CosenseからエクスポートしたJSONファイル
@@ -119,14 +218,36 @@ Cosense Archiver - Cosense(旧Scrapbox)のJSONから静的サイトを生成
   --upload-to-gyazo       Gyazo以外の画像をGyazoにアップロードしてURLを置換
                           (--gyazo-token が必須)
   -c, --concurrency <n>   画像ダウンロード/アップロードの並列数 (デフォルト: 5)
+  --media-as-links        動画・音声・YouTube等の埋め込みをプレーヤーではなくリンクとして出力
+  --bare-image-urls       括弧なしで書かれた画像URLを画像として表示
+  --stub-min-referrers <n>
+                          リンク元が n ページ以上ある未作成のページだけ空ページを出力
+                          (デフォルト: 1)
+  --graph-format <format> リンクグラフを link-graph.<format> にも出力 (graphml, dot, gexf)
+                          カンマ区切りで複数指定可
+  --health-report         リンクの保守用レポートを report.html に出力（ページ一覧からはリンクしない）
+  --base-url <url>        サイトの公開URL。指定するとフィード (feed.xml, rss.xml, feed.json) を出力
+                          (環境変数 SITE_BASE_URL でも指定可)
+  --tag-feeds             タグごとのフィードも tags/ に出力 (--base-url が必要)
+  --search-shard-size <kb>
+                          検索インデックスのシャード1つあたりの目安の大きさ (デフォルト: 256)
+  --search-page-chunk <n> 検索結果の表示に使うページ情報を n ページごとに分割 (デフォルト: 500)
   --gyazo-token <token>   Gyazo APIアクセストークン (環境変数 GYAZO_ACCESS_TOKEN でも指定可)
   --connect-sid <sid>     Scrapbox認証用Cookie (環境変数 CONNECT_SID でも指定可)
   -h, --help              このヘルプを表示
 
+analyze のオプション（リンクグラフを分析してレポートを表示）:
+  --top <n>               ハブとPageRankの件数 (デフォルト: 20)
+  --json <file>           レポートをJSONで出力
+  --html <file>           レポートをHTMLで出力（生成したサイトのルートに置くとページにリンクする）
+
 例:
   cosense-archiver export.json
   cosense-archiver export.json -o ./dist
   cosense-archiver export.json --no-images
+  cosense-archiver export.json --graph-format graphml,dot
+  cosense-archiver export.json --base-url https://example.github.io/archive/
+  cosense-archiver analyze export.json --json report.json
   cosense-archiver export.json --upload-to-gyazo --gyazo-token xxx
   GYAZO_ACCESS_TOKEN=xxx cosense-archiver export.json --upload-to-gyazo
   CONNECT_SID=xxx cosense-archiver export.json
@@ -137,7 +258,81 @@ async function ensureDir(dirPath: string): Promise<void> {
   await fs.mkdir(dirPath, { recursive: true });
 }
 
+interface AnalyzeOptions {
+  input: string;
+  top: number;
+  json?: string;
+  html?: string;
+}
+
+function parseAnalyzeArgs(args: string[]): AnalyzeOptions {
+  const options: AnalyzeOptions = { input: "", top: 20 };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--top") {
+      options.top = parseInt(args[++i], 10) || 20;
+    } else if (arg === "--json") {
+      options.json = args[++i];
+    } else if (arg === "--html") {
+      options.html = args[++i];
+    } else if (arg === "-h" || arg === "--help") {
+      showHelp();
+      process.exit(0);
+    } else if (!arg.startsWith("-") && !options.input) {
+      options.input = arg;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * analyze サブコマンド: リンクグラフを分析してレポートを表示・出力する
+ */
+async function analyze(args: string[]): Promise<void> {
+  const options = parseAnalyzeArgs(args);
+
+  if (!options.input) {
+    console.error("エラー: 入力JSONファイルを指定してください");
+    showHelp();
+    process.exit(1);
+  }
+
+  let data;
+  try {
+    data = await loadCosenseJson(options.input);
+  } catch (error) {
+    console.error(`エラー: JSONファイルの読み込みに失敗しました: ${error}`);
+    process.exit(1);
+  }
+
+  const projectName = isCosenseExport(data) ? data.displayName : "Cosense Archive";
+  const linkGraph = buildLinkGraph(data.pages);
+  const report = analyzeLinkGraph(linkGraph, { top: options.top });
+
+  console.log(`プロジェクト: ${projectName}`);
+  console.log(formatGraphReport(report, options.top));
+
+  if (options.json) {
+    await fs.writeFile(options.json, serializeGraphReport(report));
+    console.log();
+    console.log(`JSONを出力しました: ${options.json}`);
+  }
+  if (options.html) {
+    await fs.writeFile(options.html, renderReportPage(report, linkGraph, projectName));
+    console.log();
+    console.log(`HTMLを出力しました: ${options.html}`);
+  }
+}
+
 async function main(): Promise<void> {
+  if (process.argv[2] === "analyze") {
+    await analyze(process.argv.slice(3));
+    return;
+  }
+
   const options = parseArgs();
 
   if (!options.input) {
@@ -172,19 +367,26 @@ async function main(): Promise<void> {
   // ディレクトリを作成
   const outputDir = options.output;
   const pagesDir = path.join(outputDir, "pages");
+  const localGraphDir = path.join(outputDir, "local-graph");
   const assetsDir = path.join(outputDir, "assets");
   const cssDir = path.join(assetsDir, "css");
   const jsDir = path.join(assetsDir, "js");
   const imagesDir = path.join(assetsDir, "images");
 
   await ensureDir(pagesDir);
+  await ensureDir(localGraphDir);
   await ensureDir(cssDir);
   await ensureDir(jsDir);
   await ensureDir(imagesDir);
 
-  // 画像URLを抽出
+  // 外部URLの一覧を作成し、画像URLを抽出
   console.log("画像を抽出しています...");
-  const allImageUrls = extractImageUrls(pages);
+  const externalLinks = collectExternalLinks(pages, {
+    bareImageUrls: options.bareImageUrls,
+  });
+  const allImageUrls = externalLinks
+    .filter((entry) => entry.kind === "image")
+    .map((entry) => entry.url);
   const gyazoUrls = allImageUrls.filter(isGyazoUrl);
   const nonGyazoUrls = allImageUrls.filter((url) => !isGyazoUrl(url));
   console.log(`画像数: ${allImageUrls.length} (Gyazo: ${gyazoUrls.length}, その他: ${nonGyazoUrls.length})`);
@@ -286,6 +488,27 @@ async function main(): Promise<void> {
   }
   console.log();
 
+  // ページ本文と同じ規則で画像URLを置換する（Gyazoアップロード済みならGyazo URL、ダウンロード済みならローカルパス）
+  const getRenderedImageUrl = (url: string): string => {
+    if (isGyazoUrl(url)) {
+      return url;
+    }
+    if (options.uploadToGyazo) {
+      const result = uploadResults.get(url);
+      return result && result.success ? result.gyazoUrl : url;
+    }
+    if (options.downloadImages) {
+      return `../assets/${generateLocalPath(url)}`;
+    }
+    return url;
+  };
+
+  // アイコン画像を解決（[name.icon] は name ページの最初の画像）
+  const iconUrls = new Map<string, string>();
+  for (const [title, url] of resolveIconUrls(pages)) {
+    iconUrls.set(title, getRenderedImageUrl(url));
+  }
+
   // リンクグラフを構築
   console.log("リンクグラフを構築しています...");
   const linkGraph = buildLinkGraph(pages);
@@ -294,23 +517,89 @@ async function main(): Promise<void> {
   // 検索インデックスを生成
   console.log("検索インデックスを生成しています...");
   const searchIndex = buildSearchIndex(pages);
-  const searchIndexPath = path.join(outputDir, "search.json");
-  await fs.writeFile(searchIndexPath, serializeSearchIndex(searchIndex));
+  const searchShards = buildSearchShards(searchIndex, {
+    shardSize: options.searchShardSize * 1024,
+    pageChunkSize: options.searchPageChunkSize,
+  });
+  const searchDir = path.join(outputDir, "search");
+  await fs.rm(searchDir, { recursive: true, force: true });
+  await ensureDir(searchDir);
+  for (const [file, content] of serializeSearchShards(searchShards)) {
+    await fs.writeFile(path.join(searchDir, file), content);
+  }
+  console.log(`  シャード数: ${searchShards.manifest.shardCount}`);
+
+  // 外部リンク一覧を出力（リンク切れチェックなどで利用）
+  await fs.writeFile(
+    path.join(outputDir, "external-links.json"),
+    serializeExternalLinks(externalLinks)
+  );
   console.log();
 
   // CSSを生成
   console.log("CSSを生成しています...");
   const cssPath = path.join(cssDir, "style.css");
   await fs.writeFile(cssPath, generateCSS());
+  await copyMathAssets(cssDir);
 
   // JSを生成
   console.log("JavaScriptを生成しています...");
   const jsPath = path.join(jsDir, "search.js");
   await fs.writeFile(jsPath, generateSearchJS());
+  await fs.writeFile(path.join(jsDir, "copy.js"), generateCopyJS());
+  await fs.writeFile(path.join(jsDir, "embed.js"), generateEmbedJS());
+  await fs.writeFile(path.join(jsDir, "graph.js"), generateGraphJS());
+  console.log();
+
+  // アップロードされた画像のGyazoResolveResultを追加
+  // （アップロードした画像もGyazo画像として解決結果に追加する）
+  const combinedGyazoResults = new Map(gyazoResults);
+  if (options.uploadToGyazo) {
+    for (const [, uploadResult] of uploadResults) {
+      if (uploadResult.success) {
+        // アップロード後のGyazo URLの解決結果を追加
+        combinedGyazoResults.set(uploadResult.gyazoUrl, {
+          originalUrl: uploadResult.gyazoUrl,
+          imageUrl: uploadResult.gyazoImageUrl,
+          type: "image",
+          success: true,
+        });
+      }
+    }
+  }
+
+  // リンクされているが存在しないページ（空ページとして出力する）
+  const stubPages = new Set(getMissingPages(linkGraph, options.stubMinReferrers));
+  // ハッシュタグ -> タグが付いているページ（tags/ にページ一覧を出力する）
+  const taggedPages = getTaggedPages(linkGraph);
+  const tagPages = new Set(taggedPages.keys());
+  // リンクの表記から空ページとタグのページ一覧を探すための正規化キーの索引
+  const stubPageIndex = createTitleIndex(stubPages);
+  const tagPageIndex = createTitleIndex(tagPages);
+
+  // リンクデータを出力（グラフの分析用）
+  console.log("リンクデータを出力しています...");
+  const linkData = buildLinkData(linkGraph, pages, { stubPages });
+  await fs.writeFile(path.join(outputDir, "link-data.json"), serializeLinkData(linkData));
+  for (const format of options.graphFormats) {
+    const graphPath = path.join(outputDir, `link-graph.${format}`);
+    await fs.writeFile(graphPath, exportGraph(linkData, format, projectName));
+    console.log(`  ${graphPath}`);
+  }
   console.log();
 
   // 各ページのHTMLを生成
   console.log("ページHTMLを生成しています...");
+  // 表記の揺れ（大文字・小文字、空白と_）だけが異なるタイトルは同じファイルになるため警告する
+  const titleIndex = createTitleIndex(pages.map((page) => page.title));
+  for (const page of pages) {
+    const title = titleIndex.get(toTitleKey(page.title));
+    if (title !== page.title) {
+      console.log(`警告: 「${page.title}」は「${title}」と同じページとして扱われます`);
+    }
+  }
+  // 数式のパースに失敗したページ（ページタイトル -> 数式の配列）
+  const mathErrors = new Map<string, string[]>();
   for (let i = 0; i < pages.length; i++) {
     const page = pages[i];
     const filename = generatePageFilename(page.title);
@@ -318,81 +607,172 @@ async function main(): Promise<void> {
 
     // Gyazo以外の画像URLを置換
     let pageToRender = page;
-    const imageUrls = extractImageUrls([page]).filter((url) => !isGyazoUrl(url));
+    const imageUrls = extractImageUrls([page], {
+      bareImageUrls: options.bareImageUrls,
+    }).filter((url) => !isGyazoUrl(url));
     if (imageUrls.length > 0) {
+      // 画像記法の中のURLだけを置き換える（置き換えない場合は null）
+      let rewrite: ((url: string) => string | null) | null = null;
       if (options.uploadToGyazo && uploadResults.size > 0) {
         // Gyazoにアップロードした場合: Gyazo URLに置換
-        const newLines = page.lines.map((line) => {
-          if (typeof line === "string") {
-            let newLine = line;
-            for (const url of imageUrls) {
-              const result = uploadResults.get(url);
-              if (result && result.success) {
-                // 元のURLをGyazo URLに置換
-                newLine = newLine.replace(url, result.gyazoUrl);
-              }
-            }
-            return newLine;
-          }
-          return line;
-        });
-        pageToRender = { ...page, lines: newLines };
+        rewrite = (url) => {
+          const result = uploadResults.get(url);
+          return result && result.success ? result.gyazoUrl : null;
+        };
       } else if (options.downloadImages && !options.uploadToGyazo) {
         // ローカルにダウンロードした場合: ローカルパスに置換
-        const mappings = generateImageMappingsSync(imageUrls);
-        const newLines = page.lines.map((line) => {
-          if (typeof line === "string") {
-            let newLine = line;
-            for (const mapping of mappings) {
-              newLine = newLine.replace(
-                mapping.originalUrl,
-                `../assets/${mapping.localPath}`
-              );
-            }
-            return newLine;
-          }
-          return line;
+        const localPaths = new Map(
+          generateImageMappingsSync(imageUrls).map((mapping) => [
+            mapping.originalUrl,
+            `../assets/${mapping.localPath}`,
+          ])
+        );
+        rewrite = (url) => localPaths.get(url) ?? null;
+      }
+      if (rewrite) {
+        const newTexts = rewriteImageUrls(page.lines.map(getLineText), rewrite, {
+          bareImageUrls: options.bareImageUrls,
         });
+        const newLines = page.lines.map((line, j) =>
+          typeof line === "string" ? newTexts[j] : { ...line, text: newTexts[j] }
+        );
         pageToRender = { ...page, lines: newLines };
       }
     }
 
-    // アップロードされた画像のGyazoResolveResultを追加
-    // （アップロードした画像もGyazo画像として解決結果に追加する）
-    const combinedGyazoResults = new Map(gyazoResults);
-    if (options.uploadToGyazo) {
-      for (const [, uploadResult] of uploadResults) {
-        if (uploadResult.success) {
-          // アップロード後のGyazo URLの解決結果を追加
-          combinedGyazoResults.set(uploadResult.gyazoUrl, {
-            originalUrl: uploadResult.gyazoUrl,
-            imageUrl: uploadResult.gyazoImageUrl,
-            type: "image",
-            success: true,
-          });
-        }
-      }
-    }
-
     // Gyazo解決結果を渡してHTMLを生成
     const html = renderPage(pageToRender, linkGraph, projectName, {
       gyazoResults: combinedGyazoResults,
       hasGyazoToken: !!options.gyazoAccessToken,
+      iconUrls,
+      mediaAsLinks: options.mediaAsLinks,
+      bareImageUrls: options.bareImageUrls,
+      stubPageIndex,
+      tagPageIndex,
+      onMathError: (formula) => {
+        if (!mathErrors.has(page.title)) {
+          mathErrors.set(page.title, []);
+        }
+        mathErrors.get(page.title)!.push(formula);
+      },
     });
     await fs.writeFile(filePath, html);
 
+    // ローカルグラフのデータはページに埋め込まず、グラフを表示するときに読み込むファイルとして出力する
+    const localGraph = buildLocalGraphData(page.title, linkGraph, { stubPageIndex });
+    if (localGraph) {
+      await fs.writeFile(path.join(localGraphDir, generateLocalGraphFilename(page.title)), JSON.stringify(localGraph));
+    }
+
     if ((i + 1) % 100 === 0 || i === pages.length - 1) {
       process.stdout.write(`\r進捗: ${i + 1}/${pages.length}`);
     }
   }
   console.log();
+  if (mathErrors.size > 0) {
+    console.log(`警告: ${mathErrors.size} ページに解釈できない数式があります（数式のテキストをそのまま表示します）`);
+    for (const [title, formulas] of mathErrors) {
+      console.log(`  - ${title}: ${formulas.map((f) => `[$ ${f}]`).join(", ")}`);
+    }
+  }
+  console.log();
+
+  // 空ページを生成
+  if (stubPages.size > 0) {
+    console.log(`空ページを生成しています... (${stubPages.size} ページ)`);
+    for (const title of stubPages) {
+      const html = renderStubPage(title, linkGraph, projectName, {
+        gyazoResults: combinedGyazoResults,
+        hasGyazoToken: !!options.gyazoAccessToken,
+        iconUrls,
+        mediaAsLinks: options.mediaAsLinks,
+        bareImageUrls: options.bareImageUrls,
+        stubPageIndex,
+        tagPageIndex,
+      });
+      await fs.writeFile(path.join(pagesDir, generatePageFilename(title)), html);
+    }
+    console.log();
+  }
+
+  // タグ一覧とタグごとのページ一覧を生成
+  console.log(`タグのページ一覧を生成しています... (${taggedPages.size} タグ)`);
+  const tagsDir = path.join(outputDir, "tags");
+  await ensureDir(tagsDir);
+  const pagesByTitle = new Map(pages.map((page) => [page.title, page]));
+  for (const [tag, titles] of taggedPages) {
+    const html = renderTagPage(
+      tag,
+      titles.map((title) => pagesByTitle.get(title)!),
+      projectName,
+      { pageIndex: linkGraph.pageIndex, stubPageIndex, hasFeed: options.tagFeeds && !!options.baseUrl }
+    );
+    await fs.writeFile(path.join(tagsDir, generateTagFilename(tag)), html);
+  }
+  const tagCounts = Array.from(taggedPages, ([tag, titles]) => ({ tag, count: titles.length }));
+  await fs.writeFile(path.join(tagsDir, "index.html"), renderTagIndexPage(tagCounts, projectName));
   console.log();
 
   // インデックスページを生成
   console.log("インデックスページを生成しています...");
-  const indexHtml = renderIndexPage(pages, projectName);
+  const indexHtml = renderIndexPage(pages, projectName, { hasFeeds: !!options.baseUrl });
   const indexPath = path.join(outputDir, "index.html");
   await fs.writeFile(indexPath, indexHtml);
+  await fs.writeFile(path.join(outputDir, "graph.html"), renderGraphPage(projectName));
+  await fs.writeFile(path.join(outputDir, "search.html"), renderSearchPage(projectName));
+
+  // フィードを生成（絶対URLが必要なため、ベースURLを指定した場合のみ）
+  if (options.baseUrl) {
+    console.log("フィードを生成しています...");
+    const feedOptions = {
+      baseUrl: options.baseUrl,
+      title: projectName,
+      existingPages: linkGraph.existingPages,
+      exported: isCosenseExport(data) ? data.exported : undefined,
+    };
+    const entries = buildFeedEntries(pages, feedOptions);
+    await fs.writeFile(
+      path.join(outputDir, "feed.xml"),
+      generateAtomFeed(entries, { ...feedOptions, path: "feed.xml" })
+    );
+    await fs.writeFile(
+      path.join(outputDir, "rss.xml"),
+      generateRssFeed(entries, { ...feedOptions, path: "rss.xml" })
+    );
+    await fs.writeFile(
+      path.join(outputDir, "feed.json"),
+      generateJsonFeed(entries, { ...feedOptions, path: "feed.json" })
+    );
+    if (options.tagFeeds) {
+      for (const [tag, titles] of taggedPages) {
+        const tagFeedOptions = {
+          ...feedOptions,
+          title: `#${tag} - ${projectName}`,
+          path: getTagFeedUrl(tag),
+        };
+        const tagEntries = buildFeedEntries(
+          titles.map((title) => pagesByTitle.get(title)!),
+          tagFeedOptions
+        );
+        await fs.writeFile(
+          path.join(tagsDir, generateTagFeedFilename(tag)),
+          generateAtomFeed(tagEntries, tagFeedOptions)
+        );
+      }
+    }
+  } else if (options.tagFeeds) {
+    console.log("警告: --tag-feeds には --base-url の指定が必要です（フィードは出力しません）");
+  }
+
+  // 保守用レポートを生成
+  if (options.healthReport) {
+    console.log("保守用レポートを生成しています...");
+    const report = analyzeLinkGraph(linkGraph);
+    await fs.writeFile(
+      path.join(outputDir, "report.html"),
+      renderReportPage(report, linkGraph, projectName, { stubPages })
+    );
+  }
 
   console.log();
   console.log("================");
@@ -10,24 +10,89 @@ import type {
   ExternalLinkNode,
   ExternalProjectLinkNode,
   ImageNode,
+  ImageLinkNode,
+  VideoNode,
+  AudioNode,
+  EmbedNode,
+  LocationNode,
   IconNode,
   HashtagNode,
   BoldNode,
-  ItalicNode,
-  StrikethroughNode,
-  UnderlineNode,
+  DecorationNode,
+  DecorationStyle,
   CodeNode,
   MathNode,
 } from "./line-types.js";
 
 // 画像拡張子のパターン
 const IMAGE_EXTENSIONS = /\.(png|jpg|jpeg|gif|webp|svg|bmp)$/i;
+// 動画拡張子のパターン
+const VIDEO_EXTENSIONS = /\.(mp4|webm|mov|m4v|ogv)(\?.*)?$/i;
+// 音声拡張子のパターン
+const AUDIO_EXTENSIONS = /\.(mp3|wav|ogg|oga|m4a|aac|flac|opus)(\?.*)?$/i;
+// YouTube URLパターン（watch?v=, youtu.be, shorts, embed）
+const YOUTUBE_PATTERN =
+  /^https?:\/\/(?:(?:www\.|m\.)?youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/|embed\/)|youtu\.be\/)([\w-]{11})/;
+// Vimeo URLパターン
+const VIMEO_PATTERN = /^https?:\/\/(?:www\.)?vimeo\.com\/(\d+)/;
+// Twitter/X URLパターン
+const TWITTER_PATTERN =
+  /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/\w+\/status(?:es)?\/(\d+)/;
+// Spotify URLパターン
+const SPOTIFY_PATTERN =
+  /^https?:\/\/open\.spotify\.com\/(?:intl-[\w-]+\/)?(track|album|playlist|episode|show|artist)\/(\w+)/;
+// SoundCloud URLパターン（ユーザー/トラック）
+const SOUNDCLOUD_PATTERN = /^https?:\/\/(?:www\.)?soundcloud\.com\/([\w-]+\/[\w-]+(?:\/[\w-]+)?)/;
 // Gyazoドメインパターン
 const GYAZO_PATTERN = /^https?:\/\/(i\.)?gyazo\.com\//;
 // URLパターン（行頭用）
 const URL_PATTERN = /^https?:\/\/[^\s\]]+/;
 // URLパターン（文中検索用）
 const URL_PATTERN_GLOBAL = /https?:\/\/[^\s\]]+/;
+// 括弧なしのURLパターン（空白、括弧、日本語の句読点・括弧の手前まで）
+const BARE_URL_PATTERN = /^https?:\/\/[^\s\[\]`<>"「」『』（）【】〈〉《》、。，．！？]+/;
+// 括弧なしのURLの末尾から除く記号
+const BARE_URL_TRAILING_PUNCTUATION = ".,:;!?'\"";
+// バックスラッシュでエスケープできる文字（\[ \] \` \#）
+const ESCAPABLE_CHARACTERS = "[]`#";
+// URLのみのパターン
+const URL_ONLY_PATTERN = /^https?:\/\/[^\s\]]+$/;
+// 位置情報パターン（N35.68,E139.76,Z14 地名）
+const LOCATION_PATTERN = /^([NS])(\d+(?:\.\d+)?),([EW])(\d+(?:\.\d+)?)(?:,Z(\d+))?(?:\s+(.+))?$/;
+// 位置情報のズームレベルの省略時の値
+const DEFAULT_LOCATION_ZOOM = 14;
+// コマンドラインパターン（$ command / % command）
+const COMMAND_LINE_PATTERN = /^([$%]) (.+)$/;
+// Helpfeelパターン（? 質問文）
+const HELPFEEL_PATTERN = /^\? (.+)$/;
+// 番号付きリストパターン（1. text）
+const NUMBERED_LIST_PATTERN = /^(\d+)\. (.*)$/;
+// 装飾記号と装飾の種類の対応
+const DECORATION_STYLES: Record<string, DecorationStyle> = {
+  "*": "bold",
+  "/": "italic",
+  "-": "strikethrough",
+  "_": "underline",
+  "!": "exclamation",
+  '"': "quotation",
+  "#": "sharp",
+  "%": "percent",
+  "&": "ampersand",
+  "'": "apostrophe",
+  "(": "paren-open",
+  ")": "paren-close",
+  "+": "plus",
+  ",": "comma",
+  ".": "period",
+  "{": "brace-open",
+  "|": "pipe",
+  "}": "brace-close",
+  "<": "less-than",
+  ">": "greater-than",
+  "~": "tilde",
+};
+// 装飾記法パターン（装飾記号の並び + 空白 + 本文）
+const DECORATION_PATTERN = /^([*\/\-_!"#%&'()+,.{|}<>~]+)\s+(.+)$/;
 // ローカル画像パスパターン（../assets/images/xxx.png形式）
 const LOCAL_IMAGE_PATH = /^\.\.\/assets\/images\/[^\s\]]+\.(png|jpg|jpeg|gif|webp|svg|bmp)$/i;
 
@@ -63,29 +128,291 @@ function parseQuote(content: string): { isQuote: boolean; quoteContent: string }
 
 /**
  * コードブロック開始行かどうかを判定
+ * code:filename.ext は拡張子、code:js や code:Makefile のような拡張子なしは名前そのもの、
+ * code:filename(lang) は括弧内を言語とする
  */
 function isCodeBlockStart(content: string): {
   isCodeBlock: boolean;
+  filename: string;
   lang: string;
 } {
-  const match = content.match(/^code:([^\s]+)$/);
+  const match = content.match(/^code:([^\s(]+)(?:\(([^)\s]+)\))?$/);
   if (match) {
     const filename = match[1];
     const extMatch = filename.match(/\.(\w+)$/);
+    const lang = match[2] || (extMatch ? extMatch[1] : filename);
     return {
       isCodeBlock: true,
-      lang: extMatch ? extMatch[1] : "",
+      filename,
+      lang: lang.toLowerCase(),
     };
   }
-  return { isCodeBlock: false, lang: "" };
+  return { isCodeBlock: false, filename: "", lang: "" };
+}
+
+/**
+ * テーブル開始行かどうかを判定
+ */
+function isTableStart(content: string): {
+  isTable: boolean;
+  name: string;
+} {
+  const match = content.match(/^table:(.+)$/);
+  if (match) {
+    return { isTable: true, name: match[1] };
+  }
+  return { isTable: false, name: "" };
+}
+
+/**
+ * テーブルの行をセルごとにパース（タブ区切り）
+ * @param offset - 行内でのcontentの開始位置
+ */
+function parseTableCells(content: string, offset: number): ParsedNode[][] {
+  let cellStart = offset;
+  return content.split("\t").map((cell) => {
+    const nodes = parseInlineContent(cell, cellStart);
+    cellStart += cell.length + 1;
+    return nodes;
+  });
+}
+
+/**
+ * ノードに行内の位置を設定する（終了位置はrawの長さから求める）
+ */
+function setPosition<T extends ParsedNode>(node: T, start: number): T {
+  node.start = start;
+  node.end = start + node.raw.length;
+  return node;
+}
+
+/**
+ * エスケープを解除する（\[ -> [ など）
+ */
+function unescapeText(text: string): string {
+  return text.replace(/\\([[\]`#])/g, "$1");
+}
+
+/**
+ * エスケープされていない括弧を含むか判定
+ */
+function hasUnescapedBracket(text: string): boolean {
+  return /(^|[^\\])[[\]]/.test(text);
+}
+
+/**
+ * バッククォートで囲まれたコードの終了位置を探す
+ * 開始と同じ数のバッククォートの並びで閉じる（``a`b`` のようにバッククォートを含められる）
+ * @param start - 開始のバッククォートの位置
+ * @returns 閉じるバッククォートの直後の位置。閉じていない場合は -1
+ */
+function findCodeSpanEnd(text: string, start: number): number {
+  let fence = 0;
+  while (text[start + fence] === "`") {
+    fence++;
+  }
+  let i = start + fence;
+  while (i < text.length) {
+    if (text[i] !== "`") {
+      i++;
+      continue;
+    }
+    let run = 0;
+    while (text[i + run] === "`") {
+      run++;
+    }
+    if (run === fence) {
+      return i + run;
+    }
+    i += run;
+  }
+  return -1;
+}
+
+/**
+ * 対応する閉じ括弧を探す（入れ子の括弧、エスケープ、コード内の括弧を考慮）
+ * @param start - 開き括弧の位置
+ * @returns 閉じ括弧の位置。閉じていない場合は -1
+ */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "\\" && ESCAPABLE_CHARACTERS.includes(text[i + 1] ?? "")) {
+      i += 2;
+      continue;
+    }
+    if (char === "`") {
+      const codeEnd = findCodeSpanEnd(text, i);
+      if (codeEnd !== -1) {
+        i = codeEnd;
+        continue;
+      }
+      // 閉じていないバッククォートの並びは文字として扱う
+      while (text[i] === "`") {
+        i++;
+      }
+      continue;
+    }
+    if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+    i++;
+  }
+  return -1;
+}
+
+/**
+ * 本文中の括弧なしのURLを先頭から取り出す
+ * 末尾の句読点と、対応する ( のない ) はURLに含めない
+ * @returns 該当しない場合は null
+ */
+function matchBareUrl(text: string): string | null {
+  const match = text.match(BARE_URL_PATTERN);
+  if (!match) {
+    return null;
+  }
+  let url = match[0];
+  while (url.length > 0) {
+    const last = url[url.length - 1];
+    if (BARE_URL_TRAILING_PUNCTUATION.includes(last)) {
+      url = url.slice(0, -1);
+    } else if (last === ")" && url.split("(").length < url.split(")").length) {
+      url = url.slice(0, -1);
+    } else {
+      break;
+    }
+  }
+  return /^https?:\/\/[^\/?#]+/.test(url) ? url : null;
+}
+
+/**
+ * 画像として扱う文字列か判定（GyazoのURL、画像拡張子のURL、ローカル画像パス）
+ */
+function isImageSource(text: string): boolean {
+  return (
+    GYAZO_PATTERN.test(text) ||
+    (URL_ONLY_PATTERN.test(text) && IMAGE_EXTENSIONS.test(text)) ||
+    LOCAL_IMAGE_PATH.test(text)
+  );
+}
+
+/**
+ * 括弧なしで書かれた画像URL（GyazoのURL、画像拡張子のURL）か判定
+ * 画像として表示するかは利用側のオプションで決める
+ */
+export function isBareImageLink(node: ParsedNode): node is ExternalLinkNode {
+  return node.type === "external-link" && !!node.bare && isImageSource(node.url);
+}
+
+/**
+ * リンク付き画像をパース [画像URL リンクURL] / [リンクURL 画像URL]
+ * 両方とも画像の場合は先頭を画像、後ろをリンク先とする
+ * @returns 該当しない場合は null
+ */
+function parseImageLink(content: string, raw: string): ImageLinkNode | null {
+  const parts = content.split(/\s+/);
+  if (parts.length !== 2) {
+    return null;
+  }
+  const [first, second] = parts;
+  if (isImageSource(first) && URL_ONLY_PATTERN.test(second)) {
+    return { type: "image-link", raw, url: first, href: second } as ImageLinkNode;
+  }
+  if (URL_ONLY_PATTERN.test(first) && isImageSource(second)) {
+    return { type: "image-link", raw, url: second, href: first } as ImageLinkNode;
+  }
+  return null;
+}
+
+/**
+ * 位置情報をパース [N35.68,E139.76,Z14 地名]
+ * @returns 該当しない場合は null
+ */
+function parseLocation(content: string, raw: string): LocationNode | null {
+  const match = content.match(LOCATION_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const latitude = parseFloat(match[2]) * (match[1] === "S" ? -1 : 1);
+  const longitude = parseFloat(match[4]) * (match[3] === "W" ? -1 : 1);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  return {
+    type: "location",
+    raw,
+    latitude,
+    longitude,
+    zoom: match[5] ? parseInt(match[5], 10) : DEFAULT_LOCATION_ZOOM,
+    name: match[6],
+  } as LocationNode;
+}
+
+/**
+ * 動画・音声・埋め込みのURLをパース
+ * @returns 該当しない場合は null
+ */
+function parseMediaUrl(url: string, raw: string): ParsedNode | null {
+  const youtubeMatch = url.match(YOUTUBE_PATTERN);
+  if (youtubeMatch) {
+    return { type: "embed", raw, provider: "youtube", url, id: youtubeMatch[1] } as EmbedNode;
+  }
+
+  const vimeoMatch = url.match(VIMEO_PATTERN);
+  if (vimeoMatch) {
+    return { type: "embed", raw, provider: "vimeo", url, id: vimeoMatch[1] } as EmbedNode;
+  }
+
+  const twitterMatch = url.match(TWITTER_PATTERN);
+  if (twitterMatch) {
+    return { type: "embed", raw, provider: "twitter", url, id: twitterMatch[1] } as EmbedNode;
+  }
+
+  const spotifyMatch = url.match(SPOTIFY_PATTERN);
+  if (spotifyMatch) {
+    return {
+      type: "embed",
+      raw,
+      provider: "spotify",
+      url,
+      id: spotifyMatch[2],
+      embedType: spotifyMatch[1],
+    } as EmbedNode;
+  }
+
+  const soundcloudMatch = url.match(SOUNDCLOUD_PATTERN);
+  if (soundcloudMatch) {
+    return { type: "embed", raw, provider: "soundcloud", url, id: soundcloudMatch[1] } as EmbedNode;
+  }
+
+  if (VIDEO_EXTENSIONS.test(url)) {
+    return { type: "video", raw, url } as VideoNode;
+  }
+
+  if (AUDIO_EXTENSIONS.test(url)) {
+    return { type: "audio", raw, url } as AudioNode;
+  }
+
+  return null;
 }
 
 /**
  * ブラケット記法をパース [...]
+ * 位置は呼び出し側で設定する
+ * 入れ子の括弧は装飾・数式・外部リンクのタイトルでのみ認める
+ * @param offset - 行内での [ の位置（子ノードの位置の計算に使う）
+ * @returns 記法として解釈できない場合は null（[ を文字として扱う）
  */
-function parseBracket(content: string): ParsedNode | null {
+function parseBracket(content: string, offset: number): ParsedNode | null {
   // 外部プロジェクトリンク [/project/page]
-  const externalProjectMatch = content.match(/^\/([^\/]+)\/(.*)$/);
+  const externalProjectMatch = content.match(/^\/([^\/\[\]]+)\/([^\[\]]*)$/);
   if (externalProjectMatch) {
     return {
       type: "external-project-link",
@@ -95,16 +422,23 @@ function parseBracket(content: string): ParsedNode | null {
     } as ExternalProjectLinkNode;
   }
 
-  // アイコン [user.icon]
-  const iconMatch = content.match(/^([^\s.]+)\.icon$/);
+  // アイコン [user.icon] [user.icon*3]
+  const iconMatch = content.match(/^([^\s.\[\]]+)\.icon(?:\*(\d+))?$/);
   if (iconMatch) {
     return {
       type: "icon",
       raw: `[${content}]`,
       user: iconMatch[1],
+      count: iconMatch[2] ? parseInt(iconMatch[2], 10) : 1,
     } as IconNode;
   }
 
+  // 位置情報 [N35.68,E139.76,Z14 地名]
+  const location = parseLocation(content, `[${content}]`);
+  if (location) {
+    return location;
+  }
+
   // 数式 [$ formula]
   if (content.startsWith("$ ")) {
     return {
@@ -114,59 +448,53 @@ function parseBracket(content: string): ParsedNode | null {
     } as MathNode;
   }
 
-  // 装飾記法
-  // 太字 [* text] [** text] [*** text]
-  const boldMatch = content.match(/^(\*+)\s+(.+)$/);
-  if (boldMatch) {
-    const boldContent = boldMatch[2];
-    // 太字の中身が画像URLのみの場合は画像として扱う（[[画像URL]]記法に相当）
+  // 装飾記法 [* text] [/ text] [*/- text] など
+  const decorationMatch = content.match(DECORATION_PATTERN);
+  if (decorationMatch) {
+    const symbols = decorationMatch[1];
+    const decorationContent = decorationMatch[2];
+    // 太字のみの中身が画像URLの場合は強調画像として扱う（[[画像URL]]記法に相当）
     if (
-      GYAZO_PATTERN.test(boldContent) ||
-      IMAGE_EXTENSIONS.test(boldContent) ||
-      LOCAL_IMAGE_PATH.test(boldContent)
+      /^\*+$/.test(symbols) &&
+      (GYAZO_PATTERN.test(decorationContent) ||
+        IMAGE_EXTENSIONS.test(decorationContent) ||
+        LOCAL_IMAGE_PATH.test(decorationContent))
     ) {
       return {
         type: "image",
         raw: `[${content}]`,
-        url: boldContent,
+        url: decorationContent,
+        strong: true,
       } as ImageNode;
     }
+    const styles: DecorationStyle[] = [];
+    for (const symbol of symbols) {
+      const style = DECORATION_STYLES[symbol];
+      if (!styles.includes(style)) {
+        styles.push(style);
+      }
+    }
     return {
-      type: "bold",
+      type: "decoration",
       raw: `[${content}]`,
-      level: boldMatch[1].length,
-      children: parseInlineContent(boldContent),
-    } as BoldNode;
+      styles,
+      level: symbols.split("*").length - 1,
+      children: parseInlineContent(
+        decorationContent,
+        offset + 1 + content.length - decorationContent.length
+      ),
+    } as DecorationNode;
   }
 
-  // 斜体 [/ text]
-  const italicMatch = content.match(/^\/\s+(.+)$/);
-  if (italicMatch) {
-    return {
-      type: "italic",
-      raw: `[${content}]`,
-      children: parseInlineContent(italicMatch[1]),
-    } as ItalicNode;
+  // 入れ子の括弧を含む内部リンクは記法として扱わない（[a [b] c] の [b] だけをリンクにする）
+  if (hasUnescapedBracket(content) && !URL_PATTERN_GLOBAL.test(content)) {
+    return null;
   }
 
-  // 打消し線 [- text]
-  const strikeMatch = content.match(/^-\s+(.+)$/);
-  if (strikeMatch) {
-    return {
-      type: "strikethrough",
-      raw: `[${content}]`,
-      children: parseInlineContent(strikeMatch[1]),
-    } as StrikethroughNode;
-  }
-
-  // 下線 [_ text]
-  const underlineMatch = content.match(/^_\s+(.+)$/);
-  if (underlineMatch) {
-    return {
-      type: "underline",
-      raw: `[${content}]`,
-      children: parseInlineContent(underlineMatch[1]),
-    } as UnderlineNode;
+  // リンク付き画像 [画像URL リンクURL]
+  const imageLink = parseImageLink(content, `[${content}]`);
+  if (imageLink) {
+    return imageLink;
   }
 
   // ローカル画像パス（../assets/images/xxx.png形式）
@@ -197,12 +525,19 @@ function parseBracket(content: string): ParsedNode | null {
     // [URL タイトル] or [タイトル URL] or [URL]
     const parts = content.split(/\s+/);
     if (parts.length === 1) {
-      // URLのみ
+      // 動画・音声・埋め込み（URLのみの場合）
+      const media = parseMediaUrl(url, `[${content}]`);
+      if (media) {
+        return media;
+      }
+
+      // URLのみ（URLに括弧を含む場合もあるため、URLで始まる場合は括弧内全体をURLとする）
+      const linkUrl = URL_PATTERN.test(content) ? content : url;
       return {
         type: "external-link",
         raw: `[${content}]`,
-        url: url,
-        title: url,
+        url: linkUrl,
+        title: linkUrl,
       } as ExternalLinkNode;
     }
 
@@ -213,7 +548,7 @@ function parseBracket(content: string): ParsedNode | null {
         type: "external-link",
         raw: `[${content}]`,
         url: parts[0],
-        title: parts.slice(1).join(" "),
+        title: unescapeText(parts.slice(1).join(" ")),
       } as ExternalLinkNode;
     } else {
       // [タイトル URL]
@@ -223,7 +558,7 @@ function parseBracket(content: string): ParsedNode | null {
         type: "external-link",
         raw: `[${content}]`,
         url: urlPart || "",
-        title: titleParts.join(" "),
+        title: unescapeText(titleParts.join(" ")),
       } as ExternalLinkNode;
     }
   }
@@ -232,66 +567,121 @@ function parseBracket(content: string): ParsedNode | null {
   return {
     type: "internal-link",
     raw: `[${content}]`,
-    title: content,
+    title: unescapeText(content),
   } as InternalLinkNode;
 }
 
 /**
  * 行内のコンテンツをパース（再帰的に使用）
+ * 括弧は対応する閉じ括弧までを1つの記法とし、閉じていない括弧は文字として扱う
+ * @param offset - 行内でのtextの開始位置
  */
-function parseInlineContent(text: string): ParsedNode[] {
+function parseInlineContent(text: string, offset: number): ParsedNode[] {
   const nodes: ParsedNode[] = [];
   let remaining = text;
+  // テキストバッファ（元の文字列と、エスケープを解除した文字列）
   let textBuffer = "";
+  let textValue = "";
+
+  // remainingの先頭の行内での位置
+  const position = () => offset + text.length - remaining.length;
 
-  const flushTextBuffer = () => {
+  // テキストバッファはendの直前までの文字列
+  const flushTextBuffer = (end: number = position()) => {
     if (textBuffer) {
-      nodes.push({
-        type: "text",
-        raw: textBuffer,
-        text: textBuffer,
-      } as TextNode);
+      nodes.push(
+        setPosition(
+          {
+            type: "text",
+            raw: textBuffer,
+            text: textValue,
+          } as TextNode,
+          end - textBuffer.length
+        )
+      );
       textBuffer = "";
+      textValue = "";
     }
   };
 
   while (remaining.length > 0) {
-    // 二重括弧太字 [[text]]
-    const doubleBracketMatch = remaining.match(/^\[\[([^\]]+)\]\]/);
-    if (doubleBracketMatch) {
-      flushTextBuffer();
-      nodes.push({
-        type: "bold",
-        raw: doubleBracketMatch[0],
-        level: 1,
-        children: parseInlineContent(doubleBracketMatch[1]),
-      } as BoldNode);
-      remaining = remaining.slice(doubleBracketMatch[0].length);
+    // エスケープ \[ \] \` \#
+    if (remaining[0] === "\\" && ESCAPABLE_CHARACTERS.includes(remaining[1] ?? "")) {
+      textBuffer += remaining.slice(0, 2);
+      textValue += remaining[1];
+      remaining = remaining.slice(2);
       continue;
     }
 
-    // ブラケット記法 [...]
-    const bracketMatch = remaining.match(/^\[([^\]]+)\]/);
-    if (bracketMatch) {
-      flushTextBuffer();
-      const parsed = parseBracket(bracketMatch[1]);
-      if (parsed) {
-        nodes.push(parsed);
+    if (remaining[0] === "[") {
+      const close = findClosingBracket(remaining, 0);
+      if (close !== -1) {
+        const raw = remaining.slice(0, close + 1);
+
+        // 二重括弧太字 [[text]]、強調画像 [[画像URL]]
+        if (remaining[1] === "[" && findClosingBracket(remaining, 1) === close - 1) {
+          const content = remaining.slice(2, close - 1);
+          if (content) {
+            flushTextBuffer();
+            const node = isImageSource(content)
+              ? ({ type: "image", raw, url: content, strong: true } as ImageNode)
+              : ({
+                  type: "bold",
+                  raw,
+                  level: 1,
+                  children: parseInlineContent(content, position() + 2),
+                } as BoldNode);
+            nodes.push(setPosition(node, position()));
+            remaining = remaining.slice(raw.length);
+            continue;
+          }
+        }
+
+        // ブラケット記法 [...]
+        const content = remaining.slice(1, close);
+        const parsed = content ? parseBracket(content, position()) : null;
+        if (parsed) {
+          flushTextBuffer();
+          nodes.push(setPosition(parsed, position()));
+          remaining = remaining.slice(raw.length);
+          continue;
+        }
       }
-      remaining = remaining.slice(bracketMatch[0].length);
-      continue;
+      // 閉じていない括弧や記法として解釈できない括弧は文字として扱う
     }
 
-    // インラインコード `code`
-    const codeMatch = remaining.match(/^`([^`]+)`/);
-    if (codeMatch) {
-      flushTextBuffer();
-      nodes.push({
-        type: "code",
-        raw: codeMatch[0],
-        code: codeMatch[1],
-      } as CodeNode);
-      remaining = remaining.slice(codeMatch[0].length);
+    // インラインコード `code` ``co`de``
+    if (remaining[0] === "`") {
+      const codeEnd = findCodeSpanEnd(remaining, 0);
+      let fence = 0;
+      while (remaining[fence] === "`") {
+        fence++;
+      }
+      if (codeEnd !== -1) {
+        const raw = remaining.slice(0, codeEnd);
+        let code = raw.slice(fence, -fence);
+        // 2個以上のバッククォートで囲む場合、前後の空白1つは区切りとして除く
+        if (fence > 1 && code.startsWith(" ") && code.endsWith(" ") && code.trim()) {
+          code = code.slice(1, -1);
+        }
+        flushTextBuffer();
+        nodes.push(
+          setPosition(
+            {
+              type: "code",
+              raw,
+              code,
+            } as CodeNode,
+            position()
+          )
+        );
+        remaining = remaining.slice(raw.length);
+        continue;
+      }
+      // 閉じていないバッククォートの並びは文字として扱う
+      textBuffer += remaining.slice(0, fence);
+      textValue += remaining.slice(0, fence);
+      remaining = remaining.slice(fence);
       continue;
     }
 
@@ -316,25 +706,55 @@ function parseInlineContent(text: string): ParsedNode[] {
           if (textBuffer.endsWith(" ") || textBuffer.endsWith("\t")) {
             const lastSpace = textBuffer.slice(-1);
             textBuffer = textBuffer.slice(0, -1);
-            flushTextBuffer();
+            textValue = textValue.slice(0, -1);
+            flushTextBuffer(position() - 1);
             textBuffer = lastSpace;
+            textValue = lastSpace;
             flushTextBuffer();
           } else {
             flushTextBuffer();
           }
-          nodes.push({
-            type: "hashtag",
-            raw: tagMatch[0],
-            tag: tagMatch[1],
-          } as HashtagNode);
+          nodes.push(
+            setPosition(
+              {
+                type: "hashtag",
+                raw: tagMatch[0],
+                tag: tagMatch[1],
+              } as HashtagNode,
+              position()
+            )
+          );
           remaining = remaining.slice(tagMatch[0].length);
           continue;
         }
       }
     }
 
+    // 括弧なしのURL（英数字の直後は単語の一部とみなしてリンクにしない）
+    if (remaining.startsWith("http") && !/[A-Za-z0-9]$/.test(textBuffer)) {
+      const url = matchBareUrl(remaining);
+      if (url) {
+        flushTextBuffer();
+        nodes.push(
+          setPosition(
+            {
+              type: "external-link",
+              raw: url,
+              url,
+              title: url,
+              bare: true,
+            } as ExternalLinkNode,
+            position()
+          )
+        );
+        remaining = remaining.slice(url.length);
+        continue;
+      }
+    }
+
     // 通常文字
     textBuffer += remaining[0];
+    textValue += remaining[0];
     remaining = remaining.slice(1);
   }
 
@@ -342,85 +762,159 @@ function parseInlineContent(text: string): ParsedNode[] {
   return nodes;
 }
 
+/**
+ * ParsedLineを生成（指定されていないフラグはすべてfalse）
+ * 位置は行単体での値（0から行の長さまで）とし、parseLinesでページ内の位置に設定し直す
+ */
+function createParsedLine(
+  line: string,
+  indent: number,
+  nodes: ParsedNode[],
+  flags: Partial<ParsedLine> = {}
+): ParsedLine {
+  return {
+    indent,
+    indentText: line.slice(0, indent),
+    prefix: "",
+    nodes,
+    start: 0,
+    end: line.length,
+    isCodeBlock: false,
+    isCodeBlockContent: false,
+    isQuote: false,
+    isTable: false,
+    isTableContent: false,
+    isNumberedList: false,
+    isCommandLine: false,
+    isHelpfeel: false,
+    ...flags,
+  };
+}
+
+/**
+ * 文字列をそのまま1つのテキストノードにする
+ * @param start - 行内でのcontentの開始位置
+ */
+function createTextNodes(content: string, start: number): ParsedNode[] {
+  return [
+    setPosition(
+      {
+        type: "text",
+        raw: content,
+        text: content,
+      } as TextNode,
+      start
+    ),
+  ];
+}
+
 /**
  * 1行をパースしてParsedLineを返す
  */
 export function parseLine(
   line: string,
-  inCodeBlock: boolean = false
+  inCodeBlock: boolean = false,
+  inTable: boolean = false
 ): ParsedLine {
   const { indent, content } = measureIndent(line);
 
   // コードブロック内の行
   if (inCodeBlock && indent > 0) {
-    return {
-      indent,
-      nodes: [
-        {
-          type: "text",
-          raw: content,
-          text: content,
-        } as TextNode,
-      ],
-      isCodeBlock: false,
+    return createParsedLine(line, indent, createTextNodes(content, indent), {
       isCodeBlockContent: true,
-      isQuote: false,
-    };
+    });
+  }
+
+  // テーブル内の行
+  // セル内のリンクや装飾もパースし、nodesには全セルのノードを平坦化して格納する
+  if (inTable && indent > 0) {
+    const tableCells = parseTableCells(content, indent);
+    return createParsedLine(line, indent, tableCells.flat(), {
+      isTableContent: true,
+      tableCells,
+    });
   }
 
   // コードブロック開始判定
   const codeBlockInfo = isCodeBlockStart(content);
   if (codeBlockInfo.isCodeBlock) {
-    return {
-      indent,
-      nodes: [
-        {
-          type: "text",
-          raw: content,
-          text: content,
-        } as TextNode,
-      ],
+    return createParsedLine(line, indent, createTextNodes(content, indent), {
       isCodeBlock: true,
+      codeBlockFilename: codeBlockInfo.filename,
       codeBlockLang: codeBlockInfo.lang,
-      isCodeBlockContent: false,
-      isQuote: false,
-    };
+    });
+  }
+
+  // テーブル開始判定
+  const tableInfo = isTableStart(content);
+  if (tableInfo.isTable) {
+    return createParsedLine(line, indent, createTextNodes(content, indent), {
+      isTable: true,
+      tableName: tableInfo.name,
+    });
+  }
+
+  // コマンドライン判定（$ command / % command）
+  // コマンドは記法として解釈せず、そのままテキストとして扱う
+  const commandMatch = content.match(COMMAND_LINE_PATTERN);
+  if (commandMatch) {
+    const prefix = `${commandMatch[1]} `;
+    const nodes = createTextNodes(commandMatch[2], indent + prefix.length);
+    return createParsedLine(line, indent, nodes, {
+      prefix,
+      isCommandLine: true,
+      commandPrefix: commandMatch[1] as "$" | "%",
+    });
+  }
+
+  // Helpfeel判定（? 質問文）
+  const helpfeelMatch = content.match(HELPFEEL_PATTERN);
+  if (helpfeelMatch) {
+    const prefix = "? ";
+    const nodes = createTextNodes(helpfeelMatch[1], indent + prefix.length);
+    return createParsedLine(line, indent, nodes, {
+      prefix,
+      isHelpfeel: true,
+    });
+  }
+
+  // 番号付きリスト判定（インデントされた 1. text）
+  const numberedMatch = indent > 0 ? content.match(NUMBERED_LIST_PATTERN) : null;
+  if (numberedMatch) {
+    const prefix = `${numberedMatch[1]}. `;
+    const nodes = parseInlineContent(numberedMatch[2], indent + prefix.length);
+    return createParsedLine(line, indent, nodes, {
+      prefix,
+      isNumberedList: true,
+      listNumber: parseInt(numberedMatch[1], 10),
+    });
   }
 
   // 引用ブロック判定
   const quoteInfo = parseQuote(content);
   if (quoteInfo.isQuote) {
+    const prefix = content.slice(0, content.length - quoteInfo.quoteContent.length);
     const nodes = quoteInfo.quoteContent
-      ? parseInlineContent(quoteInfo.quoteContent)
+      ? parseInlineContent(quoteInfo.quoteContent, indent + prefix.length)
       : [];
-    return {
-      indent,
-      nodes,
-      isCodeBlock: false,
-      isCodeBlockContent: false,
-      isQuote: true,
-    };
+    return createParsedLine(line, indent, nodes, { prefix, isQuote: true });
   }
 
   // 通常行のパース
-  const nodes = parseInlineContent(content);
-
-  return {
-    indent,
-    nodes,
-    isCodeBlock: false,
-    isCodeBlockContent: false,
-    isQuote: false,
-  };
+  return createParsedLine(line, indent, parseInlineContent(content, indent));
 }
 
 /**
  * 複数行をパースしてParsedLine配列を返す
+ * 各行の位置は、行を改行で連結したページ全体のテキストでのオフセットになる
  */
 export function parseLines(lines: string[]): ParsedLine[] {
   const results: ParsedLine[] = [];
+  let lineStart = 0;
   let inCodeBlock = false;
   let codeBlockIndent = 0;
+  let inTable = false;
+  let tableIndent = 0;
 
   for (const line of lines) {
     const { indent } = measureIndent(line);
@@ -430,7 +924,15 @@ export function parseLines(lines: string[]): ParsedLine[] {
       inCodeBlock = false;
     }
 
-    const parsed = parseLine(line, inCodeBlock);
+    // テーブル終了判定
+    if (inTable && indent <= tableIndent) {
+      inTable = false;
+    }
+
+    const parsed = parseLine(line, inCodeBlock, inTable);
+    parsed.start = lineStart;
+    parsed.end = lineStart + line.length;
+    lineStart = parsed.end + 1;
     results.push(parsed);
 
     // コードブロック開始
@@ -438,6 +940,12 @@ export function parseLines(lines: string[]): ParsedLine[] {
       inCodeBlock = true;
       codeBlockIndent = indent;
     }
+
+    // テーブル開始
+    if (parsed.isTable) {
+      inTable = true;
+      tableIndent = indent;
+    }
   }
 
   return results;
@@ -0,0 +1,136 @@
+/**
+ * パース結果を元のCosense記法の文字列に戻すシリアライザー
+ * ノードの位置情報を使い、パース前の行を1文字も変えずに復元する
+ */
+import type { ParsedLine, ParsedNode } from "./line-types.js";
+import { parseLines, isBareImageLink } from "./line-parser.js";
+
+/**
+ * 画像URLの置き換えオプション
+ */
+export interface RewriteImageUrlOptions {
+  /** 括弧なしで書かれた画像URLも置き換えるか（置き換え後は画像記法になる） */
+  bareImageUrls?: boolean;
+}
+
+/**
+ * ノードを元の文字列に戻す
+ * 子ノードを持つノードは、括弧や装飾記号をrawから取り出し、子ノードを再帰的に戻して連結する
+ */
+export function stringifyNode(node: ParsedNode): string {
+  if ((node.type === "bold" || node.type === "decoration") && node.children.length > 0) {
+    const first = node.children[0];
+    const last = node.children[node.children.length - 1];
+    return (
+      node.raw.slice(0, first.start - node.start) +
+      node.children.map(stringifyNode).join("") +
+      node.raw.slice(last.end - node.start)
+    );
+  }
+  return node.raw;
+}
+
+/**
+ * パースされた行を元の文字列に戻す
+ * parseLine の結果をそのまま渡した場合は入力と完全に一致する
+ */
+export function stringifyLine(parsed: ParsedLine): string {
+  const body =
+    parsed.isTableContent && parsed.tableCells
+      ? parsed.tableCells
+          .map((cell) => cell.map(stringifyNode).join(""))
+          .join("\t")
+      : parsed.nodes.map(stringifyNode).join("");
+  return parsed.indentText + parsed.prefix + body;
+}
+
+/**
+ * ノードのraw内でURLが単独で現れる位置を探す（前後が括弧か空白の位置のみ）
+ * @returns 見つからない場合は -1
+ */
+function findUrlInRaw(raw: string, url: string): number {
+  let index = raw.indexOf(url);
+  while (index !== -1) {
+    const before = raw[index - 1];
+    const after = raw[index + url.length];
+    if (/^[\s\[\]]$/.test(before ?? "") && /^[\s\[\]]$/.test(after ?? "")) {
+      return index;
+    }
+    index = raw.indexOf(url, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * 画像ノード（リンク付き画像を含む）のURLを置き換える
+ * @returns URLを置き換えたノード。置き換えがない場合は元のノード
+ */
+function rewriteNodeImageUrl(
+  node: ParsedNode,
+  rewrite: (url: string) => string | null,
+  options: RewriteImageUrlOptions
+): ParsedNode {
+  if (options.bareImageUrls && isBareImageLink(node)) {
+    const newUrl = rewrite(node.url);
+    return newUrl === null ? node : { ...node, raw: `[${newUrl}]` };
+  }
+  if (node.type === "image" || node.type === "image-link") {
+    const newUrl = rewrite(node.url);
+    const urlIndex = findUrlInRaw(node.raw, node.url);
+    if (newUrl === null || newUrl === node.url || urlIndex === -1) {
+      return node;
+    }
+    return {
+      ...node,
+      url: newUrl,
+      raw:
+        node.raw.slice(0, urlIndex) +
+        newUrl +
+        node.raw.slice(urlIndex + node.url.length),
+    };
+  }
+  if (node.type === "bold" || node.type === "decoration") {
+    const children = node.children.map((child) =>
+      rewriteNodeImageUrl(child, rewrite, options)
+    );
+    if (children.every((child, i) => child === node.children[i])) {
+      return node;
+    }
+    return { ...node, children };
+  }
+  return node;
+}
+
+/**
+ * ページの行に含まれる画像のURLを置き換える
+ * 画像記法の中のURLだけを置き換えるため、同じURLが本文やコードブロック、
+ * 他のURLの一部に現れても書き換えない
+ * @param lines - ページの行（テキスト）
+ * @param rewrite - 元のURLを受け取り、置き換え後のURLを返す。置き換えない場合は null
+ * @returns 置き換え後の行（置き換えのない行は元の文字列のまま）
+ */
+export function rewriteImageUrls(
+  lines: string[],
+  rewrite: (url: string) => string | null,
+  options: RewriteImageUrlOptions = {}
+): string[] {
+  const parsedLines = parseLines(lines);
+
+  return parsedLines.map((parsed, i) => {
+    if (parsed.isCodeBlockContent) {
+      return lines[i];
+    }
+
+    const rewriteNodes = (nodes: ParsedNode[]) =>
+      nodes.map((node) => rewriteNodeImageUrl(node, rewrite, options));
+
+    // テーブルの行はセルごとに置き換える（nodesはセルのノードを平坦化したもの）
+    const tableCells = parsed.tableCells?.map(rewriteNodes);
+    const nodes = tableCells ? tableCells.flat() : rewriteNodes(parsed.nodes);
+    if (nodes.every((node, j) => node === parsed.nodes[j])) {
+      return lines[i];
+    }
+
+    return stringifyLine({ ...parsed, nodes, tableCells });
+  });
+}
@@ -11,13 +11,16 @@ export type NodeType =
   | "internal-link" // 内部リンク [ページ名]
   | "external-link" // 外部リンク [URL タイトル] or [タイトル URL]
   | "external-project-link" // 外部プロジェクトリンク [/project/ページ名]
-  | "image" // 画像 [https://gyazo.com/xxx]
-  | "icon" // アイコン [user.icon]
+  | "image" // 画像 [https://gyazo.com/xxx] [[https://gyazo.com/xxx]]
+  | "image-link" // リンク付き画像 [https://example.com/image.png https://example.com]
+  | "video" // 動画 [https://example.com/movie.mp4]
+  | "audio" // 音声 [https://example.com/sound.mp3]
+  | "embed" // 埋め込み [https://www.youtube.com/watch?v=xxx] など
+  | "location" // 位置情報 [N35.68,E139.76,Z14 東京]
+  | "icon" // アイコン [user.icon] [user.icon*3]
   | "hashtag" // ハッシュタグ #tag
-  | "bold" // 太字 [* text] or [[text]]
-  | "italic" // 斜体 [/ text]
-  | "strikethrough" // 打消し線 [- text]
-  | "underline" // 下線 [_ text]
+  | "bold" // 太字 [[text]]
+  | "decoration" // 装飾 [* text] [/ text] [*/- text] など
   | "code" // インラインコード `code`
   | "math"; // 数式 [$ formula]
 
@@ -27,6 +30,8 @@ export type NodeType =
 export interface BaseNode {
   type: NodeType;
   raw: string; // 元の文字列
+  start: number; // 行内での開始位置（行頭からの文字オフセット）
+  end: number; // 行内での終了位置（この位置の文字は含まない）
 }
 
 /**
@@ -52,6 +57,7 @@ export interface ExternalLinkNode extends BaseNode {
   type: "external-link";
   url: string;
   title: string;
+  bare?: boolean; // 括弧なしで本文中に書かれたURLかどうか
 }
 
 /**
@@ -69,6 +75,65 @@ export interface ExternalProjectLinkNode extends BaseNode {
 export interface ImageNode extends BaseNode {
   type: "image";
   url: string;
+  strong?: boolean; // 強調画像（[[画像URL]] や [* 画像URL]）かどうか
+}
+
+/**
+ * リンク付き画像ノード
+ * 画像URLとリンク先URLの順序はどちらでもよい
+ */
+export interface ImageLinkNode extends BaseNode {
+  type: "image-link";
+  url: string; // 画像のURL
+  href: string; // リンク先のURL
+}
+
+/**
+ * 動画ノード
+ */
+export interface VideoNode extends BaseNode {
+  type: "video";
+  url: string;
+}
+
+/**
+ * 音声ノード
+ */
+export interface AudioNode extends BaseNode {
+  type: "audio";
+  url: string;
+}
+
+/**
+ * 埋め込みに対応しているサービス
+ */
+export type EmbedProvider =
+  | "youtube"
+  | "vimeo"
+  | "twitter"
+  | "spotify"
+  | "soundcloud";
+
+/**
+ * 埋め込みノード
+ */
+export interface EmbedNode extends BaseNode {
+  type: "embed";
+  provider: EmbedProvider;
+  url: string; // 元のURL
+  id: string; // サービス内のID（SoundCloudはパス）
+  embedType?: string; // Spotifyの種類（track, album など）
+}
+
+/**
+ * 位置情報ノード
+ */
+export interface LocationNode extends BaseNode {
+  type: "location";
+  latitude: number; // 緯度（南緯は負）
+  longitude: number; // 経度（西経は負）
+  zoom: number; // 地図のズームレベル
+  name?: string; // 地名（座標の後ろのテキスト）
 }
 
 /**
@@ -77,6 +142,7 @@ export interface ImageNode extends BaseNode {
 export interface IconNode extends BaseNode {
   type: "icon";
   user: string;
+  count: number; // 繰り返し回数（[user.icon*3] なら3）
 }
 
 /**
@@ -97,26 +163,40 @@ export interface BoldNode extends BaseNode {
 }
 
 /**
- * 斜体ノード
- */
-export interface ItalicNode extends BaseNode {
-  type: "italic";
-  children: ParsedNode[];
-}
-
-/**
- * 打消し線ノード
+ * 装飾の種類
+ * 記号1文字ごとに対応する（*は太字、/は斜体など）
  */
-export interface StrikethroughNode extends BaseNode {
-  type: "strikethrough";
-  children: ParsedNode[];
-}
+export type DecorationStyle =
+  | "bold" // *
+  | "italic" // /
+  | "strikethrough" // -
+  | "underline" // _
+  | "exclamation" // !
+  | "quotation" // "
+  | "sharp" // #
+  | "percent" // %
+  | "ampersand" // &
+  | "apostrophe" // '
+  | "paren-open" // (
+  | "paren-close" // )
+  | "plus" // +
+  | "comma" // ,
+  | "period" // .
+  | "brace-open" // {
+  | "pipe" // |
+  | "brace-close" // }
+  | "less-than" // <
+  | "greater-than" // >
+  | "tilde"; // ~
 
 /**
- * 下線ノード
+ * 装飾ノード
+ * [-*_ text] のように複数の装飾記号を組み合わせた記法を1つのノードで表す
  */
-export interface UnderlineNode extends BaseNode {
-  type: "underline";
+export interface DecorationNode extends BaseNode {
+  type: "decoration";
+  styles: DecorationStyle[]; // 出現順、重複なし
+  level: number; // 太字レベル（*の数、太字でなければ0）
   children: ParsedNode[];
 }
 
@@ -145,12 +225,15 @@ export type ParsedNode =
   | ExternalLinkNode
   | ExternalProjectLinkNode
   | ImageNode
+  | ImageLinkNode
+  | VideoNode
+  | AudioNode
+  | EmbedNode
+  | LocationNode
   | IconNode
   | HashtagNode
   | BoldNode
-  | ItalicNode
-  | StrikethroughNode
-  | UnderlineNode
+  | DecorationNode
   | CodeNode
   | MathNode;
 
@@ -159,11 +242,25 @@ export type ParsedNode =
  */
 export interface ParsedLine {
   indent: number; // インデントレベル（スペース/タブ数）
+  indentText: string; // インデントの元の文字列（スペース/タブ）
+  prefix: string; // インデントとノードの間の行頭記号（"> ", "$ ", "? ", "1. " など）
   nodes: ParsedNode[];
+  start: number; // ページ内での開始位置（行を改行で連結したテキストでのオフセット）
+  end: number; // ページ内での終了位置（改行は含まない）
   isCodeBlock: boolean; // code:filename の行かどうか
-  codeBlockLang?: string; // コードブロックの言語
+  codeBlockFilename?: string; // コードブロックのファイル名（code:の後ろ）
+  codeBlockLang?: string; // コードブロックの言語（拡張子または名前、小文字）
   isCodeBlockContent: boolean; // コードブロックの内容行かどうか
   isQuote: boolean; // 引用ブロック（>で始まる行）かどうか
+  isTable: boolean; // table:name の行かどうか
+  tableName?: string; // テーブル名
+  isTableContent: boolean; // テーブルの行（セル）かどうか
+  tableCells?: ParsedNode[][]; // セルごとのノード（タブ区切り）
+  isNumberedList: boolean; // 番号付きリスト（インデント + 1. text）かどうか
+  listNumber?: number; // 記述された番号
+  isCommandLine: boolean; // コマンドライン（$ command / % command）かどうか
+  commandPrefix?: "$" | "%"; // コマンドラインのプロンプト記号
+  isHelpfeel: boolean; // Helpfeel（? 質問文）かどうか
 }
 
 /**
@@ -0,0 +1,64 @@
+/**
+ * プレーンテキスト抽出モジュール
+ * パース済みのノードや行から記法を除いたテキストを取り出す（HTML生成と検索インデックスで共通）
+ */
+import type { ParsedNode, ParsedLine } from "./line-types.js";
+
+/**
+ * ノードからプレーンテキストを抽出する（再帰的）
+ */
+export function extractTextFromNode(node: ParsedNode): string {
+  switch (node.type) {
+    case "text":
+      return node.text;
+    case "internal-link":
+      return node.title;
+    case "external-link":
+      return node.title;
+    case "external-project-link":
+      return node.page;
+    case "image":
+    case "image-link":
+    case "video":
+    case "audio":
+    case "embed":
+      return ""; // 画像・動画・音声・埋め込みはテキストなし
+    case "location":
+      return node.name || "";
+    case "icon":
+      return ""; // アイコンはテキストなし
+    case "hashtag":
+      return node.tag;
+    case "bold":
+    case "decoration":
+      return node.children.map(extractTextFromNode).join("");
+    case "code":
+      return node.code;
+    case "math":
+      return node.formula;
+    default:
+      return "";
+  }
+}
+
+/**
+ * パース済みの1行からプレーンテキストを抽出する
+ * @param cellSeparator テーブルの行のセルを連結する文字列（デフォルト: タブ）
+ */
+export function extractLineText(parsedLine: ParsedLine, cellSeparator: string = "\t"): string {
+  if (parsedLine.isTableContent && parsedLine.tableCells) {
+    // テーブルの行はセルごとにテキスト化して連結
+    return parsedLine.tableCells
+      .map((cell) => cell.map(extractTextFromNode).join(""))
+      .join(cellSeparator);
+  }
+  // コードブロック内はそのままテキストとして含める
+  return parsedLine.nodes.map(extractTextFromNode).join("");
+}
+
+/**
+ * パース済みの行からプレーンテキストを抽出する
+ */
+export function extractPlainText(parsedLines: ParsedLine[]): string {
+  return parsedLines.map((parsedLine) => extractLineText(parsedLine)).join("\n");
+}
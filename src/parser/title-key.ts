@@ -0,0 +1,29 @@
+/**
+ * ページタイトルの正規化モジュール
+ * Cosenseではタイトルの大文字・小文字を区別せず、空白と_を同一視してページを特定する
+ * （[Foo Bar] [foo_bar] #Foo_Bar は同じページ）
+ */
+
+/**
+ * タイトルの正規化キーを生成する
+ * リンク先の照合やファイル名に使い、表示には元のタイトルを使う
+ */
+export function toTitleKey(title: string): string {
+  return title.toLowerCase().replace(/\s/g, "_");
+}
+
+/**
+ * タイトルの一覧から正規化キーの索引を作成する
+ * 同じキーのタイトルが複数ある場合は最初のタイトルを使う
+ * @returns 正規化キー -> タイトル
+ */
+export function createTitleIndex(titles: Iterable<string>): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const title of titles) {
+    const key = toTitleKey(title);
+    if (!index.has(key)) {
+      index.set(key, title);
+    }
+  }
+  return index;
+}
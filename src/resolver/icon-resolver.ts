@@ -0,0 +1,47 @@
+/**
+ * アイコン解決モジュール
+ * Cosenseでは [name.icon] のアイコンは「name」というタイトルのページの最初の画像
+ * エクスポートされたページ自体からアイコン画像のURLを解決する
+ */
+import type { CosensePage } from "../parser/types.js";
+import { parseLines } from "../parser/line-parser.js";
+import { getLineText } from "../parser/types.js";
+
+/**
+ * ページの最初の画像URLを取得する（タイトル行は除く）
+ * @returns 画像URL。画像がない場合は null
+ */
+export function findFirstImageUrl(page: CosensePage): string | null {
+  const parsedLines = parseLines(page.lines.map(getLineText));
+
+  for (let i = 1; i < parsedLines.length; i++) {
+    const parsedLine = parsedLines[i];
+    if (parsedLine.isCodeBlockContent) {
+      continue;
+    }
+    for (const node of parsedLine.nodes) {
+      if (node.type === "image" || node.type === "image-link") {
+        return node.url;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * ページ配列からアイコン画像のマップを作成する
+ * @returns ページタイトル -> アイコン画像URL（画像のないページは含まない）
+ */
+export function resolveIconUrls(pages: CosensePage[]): Map<string, string> {
+  const iconUrls = new Map<string, string>();
+
+  for (const page of pages) {
+    const url = findFirstImageUrl(page);
+    if (url) {
+      iconUrls.set(page.title, url);
+    }
+  }
+
+  return iconUrls;
+}
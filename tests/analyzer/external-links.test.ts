@@ -0,0 +1,81 @@
+/**
+ * 外部リンク一覧のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { collectExternalLinks } from "../../src/analyzer/external-links.js";
+import type { CosensePage } from "../../src/parser/types.js";
+
+const createPage = (title: string, lines: string[]): CosensePage => ({
+  title,
+  created: Date.now(),
+  updated: Date.now(),
+  lines: [title, ...lines],
+});
+
+describe("collectExternalLinks", () => {
+  it("リンク・画像・動画・埋め込みを種類ごとに集める", () => {
+    const pages = [
+      createPage("ページ", [
+        "[https://example.com サンプル] https://example.org",
+        "[https://example.com/image.png]",
+        "[https://example.com/movie.mp4]",
+        "[https://www.youtube.com/watch?v=dQw4w9WgXcQ]",
+      ]),
+    ];
+
+    const entries = collectExternalLinks(pages);
+
+    expect(entries.map((e) => [e.kind, e.url])).toEqual([
+      ["link", "https://example.com"],
+      ["link", "https://example.org"],
+      ["image", "https://example.com/image.png"],
+      ["video", "https://example.com/movie.mp4"],
+      ["embed", "https://www.youtube.com/watch?v=dQw4w9WgXcQ"],
+    ]);
+  });
+
+  it("出現回数と出現したページをまとめる", () => {
+    const pages = [
+      createPage("ページ1", ["https://example.com", "[https://example.com]"]),
+      createPage("ページ2", ["[* https://example.com]"]),
+    ];
+
+    const [entry] = collectExternalLinks(pages);
+
+    expect(entry).toEqual({
+      url: "https://example.com",
+      kind: "link",
+      pages: ["ページ1", "ページ2"],
+      count: 3,
+    });
+  });
+
+  it("リンク付き画像は画像とリンクの両方を集める", () => {
+    const pages = [
+      createPage("ページ", ["[https://example.com/image.png https://example.com]"]),
+    ];
+
+    const entries = collectExternalLinks(pages);
+
+    expect(entries.map((e) => e.kind)).toEqual(["image", "link"]);
+  });
+
+  it("括弧なしの画像URLはオプション指定時のみ画像として扱う", () => {
+    const pages = [createPage("ページ", ["https://gyazo.com/abc123"])];
+
+    expect(collectExternalLinks(pages)[0].kind).toBe("link");
+    expect(collectExternalLinks(pages, { bareImageUrls: true })[0].kind).toBe("image");
+  });
+
+  it("コードブロック内やローカルパスは対象外", () => {
+    const pages = [
+      createPage("ページ", [
+        "code:a.txt",
+        " [https://example.com]",
+        "[../assets/images/a.png]",
+      ]),
+    ];
+
+    expect(collectExternalLinks(pages)).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * リンクグラフの分析のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  analyzeLinkGraph,
+  computePageRank,
+  findConnectedComponents,
+  formatGraphReport,
+} from "../../src/analyzer/graph-report.js";
+import { buildLinkGraph } from "../../src/analyzer/link-analyzer.js";
+import type { CosensePage } from "../../src/parser/types.js";
+
+const createPage = (title: string, lines: string[]): CosensePage => ({
+  title,
+  created: Date.now(),
+  updated: Date.now(),
+  lines: [title, ...lines],
+});
+
+const pages: CosensePage[] = [
+  createPage("入口", ["[ハブ] [未作成]"]),
+  createPage("ページA", ["[ハブ] [未作成]"]),
+  createPage("ハブ", ["[ページA]"]),
+  createPage("孤立", ["リンクなし"]),
+  createPage("島1", ["[島2]"]),
+  createPage("島2", []),
+];
+
+describe("analyzeLinkGraph", () => {
+  const report = analyzeLinkGraph(buildLinkGraph(pages));
+
+  it("ページ数とリンク数を数える", () => {
+    expect(report.pageCount).toBe(6);
+    expect(report.linkCount).toBe(6);
+  });
+
+  it("リンク先もリンク元もないページを孤立したページとする", () => {
+    expect(report.orphans).toEqual(["孤立"]);
+  });
+
+  it("リンク元のないページを取得する", () => {
+    expect(report.outboundOnly).toEqual(["入口", "島1"]);
+  });
+
+  it("リンク元の多い順にハブを取得する", () => {
+    expect(report.hubs).toEqual([
+      { title: "ハブ", inDegree: 2 },
+      { title: "ページA", inDegree: 1 },
+      { title: "島2", inDegree: 1 },
+    ]);
+  });
+
+  it("存在しないリンク先をリンク元の数とともに取得する", () => {
+    expect(report.missingTargets).toEqual([{ title: "未作成", inDegree: 2 }]);
+  });
+
+  it("上位の件数を指定できる", () => {
+    const limited = analyzeLinkGraph(buildLinkGraph(pages), { top: 1 });
+
+    expect(limited.hubs).toHaveLength(1);
+    expect(limited.pageRank).toHaveLength(1);
+  });
+
+  it("テキストのレポートに整形できる", () => {
+    const text = formatGraphReport(report, 1);
+
+    expect(text).toContain("ページ数: 6");
+    expect(text).toContain("孤立したページ (1)\n  - 孤立");
+    expect(text).toContain("リンク元のないページ (2)\n  - 入口\n  ... 他 1 件");
+  });
+});
+
+describe("computePageRank", () => {
+  it("スコアの合計は1になる", () => {
+    const ranks = computePageRank(buildLinkGraph(pages));
+    const total = Array.from(ranks.values()).reduce((sum, score) => sum + score, 0);
+
+    expect(total).toBeCloseTo(1, 6);
+  });
+
+  it("多くリンクされているページほどスコアが高い", () => {
+    const ranks = computePageRank(buildLinkGraph(pages));
+
+    expect(ranks.get("ハブ")!).toBeGreaterThan(ranks.get("入口")!);
+    expect(ranks.get("未作成")!).toBeGreaterThan(ranks.get("孤立")!);
+  });
+
+  it("ページがない場合は空のマップを返す", () => {
+    expect(computePageRank(buildLinkGraph([])).size).toBe(0);
+  });
+});
+
+describe("findConnectedComponents", () => {
+  it("リンクの向きを無視してつながっているページをまとめる（大きい順）", () => {
+    const components = findConnectedComponents(buildLinkGraph(pages));
+
+    expect(components).toEqual([
+      ["ページA", "ハブ", "入口", "未作成"].sort((a, b) => a.localeCompare(b)),
+      ["島1", "島2"],
+      ["孤立"],
+    ]);
+  });
+});
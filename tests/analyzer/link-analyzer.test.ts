@@ -6,7 +6,10 @@ import {
   buildLinkGraph,
   get1HopLinks,
   get2HopLinks,
+  get2HopGroups,
   getBackLinks,
+  getMissingPages,
+  getTaggedPages,
   type LinkGraph,
 } from "../../src/analyzer/link-analyzer.js";
 import type { CosensePage } from "../../src/parser/types.js";
@@ -39,6 +42,12 @@ describe("buildLinkGraph", () => {
     expect(graph.backLinks.get("ページC")).toContain("ページB");
   });
 
+  it("存在するページだけの正規化キーの索引を持つ", () => {
+    const graph = buildLinkGraph([createPage("Foo Bar", ["[未作成]"])]);
+
+    expect(graph.pageIndex).toEqual(new Map([["foo_bar", "Foo Bar"]]));
+  });
+
   it("複数リンクを正しく解析する", () => {
     const pages: CosensePage[] = [
       createPage("ページA", ["[ページB]と[ページC]へのリンク"]),
@@ -64,6 +73,57 @@ describe("buildLinkGraph", () => {
     expect(graph.forwardLinks.get("ページA")).toContain("タグ1");
   });
 
+  it("テーブルのセル内のリンクも扱う", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["table:一覧", " [ページB]\t#タグ1"]),
+      createPage("ページB", []),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(graph.forwardLinks.get("ページA")).toContain("ページB");
+    expect(graph.forwardLinks.get("ページA")).toContain("タグ1");
+    expect(graph.backLinks.get("ページB")).toContain("ページA");
+  });
+
+  it("装飾の中の入れ子のリンクも扱う", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["[* 詳しくは[ページB]へ]", "[[太字 #タグ1]]"]),
+      createPage("ページB", []),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(graph.forwardLinks.get("ページA")).toContain("ページB");
+    expect(graph.forwardLinks.get("ページA")).toContain("タグ1");
+  });
+
+  it("表記の揺れのあるリンクを同じページにまとめる", () => {
+    const pages: CosensePage[] = [
+      createPage("Foo Bar", []),
+      createPage("ページA", ["[foo_bar]"]),
+      createPage("ページB", ["#FOO_BAR と [Foo Bar]"]),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(graph.forwardLinks.get("ページA")).toEqual(new Set(["Foo Bar"]));
+    expect(graph.forwardLinks.get("ページB")).toEqual(new Set(["Foo Bar"]));
+    expect(graph.backLinks.get("Foo Bar")).toEqual(new Set(["ページA", "ページB"]));
+  });
+
+  it("存在しないページへの表記の揺れは最初の表記にまとめる", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["[New Page]"]),
+      createPage("ページB", ["[new_page]"]),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(graph.forwardLinks.get("ページB")).toEqual(new Set(["New Page"]));
+    expect(graph.backLinks.get("New Page")).toEqual(new Set(["ページA", "ページB"]));
+  });
+
   it("存在しないページへのリンクも記録する", () => {
     const pages: CosensePage[] = [
       createPage("ページA", ["[存在しないページ]へのリンク"]),
@@ -84,7 +144,25 @@ describe("buildLinkGraph", () => {
 
     const contexts = graph.linkContexts.get("ページA")?.get("ページB");
     expect(contexts).toBeDefined();
-    expect(contexts?.[0]).toContain("ページB");
+    expect(contexts?.[0].text).toContain("ページB");
+  });
+
+  it("同じ行に同じページへのリンクが複数あってもコンテキスト行は1回だけ保存する", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", [
+        "[missing page] と [missing page]",
+        "[Missing_Page] と [missing page]",
+        "別の行 [missing page]",
+      ]),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(graph.linkContexts.get("ページA")?.get("missing page")?.map((c) => c.text)).toEqual([
+      "[missing page] と [missing page]",
+      "[Missing_Page] と [missing page]",
+      "別の行 [missing page]",
+    ]);
   });
 });
 
@@ -180,6 +258,71 @@ describe("get2HopLinks", () => {
   });
 });
 
+describe("get2HopGroups", () => {
+  it("橋渡しするページごとに2ホップ先をまとめる", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["[ページB] #タグ"]),
+      createPage("ページB", ["[ページC]"]),
+      createPage("ページC", []),
+      createPage("ページD", ["#タグ"]),
+    ];
+
+    const graph = buildLinkGraph(pages);
+    const groups = get2HopGroups(graph, "ページA");
+
+    expect(groups.map((g) => g.via)).toEqual(["ページB", "タグ"]);
+    expect(groups[0].pages.map((p) => p.title)).toEqual(["ページC"]);
+    expect(groups[1].pages.map((p) => p.title)).toEqual(["ページD"]);
+  });
+
+  it("2ホップ先のない橋渡しページや存在しないページは含めない", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["[ページB] [未作成]"]),
+      createPage("ページB", ["[未作成2]"]),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(get2HopGroups(graph, "ページA")).toEqual([]);
+  });
+
+  it("共通するリンクの多いページを上位にする", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["#タグ1 #タグ2"]),
+      createPage("ページB", ["#タグ1"]),
+      createPage("ページC", ["#タグ1 #タグ2"]),
+    ];
+
+    const graph = buildLinkGraph(pages);
+    const groups = get2HopGroups(graph, "ページA");
+
+    expect(groups[0].pages.map((p) => p.title)).toEqual(["ページC", "ページB"]);
+    expect(groups[0].pages[0].sharedLinks).toBe(2);
+    expect(groups[1].pages.map((p) => p.title)).toEqual(["ページC"]);
+  });
+
+  it("共通するリンクの数が同じなら新しく更新されたページや閲覧数の多いページを上位にする", () => {
+    const page = (title: string, updated: number, views: number): CosensePage => ({
+      title,
+      created: 0,
+      updated,
+      views,
+      lines: [title, "#タグ"],
+    });
+    const pages: CosensePage[] = [
+      page("ページA", 100, 0),
+      page("古いページ", 100, 0),
+      page("新しいページ", 200, 0),
+      page("人気のページ", 150, 50),
+    ];
+
+    const graph = buildLinkGraph(pages);
+    const [group] = get2HopGroups(graph, "ページA");
+
+    expect(group.pages.map((p) => p.title)).toEqual(["人気のページ", "新しいページ", "古いページ"]);
+  });
+});
+
 describe("getBackLinks", () => {
   it("バックリンクの一覧を取得できる", () => {
     const pages: CosensePage[] = [
@@ -204,3 +347,70 @@ describe("getBackLinks", () => {
     expect(backLinks).toEqual([]);
   });
 });
+
+describe("getMissingPages", () => {
+  it("リンクされているが存在しないページをリンク元の多い順に取得できる", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["[未作成1] [未作成2] [ページB]"]),
+      createPage("ページB", ["[未作成2]"]),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(getMissingPages(graph)).toEqual(["未作成2", "未作成1"]);
+  });
+
+  it("リンク元の数の下限を指定できる", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["[未作成1] [未作成2]"]),
+      createPage("ページB", ["[未作成2]"]),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(getMissingPages(graph, 2)).toEqual(["未作成2"]);
+  });
+
+  it("存在するページやリンクされていないページは含まない", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["[ページB]"]),
+      createPage("ページB", []),
+    ];
+
+    const graph = buildLinkGraph(pages);
+
+    expect(getMissingPages(graph)).toEqual([]);
+  });
+});
+
+describe("getTaggedPages", () => {
+  it("ハッシュタグごとにタグが付いているページを更新日時の新しい順に取得する", () => {
+    const page = (title: string, updated: number, line: string): CosensePage => ({
+      title,
+      created: 0,
+      updated,
+      lines: [title, line],
+    });
+    const pages: CosensePage[] = [
+      page("古いページ", 100, "#会議 [リンク]"),
+      page("新しいページ", 200, "#会議 #メモ"),
+    ];
+
+    const tagged = getTaggedPages(buildLinkGraph(pages));
+
+    expect(Array.from(tagged.keys())).toEqual(["会議", "メモ"]);
+    expect(tagged.get("会議")).toEqual(["新しいページ", "古いページ"]);
+    expect(tagged.has("リンク")).toBe(false);
+  });
+
+  it("表記の揺れのあるタグを同じタグにまとめる", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["#Meeting_Notes"]),
+      createPage("ページB", ["#meeting_notes"]),
+    ];
+
+    const tagged = getTaggedPages(buildLinkGraph(pages));
+
+    expect(tagged.get("Meeting_Notes")).toHaveLength(2);
+  });
+});
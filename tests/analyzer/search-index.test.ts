@@ -2,12 +2,26 @@
  * 検索インデックス生成のユニットテスト
  */
 import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import * as vm from "vm";
 import {
   buildSearchIndex,
+  buildSearchShards,
+  highlightSearchTerms,
+  normalizeSearchText,
+  parseSearchQuery,
   search,
+  serializeSearchShards,
+  tokenize,
   type SearchIndex,
   type SearchResult,
 } from "../../src/analyzer/search-index.js";
+import { createSearchEngine } from "../../src/analyzer/search-engine.js";
+import { generateSearchJS } from "../../src/generator/js-generator.js";
+import { generatePageFilename } from "../../src/generator/routing.js";
 import type { CosensePage } from "../../src/parser/types.js";
 
 const createPage = (
@@ -32,26 +46,19 @@ describe("buildSearchIndex", () => {
 
     expect(index.pages).toHaveLength(2);
     expect(index.pages[0].title).toBe("テストページ");
-    expect(index.pages[0].content).toContain("テスト内容");
+    expect(index.pages[0].excerpt).toBe("これはテスト内容です");
+    expect(search(index, "テスト内容").map((r) => r.title)).toEqual(["テストページ"]);
   });
 
-  it("Cosense記法を除去してプレーンテキストを抽出する", () => {
+  it("Helpfeelの質問文を含む", () => {
     const pages: CosensePage[] = [
-      createPage("ページ", [
-        "[リンク]と#タグと`コード`を含む行",
-        "[* 太字]と[/ 斜体]の装飾",
-      ]),
+      createPage("ページ", ["? 画像を保存するには", "本文"]),
     ];
 
     const index = buildSearchIndex(pages);
-    const content = index.pages[0].content;
 
-    // リンクやタグのテキストは残るが、記法の記号は除去される
-    expect(content).toContain("リンク");
-    expect(content).toContain("タグ");
-    expect(content).toContain("コード");
-    expect(content).toContain("太字");
-    expect(content).toContain("斜体");
+    expect(index.pages[0].helpfeels).toEqual(["画像を保存するには"]);
+    expect(search(index, "画像を保存するには")[0].matchType).toBe("helpfeel");
   });
 
   it("作成日時と更新日時を含む", () => {
@@ -67,6 +74,45 @@ describe("buildSearchIndex", () => {
     expect(index.pages[0].created).toBe(1700000000);
     expect(index.pages[0].updated).toBe(1700000001);
   });
+
+  it("ページのIDとURLを含む（IDがないページは正規化キーから作る）", () => {
+    const pages: CosensePage[] = [{ ...createPage("ページ", ["内容"]), id: "abc" }, createPage("Foo Bar", ["内容"])];
+
+    const index = buildSearchIndex(pages);
+
+    expect(index.pages[0].id).toBe("abc");
+    expect(index.pages[1].id).toBe(buildSearchIndex([createPage("foo_bar", [])]).pages[0].id);
+    expect(index.pages[1].url).toBe("pages/foo_bar.html");
+    expect(index.urls).toEqual(index.pages.map((entry) => entry.url));
+  });
+
+  it("すべてのページのURLが出力されるファイルを指す", () => {
+    const pages: CosensePage[] = [
+      createPage("A/B", ["内容"]),
+      createPage("C?#%&+", ["内容"]),
+      createPage("Foo Bar", ["内容"]),
+      createPage("あ".repeat(100), ["内容"]),
+      createPage("日本語 のページ", ["内容"]),
+    ];
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "search-url-"));
+    try {
+      // ビルドと同じく pages/ にページのファイルを書き出す
+      fs.mkdirSync(path.join(root, "pages"));
+      for (const page of pages) {
+        fs.writeFileSync(path.join(root, "pages", generatePageFilename(page.title)), "");
+      }
+
+      const index = buildSearchIndex(pages);
+
+      for (const entry of index.pages) {
+        // ブラウザと同じくサイトのルートからURLを解決する
+        const file = fileURLToPath(new URL(entry.url, pathToFileURL(root + path.sep)));
+        expect(fs.existsSync(file), entry.title).toBe(true);
+      }
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
 });
 
 describe("search", () => {
@@ -85,6 +131,15 @@ describe("search", () => {
     expect(results.map((r) => r.title)).toContain("Python入門");
   });
 
+  it("タイトルは大文字・小文字、空白と_を区別せずに検索できる", () => {
+    const pages: CosensePage[] = [createPage("Foo Bar", ["本文"])];
+
+    const index = buildSearchIndex(pages);
+
+    expect(search(index, "foo_bar")[0]).toMatchObject({ title: "Foo Bar", matchType: "title" });
+    expect(search(index, "FOO BAR")[0].title).toBe("Foo Bar");
+  });
+
   it("本文に一致するページを検索できる", () => {
     const pages: CosensePage[] = [
       createPage("ページA", ["これはTypeScriptの説明"]),
@@ -156,9 +211,658 @@ describe("search", () => {
     // 「入門」と「型」の両方を含むページ
     expect(results.length).toBeGreaterThanOrEqual(1);
     results.forEach((result) => {
-      const fullText = result.title + result.content;
+      const page = pages.find((p) => p.title === result.title)!;
+      const fullText = page.lines.join("\n");
       expect(fullText.toLowerCase()).toContain("入門");
       expect(fullText.toLowerCase()).toContain("型");
     });
   });
+
+  it("Helpfeelに一致するページを優先する", () => {
+    const pages: CosensePage[] = [
+      createPage("ページA", ["画像の保存について", "保存方法の説明"]),
+      createPage("ページB", ["? 画像を保存するには"]),
+    ];
+
+    const index = buildSearchIndex(pages);
+    const results = search(index, "画像 保存");
+
+    expect(results[0].title).toBe("ページB");
+    expect(results[0].matchType).toBe("helpfeel");
+    expect(results[0].snippet).toBe("画像を保存するには");
+  });
+});
+
+describe("検索語の正規化と分割", () => {
+  it("全角・半角、大文字・小文字、カタカナ・ひらがなを揃える", () => {
+    expect(normalizeSearchText("ＴｙｐｅＳｃｒｉｐｔ")).toBe("typescript");
+    expect(normalizeSearchText("ｶﾀｶﾅ")).toBe("かたかな");
+    expect(normalizeSearchText("コーヒー")).toBe("こーひー");
+  });
+
+  it("漢字・かなはバイグラム、英数字は単語に分割する", () => {
+    expect(tokenize("検索エンジン")).toEqual(["検索", "索え", "えん", "んじ", "じん"]);
+    expect(tokenize("TypeScriptの型")).toEqual(["typescript", "の型"]);
+    expect(tokenize("型 v2.0")).toEqual(["型", "v2", "0"]);
+  });
+});
+
+describe("転置インデックスによる検索", () => {
+  const pages: CosensePage[] = [
+    createPage("コーヒーの淹れ方", ["ハンドドリップで淹れる"]),
+    createPage("紅茶", ["コーヒーより紅茶が好き"]),
+    createPage("Programming", ["TypeScript and JavaScript"]),
+    createPage("雑記", ["コーヒー コーヒー コーヒー"]),
+  ];
+  const index = buildSearchIndex(pages);
+
+  it("インデックスに本文を含めない（先頭の抜粋だけを含む）", () => {
+    const longIndex = buildSearchIndex([createPage("長いページ", ["あ".repeat(120), "末尾の段落"])]);
+    const json = Array.from(serializeSearchShards(buildSearchShards(longIndex)).values()).join("\n");
+
+    expect(longIndex.pages[0].excerpt).toBe(`${"あ".repeat(100)}...`);
+    expect(json).not.toContain("末尾の段落");
+    expect(search(longIndex, "末尾の段落").map((r) => r.title)).toEqual(["長いページ"]);
+  });
+
+  it("カタカナとひらがな、全角と半角を区別せずに検索できる", () => {
+    expect(search(index, "こーひー").map((r) => r.title)).toContain("コーヒーの淹れ方");
+    expect(search(index, "ｺｰﾋｰ").map((r) => r.title)).toContain("紅茶");
+    expect(search(index, "ＴＹＰＥＳＣＲＩＰＴ").map((r) => r.title)).toEqual(["Programming"]);
+  });
+
+  it("英数字は前方一致で検索できる", () => {
+    expect(search(index, "java").map((r) => r.title)).toEqual(["Programming"]);
+  });
+
+  it("漢字1文字でも検索できる", () => {
+    expect(search(index, "茶").map((r) => r.title)).toEqual(["紅茶"]);
+  });
+
+  it("タイトルに一致したページ、次に本文に多く含むページの順に並べる", () => {
+    const titles = search(index, "コーヒー").map((r) => r.title);
+
+    expect(titles).toEqual(["コーヒーの淹れ方", "雑記", "紅茶"]);
+  });
+
+  it("記号だけの検索語は無視する", () => {
+    expect(search(index, "!!!")).toEqual([]);
+    expect(search(index, "紅茶 !!!").map((r) => r.title)).toEqual(["紅茶"]);
+  });
+});
+
+describe("ブラウザの検索", () => {
+  type Listener = (this: unknown, event: Record<string, unknown>) => void;
+
+  /**
+   * addEventListener と属性を持つ最小限の要素
+   */
+  function createElement<T extends object>(properties: T = {} as T) {
+    const listeners: Record<string, Listener> = {};
+    const attributes: Record<string, string> = {};
+    const classes = new Set<string>();
+    return {
+      ...properties,
+      innerHTML: "",
+      textContent: "",
+      listeners,
+      attributes,
+      classes,
+      addEventListener: (type: string, listener: Listener) => {
+        listeners[type] = listener;
+      },
+      setAttribute: (name: string, value: string) => {
+        attributes[name] = value;
+      },
+      removeAttribute: (name: string) => {
+        delete attributes[name];
+      },
+      classList: { add: (name: string) => classes.add(name), remove: (name: string) => classes.delete(name) },
+    };
+  }
+
+  /**
+   * 非同期の読み込みが終わるのを待つ
+   */
+  async function flush() {
+    for (let i = 0; i < 10; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  /**
+   * 生成した search.js を最小限のDOMで実行する
+   * query を指定するとヘッダーの検索欄に入力し、pageSearch を指定すると検索結果ページとして表示する
+   */
+  async function runSearchJS(
+    index: SearchIndex,
+    options: { query?: string; pageSearch?: string; shardSize?: number }
+  ) {
+    const files = serializeSearchShards(buildSearchShards(index, { shardSize: options.shardSize }));
+    const fetched: string[] = [];
+    const focused: string[] = [];
+    const input = createElement({
+      value: options.query ?? "",
+      focus: () => focused.push("search-input"),
+      select: () => {},
+      closest: () => container,
+    });
+    const container = createElement({ contains: (element: unknown) => element === input });
+    const results = createElement();
+    const status = createElement();
+    const optionElements: Record<string, ReturnType<typeof createElement>> = {};
+    const documentListeners: Record<string, Listener> = {};
+    const location = {
+      pathname: options.pageSearch !== undefined ? "/search.html" : "/index.html",
+      search: options.pageSearch ?? "",
+      href: "",
+    };
+    const pageElements: Record<string, { textContent: string; innerHTML: string }> = {
+      ".search-page-summary": { textContent: "", innerHTML: "" },
+      ".search-page-results": { textContent: "", innerHTML: "" },
+      ".search-pagination": { textContent: "", innerHTML: "" },
+    };
+    const elements: Record<string, unknown> = {
+      "search-input": input,
+      "search-results": results,
+      "search-status": status,
+      ...(options.pageSearch !== undefined
+        ? {
+            "search-page": { querySelector: (selector: string) => pageElements[selector] },
+            "search-page-input": { value: "" },
+          }
+        : {}),
+    };
+    const context = vm.createContext({
+      window: { location },
+      document: {
+        readyState: "complete",
+        title: "検索",
+        addEventListener: (type: string, listener: Listener) => {
+          documentListeners[type] = listener;
+        },
+        // 検索結果の選択肢は表示中のHTMLに含まれる場合だけ返す
+        getElementById: (id: string) =>
+          elements[id] ??
+          (id.startsWith("search-option-") && results.innerHTML.includes(`id="${id}"`)
+            ? (optionElements[id] ??= createElement())
+            : null),
+        createElement: () => {
+          let html = "";
+          return {
+            set textContent(text: string) {
+              html = text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+            },
+            get innerHTML() {
+              return html;
+            },
+          };
+        },
+      },
+      URLSearchParams,
+      fetch: async (url: string) => {
+        const file = url.replace("./search/", "");
+        fetched.push(file);
+        return { json: async () => JSON.parse(files.get(file)!) };
+      },
+      setTimeout: (callback: () => void) => callback(),
+      clearTimeout: () => {},
+      console,
+    });
+    vm.runInContext(generateSearchJS(), context);
+    if (options.query !== undefined) {
+      input.listeners.input.call(input, {});
+    }
+    await flush();
+
+    // 検索欄でキーを押す（既定の動作を止めたかを返す）
+    const press = (key: string, event: Record<string, unknown> = {}) => {
+      let prevented = false;
+      input.listeners.keydown.call(input, { key, preventDefault: () => (prevented = true), ...event });
+      return prevented;
+    };
+    // 検索欄以外でキーを押す
+    const pressOnDocument = (key: string, target: Record<string, unknown> = { tagName: "BODY" }) => {
+      let prevented = false;
+      documentListeners.keydown({ key, target, preventDefault: () => (prevented = true) });
+      return prevented;
+    };
+    return {
+      dropdown: results.innerHTML,
+      pageElements,
+      fetched,
+      input,
+      results,
+      container,
+      status,
+      optionElements,
+      location,
+      focused,
+      press,
+      pressOnDocument,
+    };
+  }
+
+  /**
+   * 検索結果のHTMLからタイトルを取り出す（強調表示のタグは除く）
+   */
+  function extractTitles(html: string, className: string): string[] {
+    return Array.from(
+      html.matchAll(new RegExp(`class="${className}"[^>]*>([\\s\\S]*?)</(?:div|a|span)>`, "g")),
+      (match) => match[1].replace(/<[^>]+>/g, "")
+    );
+  }
+
+  /**
+   * ヘッダーの検索欄に入力し、表示された検索結果のタイトルを返す
+   */
+  async function searchInBrowser(
+    index: SearchIndex,
+    query: string,
+    shardSize?: number
+  ): Promise<{ titles: string[]; fetched: string[] }> {
+    const { dropdown, fetched } = await runSearchJS(index, { query, shardSize });
+    return { titles: extractTitles(dropdown, "search-result-title"), fetched };
+  }
+
+  const pages: CosensePage[] = [
+    createPage("コーヒーの淹れ方", ["ハンドドリップ", "? コーヒーを淹れるには", "#飲み物"], {
+      updated: 1690000000,
+    }),
+    createPage("紅茶", ["コーヒーより紅茶 #飲み物"], { updated: 1680000000 }),
+    createPage("雑記", ["コーヒー コーヒー", "[コーヒーの淹れ方]"], { updated: 1700000000 }),
+    createPage("Coffee Beans", ["コーヒー豆の種類"], { updated: 1670000000 }),
+  ];
+
+  it("サーバー側の search() と同じ順位で検索結果を表示する", async () => {
+    const index = buildSearchIndex(pages);
+
+    for (const query of [
+      "コーヒー",
+      "ｺｰﾋｰ 淹れ",
+      "coffee",
+      "紅茶",
+      "茶",
+      "コーヒー -紅茶",
+      "title:コーヒー",
+      '"コーヒー豆"',
+      "tag:飲み物",
+      "コーヒー updated:>=2023-06-01",
+    ]) {
+      const expected = search(index, query).map((r: SearchResult) => r.title);
+
+      expect(expected.length).toBeGreaterThan(0);
+      expect((await searchInBrowser(index, query)).titles).toEqual(expected);
+      // シャードを細かく分けても同じ結果になる
+      expect((await searchInBrowser(index, query, 64)).titles).toEqual(expected);
+    }
+  });
+
+  it("検索語に必要なシャードだけを読み込む", async () => {
+    const index = buildSearchIndex(pages);
+    const { manifest } = buildSearchShards(index, { shardSize: 64 });
+    const { fetched } = await searchInBrowser(index, "紅茶", 64);
+    const shardFiles = fetched.filter((file) => file.startsWith("shard-"));
+
+    expect(manifest.shardCount).toBeGreaterThan(2);
+    expect(fetched).toContain("manifest.json");
+    expect(fetched).toContain("titles.json");
+    expect(shardFiles.length).toBeLessThanOrEqual(2);
+  });
+
+  it("絞り込みに使う場合だけタグと日時を読み込む", async () => {
+    const index = buildSearchIndex(pages);
+
+    expect((await runSearchJS(index, { query: "コーヒー" })).fetched).not.toContain("tags.json");
+    expect((await runSearchJS(index, { query: "tag:飲み物" })).fetched).toEqual(
+      expect.arrayContaining(["tags.json", "dates.json"])
+    );
+  });
+
+  it("検索結果のリンクにはインデックスのページのURLを使う", async () => {
+    const index = buildSearchIndex([createPage("日記/2024", ["本文"]), createPage("日記" + "あ".repeat(100), ["本文"])]);
+    const { dropdown } = await runSearchJS(index, { query: "日記" });
+
+    for (const entry of index.pages) {
+      expect(dropdown).toContain(`href="./${entry.url}"`);
+    }
+    expect(index.pages[1].url).toMatch(/^pages\/page_[0-9a-f]{32}\.html$/);
+  });
+
+  it("検索語をすべて強調表示する", async () => {
+    const { dropdown } = await runSearchJS(buildSearchIndex(pages), { query: "淹れ コーヒー" });
+
+    expect(dropdown).toContain("<mark>コーヒー</mark>の<mark>淹れ</mark>方");
+  });
+
+  it("検索結果はコンボボックスの選択肢のリンクとして表示する", async () => {
+    const index = buildSearchIndex(pages);
+    const { dropdown, input, status } = await runSearchJS(index, { query: "コーヒー" });
+    const count = search(index, "コーヒー").length;
+
+    expect(dropdown).toContain(
+      `<a class="search-result-item" id="search-option-0" href="./${index.pages[0].url}" role="option"`
+    );
+    expect(dropdown).toContain('id="search-option-more" href="./search.html?q=');
+    expect(input.attributes["aria-expanded"]).toBe("true");
+    expect(status.textContent).toBe(`${count} 件の検索結果があります。上下キーで選択できます`);
+  });
+
+  it("一致しない場合はライブリージョンで伝える", async () => {
+    const { dropdown, status } = await runSearchJS(buildSearchIndex(pages), { query: "存在しない語" });
+
+    expect(dropdown).toContain('<div class="search-result-empty">検索結果がありません</div>');
+    expect(status.textContent).toBe("検索結果がありません");
+  });
+
+  it("上下キーで選択肢を移動し、Enterで選択したページを開く", async () => {
+    const index = buildSearchIndex(pages);
+    const { input, optionElements, location, press } = await runSearchJS(index, { query: "コーヒー" });
+    const expected = search(index, "コーヒー");
+
+    expect(expected.length).toBeGreaterThan(1);
+    expect(press("ArrowDown")).toBe(true);
+    expect(input.attributes["aria-activedescendant"]).toBe("search-option-0");
+    expect(optionElements["search-option-0"].attributes["aria-selected"]).toBe("true");
+
+    press("ArrowDown");
+    expect(input.attributes["aria-activedescendant"]).toBe("search-option-1");
+    expect(optionElements["search-option-0"].attributes["aria-selected"]).toBe("false");
+
+    // 先頭から上に移動すると「すべての検索結果を見る」、さらに最後の次は検索欄に戻る
+    press("ArrowUp");
+    press("ArrowUp");
+    press("ArrowUp");
+    expect(input.attributes["aria-activedescendant"]).toBe("search-option-more");
+    press("ArrowDown");
+    expect(input.attributes["aria-activedescendant"]).toBeUndefined();
+
+    press("ArrowDown");
+    press("ArrowDown");
+    press("Enter");
+    expect(location.href).toBe(`./${expected[1].url}`);
+  });
+
+  it("選択していない場合のEnterは検索結果ページを開き、変換中のキーは扱わない", async () => {
+    const { location, press } = await runSearchJS(buildSearchIndex(pages), { query: "コーヒー" });
+
+    expect(press("Enter", { isComposing: true })).toBe(false);
+    expect(location.href).toBe("");
+    press("Enter");
+    expect(location.href).toBe(`./search.html?q=${encodeURIComponent("コーヒー")}`);
+  });
+
+  it("Escapeで閉じ、閉じている場合は入力を消す", async () => {
+    const { input, results, press } = await runSearchJS(buildSearchIndex(pages), { query: "コーヒー" });
+
+    press("ArrowDown");
+    press("Escape");
+    expect(input.attributes["aria-expanded"]).toBe("false");
+    expect(input.attributes["aria-activedescendant"]).toBeUndefined();
+    expect(results.classes.has("active")).toBe(false);
+    expect(input.value).toBe("コーヒー");
+
+    press("Escape");
+    expect(input.value).toBe("");
+  });
+
+  it("検索欄と検索結果の外にフォーカスが移ったら閉じる", async () => {
+    const { input, container } = await runSearchJS(buildSearchIndex(pages), { query: "コーヒー" });
+
+    container.listeners.focusout.call(container, { relatedTarget: input });
+    expect(input.attributes["aria-expanded"]).toBe("true");
+    container.listeners.focusout.call(container, { relatedTarget: null });
+    expect(input.attributes["aria-expanded"]).toBe("false");
+  });
+
+  it("/ で検索欄にフォーカスする（入力欄では除く）", async () => {
+    const { focused, pressOnDocument } = await runSearchJS(buildSearchIndex(pages), { query: "" });
+
+    expect(pressOnDocument("/", { tagName: "TEXTAREA" })).toBe(false);
+    expect(focused).toEqual([]);
+    expect(pressOnDocument("/")).toBe(true);
+    expect(focused).toEqual(["search-input"]);
+  });
+
+  it("検索結果ページに ?q= の検索結果とページ番号のリンクを表示する", async () => {
+    const many = Array.from({ length: 45 }, (_, i) =>
+      createPage(`メモ${String(i).padStart(2, "0")}`, ["共通の本文"])
+    );
+    const index = buildSearchIndex(many);
+    const { pageElements } = await runSearchJS(index, { pageSearch: "?q=%E5%85%B1%E9%80%9A&page=2" });
+    const expected = search(index, "共通")
+      .slice(20, 40)
+      .map((r) => r.title);
+
+    expect(pageElements[".search-page-summary"].textContent).toBe("45 件中 21〜40 件目");
+    expect(extractTitles(pageElements[".search-page-results"].innerHTML, "search-page-result-title")).toEqual(
+      expected
+    );
+    const pagination = pageElements[".search-pagination"].innerHTML;
+    expect(pagination).toContain('<a href="./search.html?q=%E5%85%B1%E9%80%9A" rel="prev">前へ</a>');
+    expect(pagination).toContain('<span class="search-pagination-current" aria-current="page">2</span>');
+    expect(pagination).toContain('<a href="./search.html?q=%E5%85%B1%E9%80%9A&page=3" rel="next">次へ</a>');
+  });
+});
+
+describe("buildSearchShards", () => {
+  const pages: CosensePage[] = Array.from({ length: 12 }, (_, i) =>
+    createPage(`ページ${i}`, [`本文${i} common text`, "漢字とかなの文章"])
+  );
+  const index = buildSearchIndex(pages);
+
+  it("目安の大きさに応じてシャードの数を決める", () => {
+    expect(buildSearchShards(index).manifest.shardCount).toBe(1);
+    expect(buildSearchShards(index, { shardSize: 100 }).manifest.shardCount).toBeGreaterThan(1);
+  });
+
+  it("検索語の語に一致する語はすべて検索語のシャードにある", () => {
+    const engine = createSearchEngine();
+    const { shards, manifest } = buildSearchShards(index, { shardSize: 100 });
+
+    for (const token of ["本", "文章", "com", "字"]) {
+      const required = engine.getRequirements(token, manifest.shardKeys).shards;
+      const loaded = Object.assign({}, ...required.map((shard) => shards[shard].content));
+      const expected = Object.keys(index.postings.content).filter((term) =>
+        /^[a-z0-9]/.test(token) ? term.startsWith(token) : term.includes(token)
+      );
+
+      expect(expected.length).toBeGreaterThan(0);
+      expect(required.length).toBeLessThan(manifest.shardCount);
+      for (const term of expected) {
+        expect(loaded[term]).toEqual(index.postings.content[term]);
+      }
+    }
+  });
+
+  it("英語のページでもシャードは目安の大きさを超えない", () => {
+    // 同じ1文字目の語が多くても、語の範囲で区切るため1つのシャードに集まらない
+    const words = Array.from({ length: 400 }, (_, i) => `s${i.toString(36)}word`);
+    const latinPages = Array.from({ length: 20 }, (_, i) =>
+      createPage(`Page ${i}`, [words.slice(i * 20, i * 20 + 200).join(" ")])
+    );
+    const latinIndex = buildSearchIndex(latinPages);
+    const shardSize = 2048;
+    const { shards, manifest } = buildSearchShards(latinIndex, { shardSize });
+
+    expect(manifest.shardCount).toBeGreaterThan(2);
+    expect(manifest.shardKeys).toHaveLength(manifest.shardCount);
+    for (const shard of shards) {
+      expect(Buffer.byteLength(JSON.stringify(shard))).toBeLessThanOrEqual(shardSize);
+    }
+    const terms = shards.flatMap((shard) => Object.keys(shard.content));
+    expect(new Set(terms)).toEqual(new Set(Object.keys(latinIndex.postings.content)));
+  });
+
+  it("ページ情報を指定したページ数ごとに分割する", () => {
+    const { pageChunks, manifest } = buildSearchShards(index, { pageChunkSize: 5 });
+
+    expect(manifest.pageChunkCount).toBe(3);
+    expect(pageChunks.map((chunk) => chunk.length)).toEqual([5, 5, 2]);
+    expect(pageChunks[2][0].title).toBe("ページ10");
+  });
+
+  it("出力するファイルの一覧を作成する", () => {
+    const files = serializeSearchShards(buildSearchShards(index, { pageChunkSize: 5 }));
+
+    expect(Array.from(files.keys())).toEqual([
+      "manifest.json",
+      "titles.json",
+      "shard-0.json",
+      "pages-0.json",
+      "pages-1.json",
+      "pages-2.json",
+      "tags.json",
+      "dates.json",
+    ]);
+    const titleIndex = JSON.parse(files.get("titles.json")!);
+    expect(titleIndex.titles).toHaveLength(12);
+    expect(titleIndex.urls[0]).toBe(index.pages[0].url);
+  });
+});
+
+describe("タイトルの補完", () => {
+  const engine = createSearchEngine();
+  const titles = ["JavaScript入門", "入門", "はじめてのJava", "Python"];
+  const index = { titles, urls: titles.map((title) => `pages/${title}.html`) };
+
+  it("前方一致するタイトル、短いタイトルの順に並べる", () => {
+    expect(engine.completeTitles(index, "java", 10).map((r) => r.title)).toEqual([
+      "JavaScript入門",
+      "はじめてのJava",
+    ]);
+    expect(engine.completeTitles(index, "入門", 10).map((r) => r.title)).toEqual(["入門", "JavaScript入門"]);
+  });
+
+  it("件数を制限できる", () => {
+    expect(engine.completeTitles(index, "a", 1)).toHaveLength(1);
+  });
+
+  it("補完候補にはページのURLを含める", () => {
+    expect(engine.completeTitles(index, "python", 10)).toEqual([{ page: 3, title: "Python", url: "pages/Python.html" }]);
+  });
+});
+
+describe("検索クエリ", () => {
+  it("検索語、フレーズ、除外、title:、tag: を解析する", () => {
+    expect(parseSearchQuery('型 "exact phrase" -除外 title:入門 tag:#Foo_Bar -tag:下書き')).toEqual({
+      terms: [
+        { text: "型", phrase: false, titleOnly: false },
+        { text: "exact phrase", phrase: true, titleOnly: false },
+        { text: "入門", phrase: false, titleOnly: true },
+      ],
+      excludes: [{ text: "除外", phrase: false, titleOnly: false }],
+      tags: ["foo_bar"],
+      excludeTags: ["下書き"],
+      dates: [],
+    });
+  });
+
+  it("日付の指定を期間にする（UTC）", () => {
+    const day = (date: string) => Date.parse(`${date}T00:00:00Z`) / 1000;
+
+    expect(parseSearchQuery("updated:>2023-01-01").dates).toEqual([{ field: "updated", from: day("2023-01-02") }]);
+    expect(parseSearchQuery("updated:>=2023-01-01").dates).toEqual([{ field: "updated", from: day("2023-01-01") }]);
+    expect(parseSearchQuery("created:<2023-02").dates).toEqual([{ field: "created", to: day("2023-02-01") }]);
+    expect(parseSearchQuery("created:<=2023").dates).toEqual([{ field: "created", to: day("2024-01-01") }]);
+    expect(parseSearchQuery("updated:2023-12").dates).toEqual([
+      { field: "updated", from: day("2023-12-01"), to: day("2024-01-01") },
+    ]);
+  });
+
+  it("日付として解釈できない指定は検索語にする", () => {
+    expect(parseSearchQuery("updated:yesterday").terms).toEqual([
+      { text: "updated:yesterday", phrase: false, titleOnly: false },
+    ]);
+  });
+});
+
+describe("検索クエリによる絞り込み", () => {
+  const pages: CosensePage[] = [
+    createPage("JavaScript入門", ["基本的な使い方 #入門書"], { updated: 1672531200 }), // 2023-01-01
+    createPage("TypeScript", ["JavaScript に型を付けた言語 #言語"], { updated: 1685577600 }), // 2023-06-01
+    createPage("Java", ["JavaScript とは別の言語 #言語"], { updated: 1698796800 }), // 2023-11-01
+    createPage("メモ", ["入門の下書き #下書き"], { updated: 1700000000 }),
+  ];
+  const index = buildSearchIndex(pages);
+  const titles = (query: string) => search(index, query).map((r) => r.title);
+
+  it("-検索語を含むページを除く", () => {
+    expect(titles("javascript -型")).toEqual(["JavaScript入門", "Java"]);
+  });
+
+  it("title: はタイトルだけを探す", () => {
+    expect(titles("title:javascript")).toEqual(["JavaScript入門"]);
+    expect(titles("title:入門")).toEqual(["JavaScript入門"]);
+  });
+
+  it("フレーズは語を前方一致させない", () => {
+    expect(titles("java")).toHaveLength(3);
+    expect(titles('"java"')).toEqual(["Java"]);
+  });
+
+  it("フレーズは語順と隣接を確かめる", () => {
+    const phraseIndex = buildSearchIndex([
+      createPage("A/B", ["Split testing の手順"]),
+      createPage("手順", ["testing split の例", "日本語の文章"]),
+      createPage("分割", ["testing the split", "日本 語"]),
+    ]);
+    const phraseTitles = (query: string) => search(phraseIndex, query).map((r) => r.title);
+
+    expect(phraseTitles("testing split").sort()).toEqual(["A/B", "分割", "手順"]);
+    expect(phraseTitles('"testing split"')).toEqual(["手順"]);
+    expect(phraseTitles('"split testing"')).toEqual(["A/B"]);
+    expect(phraseTitles('"日本語"')).toEqual(["手順"]);
+  });
+
+  it("tag: でハッシュタグの付いたページに絞り込む", () => {
+    expect(titles("javascript tag:言語").sort()).toEqual(["Java", "TypeScript"]);
+    expect(titles("入門 -tag:下書き")).toEqual(["JavaScript入門"]);
+  });
+
+  it("updated: で更新日時を絞り込む", () => {
+    expect(titles("javascript updated:>2023-01-01").sort()).toEqual(["Java", "TypeScript"]);
+    expect(titles("javascript updated:<2023-06")).toEqual(["JavaScript入門"]);
+  });
+
+  it("絞り込みだけの場合は更新日時の新しい順に並べる", () => {
+    expect(titles("tag:言語")).toEqual(["Java", "TypeScript"]);
+    expect(titles("updated:2023")).toEqual(["メモ", "Java", "TypeScript", "JavaScript入門"]);
+    expect(titles("updated:<2023-11")).toEqual(["TypeScript", "JavaScript入門"]);
+  });
+});
+
+describe("highlightSearchTerms", () => {
+  it("すべての検索語を強調表示する", () => {
+    expect(highlightSearchTerms("画像を保存するには", "保存 画像")).toEqual([
+      { text: "画像", match: true },
+      { text: "を", match: false },
+      { text: "保存", match: true },
+      { text: "するには", match: false },
+    ]);
+  });
+
+  it("全角・半角やカタカナ・ひらがなの違いを区別せずに強調表示する", () => {
+    expect(highlightSearchTerms("ｺｰﾋｰとＪａｖａ", "こーひー java")).toEqual([
+      { text: "ｺｰﾋｰ", match: true },
+      { text: "と", match: false },
+      { text: "Ｊａｖａ", match: true },
+    ]);
+  });
+
+  it("半角の濁点や結合文字は前の文字と合わせて強調表示する", () => {
+    expect(highlightSearchTerms("ｶﾞｷﾞ テスト", "ガギ")).toEqual([
+      { text: "ｶﾞｷﾞ", match: true },
+      { text: " テスト", match: false },
+    ]);
+    expect(highlightSearchTerms("ﾊﾟﾝとか\u3099", "パン が")).toEqual([
+      { text: "ﾊﾟﾝ", match: true },
+      { text: "と", match: false },
+      { text: "か\u3099", match: true },
+    ]);
+  });
+
+  it("絞り込みの指定は強調表示しない", () => {
+    expect(highlightSearchTerms("tag", "tag:tag")).toEqual([{ text: "tag", match: false }]);
+  });
 });
@@ -68,6 +68,17 @@ describe("extractImageUrls", () => {
     );
   });
 
+  it("括弧なしの画像URLはオプション指定時のみ抽出する", () => {
+    const pages: CosensePage[] = [
+      createPage("ページ", ["画像 https://example.com/bare.png"]),
+    ];
+
+    expect(extractImageUrls(pages)).not.toContain("https://example.com/bare.png");
+    expect(extractImageUrls(pages, { bareImageUrls: true })).toContain(
+      "https://example.com/bare.png"
+    );
+  });
+
   it("画像以外のURLは抽出しない", () => {
     const pages: CosensePage[] = [
       createPage("ページ", ["[https://example.com]"]),
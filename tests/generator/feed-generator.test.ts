@@ -0,0 +1,142 @@
+/**
+ * フィード生成のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildFeedEntries,
+  createEntryId,
+  generateAtomFeed,
+  generateRssFeed,
+  generateJsonFeed,
+} from "../../src/generator/feed-generator.js";
+import type { CosensePage } from "../../src/parser/types.js";
+
+const createPage = (title: string, lines: string[], updated: number, id?: string): CosensePage => ({
+  title,
+  created: 1700000000,
+  updated,
+  id,
+  lines: [title, ...lines],
+});
+
+const pages: CosensePage[] = [
+  createPage("古いページ", ["本文"], 1700000100, "p1"),
+  createPage("新しいページ", ["[古いページ]を参照", "[/ja/Help]", "[https://example.com/a.png]"], 1700000200, "p2"),
+  createPage("中間のページ", ["1", "2", "3", "4", "5", "6行目"], 1700000150, "p3"),
+];
+
+const options = {
+  baseUrl: "https://example.com/archive",
+  title: "プロジェクト",
+  existingPages: new Set(pages.map((p) => p.title)),
+};
+
+describe("buildFeedEntries", () => {
+  it("更新日時の新しい順に並べ、件数を制限できる", () => {
+    const entries = buildFeedEntries(pages, { ...options, limit: 2 });
+
+    expect(entries.map((e) => e.title)).toEqual(["新しいページ", "中間のページ"]);
+  });
+
+  it("ページのURLをベースURLからの絶対URLにする", () => {
+    const [entry] = buildFeedEntries(pages, options);
+
+    expect(entry.url).toBe(`https://example.com/archive/pages/${encodeURIComponent("新しいページ")}.html`);
+  });
+
+  it("要約の中のリンクや画像のURLも絶対URLにする", () => {
+    const [entry] = buildFeedEntries(pages, options);
+
+    expect(entry.summary).toContain(
+      `href="https://example.com/archive/pages/${encodeURIComponent("古いページ")}.html"`
+    );
+    expect(entry.summary).toContain('href="https://scrapbox.io/ja/Help"');
+    expect(entry.summary).toContain('src="https://example.com/a.png"');
+  });
+
+  it("要約は本文の先頭の行から作る（行数を指定できる）", () => {
+    const entries = buildFeedEntries(pages, options);
+    const middle = entries.find((e) => e.title === "中間のページ")!;
+
+    expect(middle.summary).toContain("5");
+    expect(middle.summary).not.toContain("6行目");
+    expect(buildFeedEntries(pages, { ...options, summaryLines: 6 })[1].summary).toContain("6行目");
+  });
+
+  it("要約はページと同じようにコードブロックやテーブルをレンダリングする", () => {
+    const page = createPage("コード", ["code:a.js", " const a = 1;", "table:表", " a\tb"], 1700000300);
+    const [entry] = buildFeedEntries([page], options);
+
+    expect(entry.summary).toContain('<pre class="code-block language-javascript">');
+    expect(entry.summary).not.toContain("code:a.js");
+    expect(entry.summary).toContain('<caption class="table-caption">表</caption>');
+  });
+});
+
+describe("createEntryId", () => {
+  it("更新されていないページは同じIDになる", () => {
+    const page = createPage("ページ", [], 1700000000, "abc");
+
+    expect(createEntryId(options.baseUrl, page)).toBe(createEntryId(options.baseUrl, { ...page }));
+    expect(createEntryId(options.baseUrl, page)).toMatch(
+      /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+  });
+
+  it("更新されたページは別のIDになる", () => {
+    const page = createPage("ページ", [], 1700000000, "abc");
+
+    expect(createEntryId(options.baseUrl, { ...page, updated: 1700000001 })).not.toBe(
+      createEntryId(options.baseUrl, page)
+    );
+  });
+});
+
+describe("フィードの形式", () => {
+  const entries = buildFeedEntries(pages, options);
+
+  it("Atomフィードを生成する（更新日時は最も新しいページ）", () => {
+    const xml = generateAtomFeed(entries, options);
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(xml).toContain(
+      '<link rel="self" type="application/atom+xml" href="https://example.com/archive/feed.xml"/>'
+    );
+    expect(xml).toContain("<updated>2023-11-14T22:16:40.000Z</updated>");
+    expect(xml).toContain(`<id>${entries[0].id}</id>`);
+    expect(xml).toContain('<summary type="html">&lt;div class=&quot;line&quot;&gt;');
+  });
+
+  it("エントリーがない場合の更新日時はエクスポートした日時にし、なければ出力しない", () => {
+    const atom = generateAtomFeed([], { ...options, exported: 1700000000 });
+    const rss = generateRssFeed([], { ...options, exported: 1700000000 });
+
+    expect(atom).toContain("<updated>2023-11-14T22:13:20.000Z</updated>");
+    expect(rss).toContain("<lastBuildDate>Tue, 14 Nov 2023 22:13:20 GMT</lastBuildDate>");
+    expect(generateAtomFeed([], options)).not.toContain("<updated>");
+    expect(generateRssFeed([], options)).not.toContain("<lastBuildDate>");
+    expect(generateAtomFeed([], options)).not.toContain("1970");
+  });
+
+  it("RSS 2.0フィードを生成する", () => {
+    const xml = generateRssFeed(entries, options);
+
+    expect(xml).toContain('<rss version="2.0"');
+    expect(xml).toContain(`<guid isPermaLink="false">${entries[0].id}</guid>`);
+    expect(xml).toContain("<pubDate>Tue, 14 Nov 2023 22:16:40 GMT</pubDate>");
+  });
+
+  it("JSON Feedを生成する", () => {
+    const feed = JSON.parse(generateJsonFeed(entries, { ...options, path: "tags/tag.json" }));
+
+    expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(feed.home_page_url).toBe("https://example.com/archive/");
+    expect(feed.feed_url).toBe("https://example.com/archive/tags/tag.json");
+    expect(feed.items[0]).toMatchObject({
+      id: entries[0].id,
+      title: "新しいページ",
+      url: entries[0].url,
+      date_modified: "2023-11-14T22:16:40.000Z",
+    });
+  });
+});
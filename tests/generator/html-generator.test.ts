@@ -2,13 +2,30 @@
  * HTML生成のユニットテスト
  */
 import { describe, it, expect } from "vitest";
+import * as vm from "vm";
 import {
   renderLine,
   renderPage,
-  generatePageFilename,
+  renderIndexPage,
+  renderStubPage,
+  renderGraphPage,
+  renderSearchPage,
+  renderReportPage,
+  renderTagPage,
+  renderTagIndexPage,
+  buildLocalGraphData,
 } from "../../src/generator/html-generator.js";
+import {
+  generatePageFilename,
+  getTagUrlFromPage,
+  getTagFeedUrl,
+  getLocalGraphUrlFromPage,
+} from "../../src/generator/routing.js";
+import { generateEmbedJS } from "../../src/generator/js-generator.js";
 import type { CosensePage } from "../../src/parser/types.js";
-import type { LinkGraph } from "../../src/analyzer/link-analyzer.js";
+import { createTitleIndex } from "../../src/parser/title-key.js";
+import { buildLinkGraph, type LinkGraph } from "../../src/analyzer/link-analyzer.js";
+import { analyzeLinkGraph } from "../../src/analyzer/graph-report.js";
 
 const createPage = (title: string, lines: string[]): CosensePage => ({
   title,
@@ -21,7 +38,10 @@ const createEmptyLinkGraph = (): LinkGraph => ({
   forwardLinks: new Map(),
   backLinks: new Map(),
   linkContexts: new Map(),
+  linkTypes: new Map(),
   existingPages: new Set(),
+  pageIndex: new Map(),
+  pageStats: new Map(),
 });
 
 describe("renderLine", () => {
@@ -37,6 +57,13 @@ describe("renderLine", () => {
     expect(html).toContain("internal-link");
   });
 
+  it("大文字・小文字や空白と_の違いがあっても存在するページへのリンクにする", () => {
+    const html = renderLine("[foo_bar] #FOO_BAR", new Set(["Foo Bar"]));
+    expect(html).not.toContain("missing-link");
+    expect(html).toContain('<a href="foo_bar.html" class="internal-link">foo_bar</a>');
+    expect(html).toContain('<a href="foo_bar.html" class="hashtag">#FOO_BAR</a>');
+  });
+
   it("存在しないページへのリンクに別のスタイルを適用する", () => {
     const html = renderLine("[存在しないページ]", new Set());
     expect(html).toContain("missing-link");
@@ -49,12 +76,76 @@ describe("renderLine", () => {
     expect(html).toContain("external-link");
   });
 
+  it("括弧なしのURLをリンクに変換する", () => {
+    const html = renderLine("詳しくは https://example.com を参照");
+    expect(html).toContain(
+      '<a href="https://example.com" class="external-link" target="_blank" rel="noopener">https://example.com</a>'
+    );
+  });
+
+  it("括弧なしの画像URLはオプション指定時のみ画像として表示する", () => {
+    const line = "https://example.com/image.png";
+    expect(renderLine(line)).not.toContain("<img");
+    expect(renderLine(line, new Set(), { bareImageUrls: true })).toContain(
+      '<img src="https://example.com/image.png"'
+    );
+  });
+
   it("通常の画像を img タグに変換する", () => {
     const html = renderLine("[https://example.com/image.png]");
     expect(html).toContain("<img");
     expect(html).toContain("example.com/image.png");
   });
 
+  it("強調画像は strong-image クラスを付ける", () => {
+    const html = renderLine("[[https://example.com/image.png]]");
+    expect(html).toContain('class="page-image strong-image"');
+  });
+
+  it("リンク付き画像は画像をリンクで囲む", () => {
+    const html = renderLine("[https://example.com/image.png https://example.com/page]");
+    expect(html).toContain('<a href="https://example.com/page" class="image-link"');
+    expect(html).toContain('<img src="https://example.com/image.png"');
+  });
+
+  it("画像自体がリンクになる場合はリンクを入れ子にしない", () => {
+    const html = renderLine("[https://gyazo.com/abc123 https://example.com/page]", new Set(), {
+      hasGyazoToken: false,
+    });
+    expect(html).not.toContain("image-link\"");
+    expect(html).toContain('href="https://example.com/page"');
+  });
+
+  it("Gyazoの動画のリンク付き画像もリンクを入れ子にしない", () => {
+    const url = "https://gyazo.com/abc123";
+    const gyazoResults = new Map([
+      [
+        url,
+        {
+          originalUrl: url,
+          imageUrl: "https://i.gyazo.com/abc123.gif",
+          videoUrl: "https://i.gyazo.com/abc123.mp4",
+          type: "video" as const,
+          success: true,
+        },
+      ],
+    ]);
+    const html = renderLine(`[${url} https://example.com/page]`, new Set(), { gyazoResults });
+
+    expect(html).toContain('<a href="https://i.gyazo.com/abc123.mp4"');
+    expect(html).toContain('class="external-link image-link-target"');
+    expect(html).not.toContain('class="image-link"');
+  });
+
+  it("位置情報をOpenStreetMapへのリンクと座標に変換する", () => {
+    const html = renderLine("[N35.68,E139.76,Z14 東京]");
+    expect(html).toContain(
+      'href="https://www.openstreetmap.org/?mlat=35.68&amp;mlon=139.76#map=14/35.68/139.76"'
+    );
+    expect(html).toContain('<span class="location-name">東京</span>');
+    expect(html).toContain('<span class="location-coords">N35.68,E139.76</span>');
+  });
+
   it("Gyazo画像（トークンなし）はリンクとして表示する", () => {
     // hasGyazoTokenがfalseの場合はGyazoリンクを表示
     const html = renderLine("[https://gyazo.com/abc123]", new Set(), { hasGyazoToken: false });
@@ -100,6 +191,116 @@ describe("renderLine", () => {
     expect(html).toContain("gyazo-video");
   });
 
+  it("アイコン画像がない場合はテキストのバッジを表示する", () => {
+    const html = renderLine("[user.icon]");
+    expect(html).toContain('<span class="icon">user</span>');
+  });
+
+  it("アイコン画像をユーザーページへのリンク付きで表示する", () => {
+    const html = renderLine("[user.icon]", new Set(["user"]), {
+      iconUrls: new Map([["user", "../assets/images/abc.png"]]),
+    });
+    expect(html).toContain('<a href="user.html" class="icon-link">');
+    expect(html).toContain('<img src="../assets/images/abc.png" alt="user"');
+    expect(html).toContain("icon-image");
+  });
+
+  it("[user.icon*3] はアイコンを3回表示する", () => {
+    const html = renderLine("[user.icon*3]", new Set(["user"]), {
+      iconUrls: new Map([["user", "../assets/images/abc.png"]]),
+    });
+    expect(html.match(/<img /g)).toHaveLength(3);
+  });
+
+  it("Gyazoのアイコン画像は解決済みのURLを使用する", () => {
+    const gyazoResults = new Map([
+      ["https://gyazo.com/icon123", {
+        originalUrl: "https://gyazo.com/icon123",
+        imageUrl: "https://i.gyazo.com/icon123.png",
+        type: "image" as const,
+        success: true,
+      }],
+    ]);
+    const html = renderLine("[user.icon]", new Set(["user"]), {
+      iconUrls: new Map([["user", "https://gyazo.com/icon123"]]),
+      gyazoResults,
+    });
+    expect(html).toContain('src="https://i.gyazo.com/icon123.png"');
+  });
+
+  it("Gyazoのアイコン画像が解決できない場合はテキストのバッジを表示する", () => {
+    const html = renderLine("[user.icon*2]", new Set(["user"]), {
+      iconUrls: new Map([["user", "https://gyazo.com/icon123"]]),
+      hasGyazoToken: false,
+    });
+    expect(html).toBe('<div class="line"><span class="icon">user</span><span class="icon">user</span></div>');
+  });
+
+  it("動画を video タグに変換する（自動で読み込まない）", () => {
+    const html = renderLine("[https://example.com/movie.mp4]");
+    expect(html).toContain('<video src="https://example.com/movie.mp4"');
+    expect(html).toContain('preload="none"');
+  });
+
+  it("音声を audio タグに変換する", () => {
+    const html = renderLine("[https://example.com/sound.mp3]");
+    expect(html).toContain('<audio src="https://example.com/sound.mp3"');
+  });
+
+  it("YouTubeはクリックで読み込むプレースホルダーを表示する", () => {
+    const html = renderLine("[https://www.youtube.com/watch?v=dQw4w9WgXcQ]");
+    expect(html).not.toContain("<iframe");
+    expect(html).toContain("embed-placeholder");
+    expect(html).toContain('<span class="embed-provider">YouTube</span>');
+    expect(html).toContain('data-embed-src="https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?autoplay=1"');
+    expect(html).toContain('href="https://www.youtube.com/watch?v=dQw4w9WgXcQ"');
+  });
+
+  it("埋め込みはクリックするまで外部のURLを読み込まない", () => {
+    const html = renderLine("[https://www.youtube.com/watch?v=dQw4w9WgXcQ]");
+    // 読み込まれる属性（src, srcset, style の url()）に外部のURLを含まない
+    expect(html).not.toMatch(/<(img|iframe|script|video|audio)\b/);
+    expect(html).not.toMatch(/\s(src|srcset|poster)="/);
+    expect(html).not.toMatch(/url\(/);
+
+    // クリックすると data-embed-src のiframeに置き換える
+    let listener: ((event: unknown) => void) | undefined;
+    let replaced: { src?: string } | undefined;
+    const placeholder = {
+      getAttribute: (name: string) =>
+        name === "data-embed-src" ? "https://www.youtube-nocookie.com/embed/x" : "YouTube",
+      replaceWith: (element: { src?: string }) => (replaced = element),
+    };
+    vm.runInNewContext(generateEmbedJS(), {
+      document: {
+        addEventListener: (_: string, callback: (event: unknown) => void) => (listener = callback),
+        createElement: () => ({ setAttribute: () => {} }),
+      },
+    });
+    expect(replaced).toBeUndefined();
+    listener!({ target: { closest: () => placeholder }, preventDefault: () => {} });
+    expect(replaced?.src).toBe("https://www.youtube-nocookie.com/embed/x");
+  });
+
+  it("Twitterの埋め込みもクリックで読み込む", () => {
+    const html = renderLine("[https://x.com/user/status/1234567890]");
+    expect(html).toContain("embed-twitter");
+    expect(html).toContain("platform.twitter.com/embed/Tweet.html?id=1234567890");
+  });
+
+  it("mediaAsLinksでは動画・音声・埋め込みをリンクとして出力する", () => {
+    const lines = [
+      "[https://example.com/movie.mp4]",
+      "[https://example.com/sound.mp3]",
+      "[https://vimeo.com/123456]",
+    ];
+    for (const line of lines) {
+      const html = renderLine(line, new Set(), { mediaAsLinks: true });
+      expect(html).toContain("media-link");
+      expect(html).not.toMatch(/<video|<audio|embed-placeholder/);
+    }
+  });
+
   it("ハッシュタグをリンクに変換する", () => {
     const html = renderLine("#タグ", new Set(["タグ"]));
     expect(html).toContain('<a href="');
@@ -130,12 +331,61 @@ describe("renderLine", () => {
     expect(html).toContain("削除");
   });
 
+  it("組み合わせた装飾を入れ子の要素に変換する", () => {
+    const html = renderLine("[*/- 複合]");
+    expect(html).toContain('<strong class="bold-1"><em><del>複合</del></em></strong>');
+  });
+
+  it("太字・斜体・打消し線・下線以外の装飾は deco-xxx クラスを付与する", () => {
+    const html = renderLine("[! 感嘆]");
+    expect(html).toContain('<span class="deco-exclamation">感嘆</span>');
+  });
+
+  it("[** text] だけの行を h3 見出しに変換する", () => {
+    const html = renderLine("[** 見出し]");
+    expect(html).toContain('<h3 id="見出し"');
+    expect(html).toContain("</h3>");
+  });
+
+  it("[*** text] だけの行を h2 見出しに変換する", () => {
+    const html = renderLine("[*** 大見出し]");
+    expect(html).toContain('<h2 id="大見出し"');
+    expect(html).not.toContain("<strong");
+  });
+
+  it("[* text] や文中の [** text] は見出しにしない", () => {
+    expect(renderLine("[* 太字]")).not.toContain("<h");
+    expect(renderLine("文中の[** 太字]")).not.toContain("<h");
+    expect(renderLine(" [** インデント]")).not.toContain("<h");
+  });
+
   it("インラインコードを code タグに変換する", () => {
     const html = renderLine("`console.log()`");
     expect(html).toContain("<code");
     expect(html).toContain("console.log()");
   });
 
+  it("文中の数式をKaTeXでレンダリングする", () => {
+    const html = renderLine("質量とエネルギー [$ E = mc^2] の関係");
+    expect(html).toContain('class="katex"');
+    expect(html).not.toContain("katex-display");
+  });
+
+  it("数式だけの行はブロック表示にする", () => {
+    const html = renderLine("[$ \\int_0^1 x\\,dx]");
+    expect(html).toContain("math-line");
+    expect(html).toContain("katex-display");
+  });
+
+  it("不正な数式は元のテキストを表示しonMathErrorで通知する", () => {
+    const errors: string[] = [];
+    const html = renderLine("[$ \\frac{1}{]", new Set(), {
+      onMathError: (formula) => errors.push(formula),
+    });
+    expect(html).toContain("math-error");
+    expect(errors).toEqual(["\\frac{1}{"]);
+  });
+
   it("インデントを適切にレンダリングする", () => {
     const html = renderLine("  インデントされた行");
     expect(html).toContain("indent-2");
@@ -160,6 +410,26 @@ describe("renderLine", () => {
     expect(html).not.toContain("bullet");
   });
 
+  it("コマンドラインをコピーボタン付きでレンダリングする", () => {
+    const html = renderLine("$ npm install <pkg>");
+    expect(html).toContain("command-line");
+    expect(html).toContain('<span class="command-prefix">$</span> npm install &lt;pkg&gt;');
+    expect(html).toContain('data-copy="npm install &lt;pkg&gt;"');
+    expect(html).toContain("copy-button");
+  });
+
+  it("Helpfeelをhelpfeelスタイルでレンダリングする", () => {
+    const html = renderLine("? 使い方は");
+    expect(html).toContain("helpfeel");
+    expect(html).toContain('<span class="helpfeel-text">使い方は</span>');
+  });
+
+  it("番号付きリストは黒丸の代わりに番号を表示する", () => {
+    const html = renderLine(" 2. 項目");
+    expect(html).toContain('<span class="list-number">2.</span>');
+    expect(html).not.toContain("bullet");
+  });
+
   it("引用ブロック（> ）をblockquoteタグに変換する", () => {
     const html = renderLine("> これは引用です");
     expect(html).toContain("<blockquote");
@@ -182,23 +452,6 @@ describe("renderLine", () => {
   });
 });
 
-describe("generatePageFilename", () => {
-  it("ページタイトルからファイル名を生成する", () => {
-    const filename = generatePageFilename("テストページ");
-    expect(filename).toMatch(/\.html$/);
-  });
-
-  it("特殊文字をエンコードする", () => {
-    const filename = generatePageFilename("Test/Page");
-    expect(filename).not.toContain("/");
-  });
-
-  it("空白を含むタイトルでもファイル名を生成できる", () => {
-    const filename = generatePageFilename("Test Page");
-    expect(filename).toBe("Test Page.html");
-  });
-});
-
 describe("renderPage", () => {
   it("ページ全体のHTMLを生成する", () => {
     const page = createPage("テストページ", ["本文1行目", "本文2行目"]);
@@ -222,17 +475,442 @@ describe("renderPage", () => {
     expect(html).toContain("マイプロジェクト");
   });
 
+  it("テーブルをtableタグでレンダリングする", () => {
+    const page = createPage("ページ", [
+      "table:料金表",
+      " プラン\t価格",
+      " [基本]\t[* 1000円]",
+    ]);
+    const linkGraph = buildLinkGraph([page, createPage("基本", [])]);
+
+    const html = renderPage(page, linkGraph, "プロジェクト");
+
+    expect(html).toContain("<table>");
+    expect(html).toContain('<caption class="table-caption">料金表</caption>');
+    expect(html).toContain("<td>プラン</td><td>価格</td>");
+    expect(html).toContain('class="internal-link"');
+    expect(html).toContain("<strong");
+    expect(html).not.toContain('<span class="bullet">•</span>');
+  });
+
+  it("同じ見出しが複数ある場合はアンカーIDに連番を付与する", () => {
+    const page = createPage("ページ", ["[** 概要]", "本文", "[** 概要]"]);
+    const linkGraph = createEmptyLinkGraph();
+
+    const html = renderPage(page, linkGraph, "プロジェクト");
+
+    expect(html).toContain('<h3 id="概要"');
+    expect(html).toContain('<h3 id="概要-2"');
+    expect(html).toContain('href="#%E6%A6%82%E8%A6%81-2"');
+  });
+
+  it("番号付きリストはインデントごとに連番を振る", () => {
+    const page = createPage("ページ", [
+      " 1. A",
+      " 1. B",
+      "  1. B-1",
+      "  1. B-2",
+      " 1. C",
+      "通常行",
+      " 1. D",
+    ]);
+    const linkGraph = createEmptyLinkGraph();
+
+    const html = renderPage(page, linkGraph, "プロジェクト");
+    const numbers = [...html.matchAll(/<span class="list-number">(\d+)\.<\/span>([^<]+)/g)].map(
+      (m) => `${m[2]}:${m[1]}`
+    );
+
+    expect(numbers).toEqual(["A:1", "B:2", "B-1:1", "B-2:2", "C:3", "D:1"]);
+  });
+
+  it("数式を含むページのみKaTeXのスタイルシートを読み込む", () => {
+    const linkGraph = createEmptyLinkGraph();
+
+    const withMath = renderPage(createPage("数式", ["[$ x^2]"]), linkGraph, "プロジェクト");
+    const withoutMath = renderPage(createPage("本文", ["テキスト"]), linkGraph, "プロジェクト");
+
+    expect(withMath).toContain("katex.min.css");
+    expect(withoutMath).not.toContain("katex.min.css");
+  });
+
+  it("コードブロックをファイル名ヘッダー付きでハイライトする", () => {
+    const page = createPage("ページ", ["code:sample.js", " const x = 1;", "通常行"]);
+    const linkGraph = createEmptyLinkGraph();
+
+    const html = renderPage(page, linkGraph, "プロジェクト");
+
+    expect(html).toContain('<span class="code-block-filename">sample.js</span>');
+    expect(html).toContain('data-copy="const x = 1;"');
+    expect(html).toContain("language-javascript");
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+  });
+
+  it("対応する言語がないコードブロックはエスケープのみ行う", () => {
+    const page = createPage("ページ", ["code:memo.unknownlang", " <b>text</b>"]);
+    const linkGraph = createEmptyLinkGraph();
+
+    const html = renderPage(page, linkGraph, "プロジェクト");
+
+    expect(html).toContain("&lt;b&gt;text&lt;/b&gt;");
+    expect(html).not.toContain("hljs-");
+  });
+
   it("1hopリンクセクションを含める", () => {
     const page = createPage("ページA", ["[ページB]"]);
     const linkGraph: LinkGraph = {
       forwardLinks: new Map([["ページA", new Set(["ページB"])]]),
       backLinks: new Map([["ページB", new Set(["ページA"])]]),
       linkContexts: new Map(),
+      linkTypes: new Map(),
       existingPages: new Set(["ページA", "ページB"]),
+      pageIndex: createTitleIndex(["ページA", "ページB"]),
+      pageStats: new Map(),
     };
 
     const html = renderPage(page, linkGraph, "プロジェクト");
 
     expect(html).toContain("related-pages");
   });
+
+  it("関連ページをタイトルとサムネイルのカードで表示する", () => {
+    const pages = [
+      createPage("ページA", ["[ページB]"]),
+      createPage("ページB", ["[https://example.com/b.png]"]),
+    ];
+    const linkGraph = buildLinkGraph(pages);
+    const iconUrls = new Map([["ページB", "../assets/images/b.png"]]);
+
+    const html = renderPage(pages[0], linkGraph, "プロジェクト", { iconUrls });
+
+    expect(html).toContain('class="related-card"');
+    expect(html).toContain('<span class="related-card-title">ページB</span>');
+    expect(html).toContain(
+      '<img src="../assets/images/b.png" alt="" class="related-card-thumbnail" loading="lazy">'
+    );
+  });
+
+  it("2ホップリンクを橋渡しするページごとにまとめ、多い場合は残りを折りたたむ", () => {
+    const pages = [
+      createPage("ページA", ["#タグ"]),
+      ...Array.from({ length: 8 }, (_, i) => createPage(`ページ${i}`, ["#タグ"])),
+    ];
+    const linkGraph = buildLinkGraph(pages);
+
+    const html = renderPage(pages[0], linkGraph, "プロジェクト");
+
+    expect(html).toContain('<a href="#" class="two-hop-via missing-link">タグ</a>');
+    expect(html.match(/class="related-card two-hop"/g)).toHaveLength(8);
+    expect(html).toContain("<summary>さらに 2 件を表示</summary>");
+  });
+
+  it("ローカルグラフのデータのURLを指定し、グラフのスクリプトを読み込む", () => {
+    const pages = [
+      createPage("ページA", ["[ページB] #タグ"]),
+      createPage("ページB", ["[ページC]"]),
+      createPage("ページC", []),
+    ];
+    const linkGraph = buildLinkGraph(pages);
+
+    const html = renderPage(pages[0], linkGraph, "プロジェクト");
+    const data = buildLocalGraphData("ページA", linkGraph)!;
+
+    expect(html).toContain(`data-local-graph-src="${getLocalGraphUrlFromPage("ページA")}"`);
+    expect(html).not.toContain("data-graph=");
+    expect(html).toContain('<script src="../assets/js/graph.js" defer></script>');
+    expect(data.nodes).toEqual([
+      { title: "ページA", url: encodeURIComponent(generatePageFilename("ページA")), missing: false, center: true },
+      { title: "ページB", url: encodeURIComponent(generatePageFilename("ページB")), missing: false, center: false },
+      { title: "タグ", url: null, missing: true, center: false },
+      { title: "ページC", url: encodeURIComponent(generatePageFilename("ページC")), missing: false, center: false },
+    ]);
+    expect(data.edges).toEqual([
+      { source: "ページA", target: "ページB", type: "internal" },
+      { source: "ページA", target: "タグ", type: "hashtag" },
+      { source: "ページB", target: "ページC", type: "internal" },
+    ]);
+  });
+
+  it("ローカルグラフの1ホップ先は最大件数までにする", () => {
+    const targets = Array.from({ length: 80 }, (_, i) => `リンク先${i}`);
+    const pages = [
+      createPage("ハブ", targets.map((target) => `[${target}]`)),
+      createPage("リンク元", ["[ハブ]"]),
+      ...targets.map((target) => createPage(target, ["[孤立した先]"])),
+      createPage("孤立した先", []),
+    ];
+    const linkGraph = buildLinkGraph(pages);
+
+    const data = buildLocalGraphData("ハブ", linkGraph)!;
+    const titles = data.nodes.map((node) => node.title);
+
+    expect(titles).toEqual(["ハブ", ...targets.slice(0, 50), "孤立した先"]);
+    expect(titles).not.toContain("リンク元");
+  });
+
+  it("リンクのないページにはローカルグラフを表示しない", () => {
+    const html = renderPage(createPage("ページ", ["本文"]), createEmptyLinkGraph(), "プロジェクト");
+
+    expect(html).not.toContain("local-graph");
+    expect(html).not.toContain("graph.js");
+    expect(buildLocalGraphData("ページ", createEmptyLinkGraph())).toBeNull();
+  });
+
+  it("リンク元のカードにリンクが書かれている行を表示し、このページへのリンクを強調する", () => {
+    const pages = [
+      createPage("ページA", []),
+      createPage("ページB", ["詳しくは[ページA]と[ページC]を参照", "関係ない行"]),
+      createPage("ページC", []),
+    ];
+    const linkGraph = buildLinkGraph(pages);
+
+    const html = renderPage(pages[0], linkGraph, "プロジェクト");
+
+    expect(html).toContain('class="related-card backlink"');
+    expect(html).toContain('class="related-card-context"');
+    expect(html).toContain("詳しくは");
+    expect(html).toContain('class="internal-link mention">ページA</a>');
+    expect(html).toContain('class="internal-link">ページC</a>');
+    expect(html).not.toContain("関係ない行");
+  });
+});
+
+describe("renderStubPage", () => {
+  const pages = [
+    createPage("ページA", ["[未作成] について", "リンクなし"]),
+    createPage("ページB", [" 箇条書きの #未作成"]),
+  ];
+
+  it("存在しないページの空ページを生成する", () => {
+    const html = renderStubPage("未作成", buildLinkGraph(pages), "プロジェクト");
+
+    expect(html).toContain("<!DOCTYPE html>");
+    expect(html).toContain('class="page stub-page"');
+    expect(html).toContain('<h1 class="page-title">未作成</h1>');
+    expect(html).toContain("2 ページからリンクされています");
+  });
+
+  it("リンク元のページとリンクが書かれている行を表示する", () => {
+    const html = renderStubPage("未作成", buildLinkGraph(pages), "プロジェクト");
+
+    expect(html).toContain(
+      `<a href="${encodeURIComponent(generatePageFilename("ページA"))}" class="stub-reference-title">ページA</a>`
+    );
+    expect(html).toContain(
+      `<a href="${encodeURIComponent(generatePageFilename("ページB"))}" class="stub-reference-title">ページB</a>`
+    );
+    expect(html).toContain(" について");
+    expect(html).toContain("箇条書きの ");
+    expect(html).not.toContain("リンクなし");
+  });
+
+  it("リンクが書かれている行は見出しやブロックにせずインラインで表示する", () => {
+    const html = renderStubPage(
+      "未作成",
+      buildLinkGraph([
+        createPage("ページA", [
+          "[** [未作成]の見出し]",
+          "table:一覧",
+          " 名前\t[未作成]",
+          "[未作成] と [未作成]",
+        ]),
+      ]),
+      "プロジェクト"
+    );
+
+    expect(html).not.toContain('class="heading');
+    expect(html).toContain('class="internal-link missing-link mention">未作成</a>の見出し');
+    expect(html).toContain(
+      '<div class="line table-row-context">名前<span class="table-cell-separator"> / </span><a href="#" class="internal-link missing-link mention">未作成</a></div>'
+    );
+    expect(html).not.toContain("\t");
+    expect(html.match(/ と </g)).toHaveLength(1);
+  });
+
+  it("空ページを出力するリンクは空ページを指す", () => {
+    const linkGraph = buildLinkGraph(pages);
+    const stubPageIndex = createTitleIndex(["未作成"]);
+
+    const html = renderPage(pages[0], linkGraph, "プロジェクト", { stubPageIndex });
+    const withoutStub = renderPage(pages[0], linkGraph, "プロジェクト");
+
+    expect(html).toContain(
+      `<a href="${encodeURIComponent("未作成")}.html" class="internal-link missing-link">未作成</a>`
+    );
+    expect(withoutStub).toContain('<a href="#" class="internal-link missing-link">未作成</a>');
+  });
+
+  it("同じ数のまま入れ替わったページのセットでも正しく解決する", () => {
+    const titles = new Set(["Foo"]);
+    expect(renderLine("[foo]", titles)).not.toContain("missing-link");
+
+    titles.delete("Foo");
+    titles.add("Bar");
+    expect(renderLine("[foo]", titles)).toContain("missing-link");
+    expect(renderLine("[bar]", titles)).toContain('<a href="bar.html" class="internal-link">bar</a>');
+  });
+
+  it("表記の揺れのあるリンクも同じ空ページを指す", () => {
+    const html = renderLine("[Missing Page]", new Set(), {
+      stubPageIndex: createTitleIndex(["missing_page"]),
+    });
+
+    expect(html).toContain('href="missing_page.html"');
+  });
+});
+
+describe("renderGraphPage", () => {
+  it("リンクデータを読み込むグラフのページを生成する", () => {
+    const html = renderGraphPage("プロジェクト");
+
+    expect(html).toContain("<title>グラフ - プロジェクト</title>");
+    expect(html).toContain('<div class="graph-view" data-graph-src="link-data.json"></div>');
+    expect(html).toContain('id="graph-search"');
+    expect(html).toContain('<script src="assets/js/graph.js"></script>');
+  });
+});
+
+describe("renderSearchPage", () => {
+  it("?q= で検索できる検索結果ページを生成する", () => {
+    const html = renderSearchPage("プロジェクト");
+
+    expect(html).toContain("<title>検索 - プロジェクト</title>");
+    expect(html).toContain('<form class="search-page-form" action="search.html" method="get" role="search">');
+    expect(html).toContain('name="q" id="search-page-input"');
+    expect(html).toContain('id="search-page"');
+    expect(html).toContain('<nav class="search-pagination" aria-label="検索結果のページ"></nav>');
+    expect(html).toContain('<script src="assets/js/search.js"></script>');
+  });
+});
+
+describe("renderReportPage", () => {
+  const pages = [createPage("ページA", ["[未作成] [未作成2]"]), createPage("孤立", [])];
+  const linkGraph = buildLinkGraph(pages);
+  const report = analyzeLinkGraph(linkGraph);
+
+  it("検索エンジンに登録させない保守用レポートを生成する", () => {
+    const html = renderReportPage(report, linkGraph, "プロジェクト");
+
+    expect(html).toContain('<meta name="robots" content="noindex, nofollow">');
+    expect(html).toContain("孤立したページ");
+    expect(html).toContain(
+      `<a href="pages/${encodeURIComponent(generatePageFilename("孤立"))}" class="report-link">孤立</a>`
+    );
+  });
+
+  it("存在しないページは空ページがある場合のみリンクする", () => {
+    const html = renderReportPage(report, linkGraph, "プロジェクト", {
+      stubPages: new Set(["未作成"]),
+    });
+
+    expect(html).toContain(
+      `<a href="pages/${encodeURIComponent("未作成")}.html" class="report-link missing-link">未作成</a>`
+    );
+    expect(html).toContain('<span class="missing-link">未作成2</span>');
+  });
+});
+
+describe("タグのページ一覧", () => {
+  it("ページも空ページもないハッシュタグはタグのページ一覧にリンクする", () => {
+    const html = renderLine("#会議", new Set(), { tagPageIndex: createTitleIndex(["会議"]) });
+
+    expect(html).toContain(
+      `<a href="../tags/${encodeURIComponent("会議")}.html" class="hashtag missing-link">#会議</a>`
+    );
+  });
+
+  it("同じ名前のページがあるハッシュタグはページにリンクし、ページからタグのページ一覧にリンクする", () => {
+    const pages = [createPage("会議", ["#会議 の説明"])];
+    const linkGraph = buildLinkGraph(pages);
+
+    const html = renderPage(pages[0], linkGraph, "プロジェクト", { tagPageIndex: createTitleIndex(["会議"]) });
+
+    expect(html).toContain('class="hashtag mention">#会議</a>');
+    expect(html).toContain(
+      `<a href="../tags/${encodeURIComponent("会議")}.html" class="tag-page-link">#会議 のページ一覧</a>`
+    );
+  });
+
+  it("タグが付いているページをスニペットとともに一覧表示する", () => {
+    const pages = [
+      createPage("議事録", ["code:memo.txt", " コード", "#会議 [* 重要]な決定", "2行目"]),
+    ];
+
+    const html = renderTagPage("会議", pages, "プロジェクト");
+
+    expect(html).toContain('<h1 class="index-title">#会議</h1>');
+    expect(html).toContain(
+      `<a href="../pages/${encodeURIComponent("議事録")}.html" class="page-link">議事録</a>`
+    );
+    expect(html).toContain('<p class="tag-page-snippet">会議 重要な決定 2行目</p>');
+    expect(html).not.toContain("コード");
+    expect(html).not.toContain("memo.txt");
+  });
+
+  it("スニペットのテーブルの行はセルを区切り、table: の行は含めない", () => {
+    const pages = [createPage("成績", ["#会議", "table:scores", " name\tscore", " Alice\t10"])];
+
+    const html = renderTagPage("会議", pages, "プロジェクト");
+
+    expect(html).toContain('<p class="tag-page-snippet">会議 name / score Alice / 10</p>');
+    expect(html).not.toContain("table:scores");
+  });
+
+  it("同じ名前のページがあればタグのページ一覧からリンクする", () => {
+    const html = renderTagPage("Meeting", [], "プロジェクト", {
+      pageIndex: createTitleIndex(["meeting"]),
+    });
+
+    expect(html).toContain(
+      '<a href="../pages/meeting.html" class="tag-page-link">ページ「meeting」を開く</a>'
+    );
+  });
+
+  it("タグクラウドはページ数に応じて文字の大きさを変える", () => {
+    const html = renderTagIndexPage(
+      [
+        { tag: "少ない", count: 1 },
+        { tag: "多い", count: 100 },
+      ],
+      "プロジェクト"
+    );
+
+    expect(html).toContain("2 タグ");
+    expect(html).toContain(`class="tag-cloud-item tag-cloud-level-5" title="100 ページ">#多い</a>`);
+    expect(html).toContain(`class="tag-cloud-item tag-cloud-level-1" title="1 ページ">#少ない</a>`);
+  });
+
+  it("タグクラウドとタグのフィードのリンクはルーティングのURLを使う", () => {
+    const cloud = renderTagIndexPage([{ tag: "v1.0 会議", count: 1 }], "プロジェクト");
+    expect(cloud).toContain(`<a href="${getTagUrlFromPage("v1.0 会議")}" class="tag-cloud-item`);
+
+    const html = renderTagPage("v1.0 会議", [], "プロジェクト", { hasFeed: true });
+    expect(html).toContain(`title="#v1.0 会議" href="../${getTagFeedUrl("v1.0 会議")}">`);
+  });
+});
+
+describe("renderIndexPage", () => {
+  it("フィードを出力した場合はフィードへのリンクを含める", () => {
+    const pages = [createPage("ページ", [])];
+
+    expect(renderIndexPage(pages, "プロジェクト")).not.toContain("feed.xml");
+    const html = renderIndexPage(pages, "プロジェクト", { hasFeeds: true });
+    expect(html).toContain('<link rel="alternate" type="application/atom+xml" title="プロジェクト" href="feed.xml">');
+    expect(html).toContain('href="rss.xml"');
+    expect(html).toContain('href="feed.json"');
+  });
+
+  it("ヘッダーの検索欄はコンボボックスとライブリージョンを持つ", () => {
+    const pages = [createPage("ページ", [])];
+
+    for (const html of [
+      renderIndexPage(pages, "プロジェクト"),
+      renderPage(pages[0], createEmptyLinkGraph(), "プロジェクト"),
+    ]) {
+      expect(html).toContain('<label for="search-input" class="visually-hidden">ページを検索</label>');
+      expect(html).toContain('role="combobox" aria-autocomplete="list" aria-expanded="false" aria-controls="search-results"');
+      expect(html).toContain('<div id="search-results" class="search-results" role="listbox" aria-label="検索結果"></div>');
+      expect(html).toContain('<div id="search-status" class="visually-hidden" role="status" aria-live="polite"></div>');
+    }
+  });
 });
@@ -0,0 +1,135 @@
+/**
+ * リンクデータ出力のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildLinkData,
+  serializeLinkData,
+  toGraphML,
+  toDot,
+  toGexf,
+} from "../../src/generator/link-data.js";
+import { buildLinkGraph } from "../../src/analyzer/link-analyzer.js";
+import type { CosensePage } from "../../src/parser/types.js";
+
+const createPage = (title: string, lines: string[], updated = 100): CosensePage => ({
+  title,
+  created: 10,
+  updated,
+  lines: [title, ...lines],
+});
+
+const pages: CosensePage[] = [
+  createPage("ページA", ["[ページB] #タグ [未作成]"]),
+  createPage("ページB", ["[ページA] #ページA"], 200),
+];
+
+describe("buildLinkData", () => {
+  it("ページをノードとして出力する", () => {
+    const data = buildLinkData(buildLinkGraph(pages), pages);
+
+    expect(data.nodes.find((n) => n.title === "ページB")).toEqual({
+      title: "ページB",
+      url: `pages/${encodeURIComponent("ページb")}.html`,
+      created: 10,
+      updated: 200,
+      inDegree: 1,
+      outDegree: 1,
+      missing: false,
+    });
+  });
+
+  it("存在しないページは missing のノードになる", () => {
+    const data = buildLinkData(buildLinkGraph(pages), pages);
+
+    expect(data.nodes.find((n) => n.title === "タグ")).toEqual({
+      title: "タグ",
+      url: null,
+      created: null,
+      updated: null,
+      inDegree: 1,
+      outDegree: 0,
+      missing: true,
+    });
+  });
+
+  it("空ページを出力する場合は存在しないページにもURLを付ける", () => {
+    const data = buildLinkData(buildLinkGraph(pages), pages, {
+      stubPages: new Set(["未作成"]),
+    });
+
+    expect(data.nodes.find((n) => n.title === "未作成")?.url).toBe(
+      `pages/${encodeURIComponent("未作成")}.html`
+    );
+  });
+
+  it("リンクの種類ごとにエッジを出力する", () => {
+    const data = buildLinkData(buildLinkGraph(pages), pages);
+
+    expect(data.edges).toEqual([
+      { source: "ページA", target: "ページB", type: "internal" },
+      { source: "ページA", target: "タグ", type: "hashtag" },
+      { source: "ページA", target: "未作成", type: "internal" },
+      { source: "ページB", target: "ページA", type: "internal" },
+      { source: "ページB", target: "ページA", type: "hashtag" },
+    ]);
+  });
+
+  it("JSONにシリアライズできる", () => {
+    const data = buildLinkData(buildLinkGraph(pages), pages);
+
+    expect(JSON.parse(serializeLinkData(data))).toEqual(data);
+  });
+});
+
+describe("グラフ形式への変換", () => {
+  const data = buildLinkData(buildLinkGraph(pages), pages);
+
+  it("GraphMLに変換できる", () => {
+    const xml = toGraphML(data);
+
+    expect(xml).toContain('<graph id="G" edgedefault="directed">');
+    expect(xml).toContain('<node id="n0"><data key="title">ページA</data>');
+    expect(xml).toContain('<data key="missing">true</data>');
+    expect(xml).toContain('<edge id="e1" source="n0" target="n2"><data key="type">hashtag</data></edge>');
+  });
+
+  it("DOTに変換できる（存在しないページは破線）", () => {
+    const dot = toDot(data, "プロジェクト");
+
+    expect(dot).toMatch(/^digraph "プロジェクト" \{/);
+    expect(dot).toContain('"ページA" -> "ページB" [type=internal];');
+    expect(dot).toContain('"ページA" -> "タグ" [type=hashtag, style=dotted];');
+    expect(dot).toContain('"未作成" [label="未作成", style=dashed, missing=true];');
+  });
+
+  it("DOTの文字列をエスケープする", () => {
+    const dot = toDot({
+      nodes: [
+        { title: 'a"b\\c', url: null, created: null, updated: null, inDegree: 0, outDegree: 0, missing: true },
+      ],
+      edges: [],
+    });
+
+    expect(dot).toContain('"a\\"b\\\\c"');
+  });
+
+  it("GEXFに変換できる", () => {
+    const xml = toGexf(data);
+
+    expect(xml).toContain('<gexf xmlns="http://gexf.net/1.3" version="1.3">');
+    expect(xml).toContain('<node id="n2" label="タグ"><attvalues><attvalue for="missing" value="true"/></attvalues></node>');
+    expect(xml).toContain('<attvalue for="type" value="internal"/>');
+  });
+
+  it("XMLの特殊文字をエスケープする", () => {
+    const xml = toGraphML({
+      nodes: [
+        { title: "<a & b>", url: null, created: null, updated: null, inDegree: 0, outDegree: 0, missing: true },
+      ],
+      edges: [],
+    });
+
+    expect(xml).toContain("&lt;a &amp; b&gt;");
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * 数式レンダリングのユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { renderMath } from "../../src/generator/math-renderer.js";
+
+describe("renderMath", () => {
+  it("数式をKaTeXのHTMLとMathMLに変換する", () => {
+    const result = renderMath("E = mc^2");
+    expect(result.success).toBe(true);
+    expect(result.html).toContain('class="katex"');
+    expect(result.html).toContain("<math");
+    expect(result.html).toContain('<span class="math">');
+  });
+
+  it("ブロック表示ではmath-displayクラスを付与する", () => {
+    const result = renderMath("\\sum_{i=1}^n i", true);
+    expect(result.success).toBe(true);
+    expect(result.html).toContain("math-display");
+    expect(result.html).toContain("katex-display");
+  });
+
+  it("パースに失敗した場合は元の数式をテキストで表示する", () => {
+    const result = renderMath("\\frac{1}{");
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+    expect(result.html).toContain("math-error");
+    expect(result.html).toContain("\\frac{1}{");
+    expect(result.html).not.toContain('class="katex"');
+  });
+
+  it("フォールバック表示ではHTMLをエスケープする", () => {
+    const result = renderMath("\\undefinedcommand <script>");
+    expect(result.success).toBe(false);
+    expect(result.html).toContain("&lt;script&gt;");
+  });
+});
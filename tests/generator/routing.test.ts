@@ -0,0 +1,91 @@
+/**
+ * ルーティングのユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  generatePageFilename,
+  generateTagFilename,
+  generateTagFeedFilename,
+  generateLocalGraphFilename,
+  getPageUrlFromIndex,
+  getPageUrlFromPage,
+  getTagUrlFromIndex,
+  getTagUrlFromPage,
+  getTagFeedUrl,
+  getLocalGraphUrlFromPage,
+  getPageId,
+} from "../../src/generator/routing.js";
+
+describe("generatePageFilename", () => {
+  it("ページタイトルからファイル名を生成する", () => {
+    const filename = generatePageFilename("テストページ");
+    expect(filename).toMatch(/\.html$/);
+  });
+
+  it("特殊文字をエンコードする", () => {
+    const filename = generatePageFilename("Test/Page");
+    expect(filename).not.toContain("/");
+  });
+
+  it("空白を含むタイトルは正規化キー（小文字、空白を_）のファイル名になる", () => {
+    const filename = generatePageFilename("Test Page");
+    expect(filename).toBe("test_page.html");
+  });
+
+  it("表記の揺れは同じファイル名になる", () => {
+    expect(generatePageFilename("foo_bar")).toBe(generatePageFilename("Foo Bar"));
+  });
+
+  it("長いタイトルはハッシュベースのファイル名になる", () => {
+    expect(generatePageFilename("あ".repeat(100))).toMatch(/^page_[0-9a-f]{32}\.html$/);
+  });
+});
+
+describe("ページのURL", () => {
+  it("ファイル名をURLエンコードする（.htmlの.は維持）", () => {
+    expect(getPageUrlFromPage("A/B?#")).toBe(`${encodeURIComponent("a_b?#")}.html`);
+    expect(getPageUrlFromIndex("A/B?#")).toBe(`pages/${getPageUrlFromPage("A/B?#")}`);
+  });
+});
+
+describe("getPageId", () => {
+  it("エクスポートにIDがあればそれを使う", () => {
+    expect(getPageId({ title: "ページ", id: "abc" })).toBe("abc");
+  });
+
+  it("IDがなければ正規化キーから同じIDを作る", () => {
+    expect(getPageId({ title: "Foo Bar" })).toBe(getPageId({ title: "foo_bar" }));
+    expect(getPageId({ title: "Foo Bar" })).not.toBe(getPageId({ title: "Foo" }));
+    expect(getPageId({ title: "Foo Bar" })).toMatch(/^[0-9a-f]{32}$/);
+  });
+});
+
+describe("タグのファイル名", () => {
+  it("タグのページ一覧のファイル名はタグ一覧と重ならない", () => {
+    expect(generateTagFilename("会議")).toBe(generatePageFilename("会議"));
+    expect(generateTagFilename("Index")).toMatch(/^tag_[0-9a-f]{32}\.html$/);
+  });
+
+  it("フィードのファイル名とリンクURLを生成する", () => {
+    expect(generateTagFeedFilename("会議")).toBe("会議.xml");
+    expect(getTagUrlFromPage("会議")).toBe(`../tags/${encodeURIComponent("会議")}.html`);
+  });
+
+  it("タグのURLはファイル名をURLエンコードする（拡張子の.は維持）", () => {
+    expect(getTagUrlFromIndex("v1.0 会議")).toBe(`tags/v1.0_${encodeURIComponent("会議")}.html`);
+    expect(getTagUrlFromPage("v1.0 会議")).toBe(`../${getTagUrlFromIndex("v1.0 会議")}`);
+    expect(getTagFeedUrl("v1.0 会議")).toBe(`tags/v1.0_${encodeURIComponent("会議")}.xml`);
+    expect(getTagFeedUrl("A/B?#")).toBe(`tags/${encodeURIComponent("a_b?#")}.xml`);
+  });
+});
+
+describe("ローカルグラフのファイル名", () => {
+  it("ページのファイル名の拡張子を .json にする", () => {
+    expect(generateLocalGraphFilename("Page Title")).toBe("page_title.json");
+    expect(generateLocalGraphFilename("あ".repeat(100))).toMatch(/^page_[0-9a-f]{32}\.json$/);
+  });
+
+  it("ページからのURLは local-graph/ のファイル名をURLエンコードする", () => {
+    expect(getLocalGraphUrlFromPage("v1.0 会議")).toBe(`../local-graph/v1.0_${encodeURIComponent("会議")}.json`);
+  });
+});
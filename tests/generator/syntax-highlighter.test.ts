@@ -0,0 +1,38 @@
+/**
+ * シンタックスハイライトのユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  highlightCode,
+  resolveHighlightLanguage,
+} from "../../src/generator/syntax-highlighter.js";
+
+describe("resolveHighlightLanguage", () => {
+  it("拡張子・言語名の別名を解決する", () => {
+    expect(resolveHighlightLanguage("js")).toBe("javascript");
+    expect(resolveHighlightLanguage("py")).toBe("python");
+    expect(resolveHighlightLanguage("tsx")).toBe("typescript");
+    expect(resolveHighlightLanguage("html")).toBe("xml");
+  });
+
+  it("拡張子のないファイル名を解決する", () => {
+    expect(resolveHighlightLanguage("makefile")).toBe("makefile");
+    expect(resolveHighlightLanguage("Dockerfile")).toBe("dockerfile");
+  });
+
+  it("対応する言語がない場合はnullを返す", () => {
+    expect(resolveHighlightLanguage("")).toBeNull();
+    expect(resolveHighlightLanguage("unknownlang")).toBeNull();
+  });
+});
+
+describe("highlightCode", () => {
+  it("トークンをクラス付きのspanに変換する", () => {
+    const html = highlightCode('print("hello")', "py");
+    expect(html).toContain('<span class="hljs-string">&quot;hello&quot;</span>');
+  });
+
+  it("対応する言語がない場合はエスケープしたコードを返す", () => {
+    expect(highlightCode("a < b", "unknownlang")).toBe("a &lt; b");
+  });
+});
@@ -84,6 +84,57 @@ describe("parseLine - 外部リンク", () => {
   });
 });
 
+describe("parseLine - 括弧なしのURL", () => {
+  const findLink = (line: string) =>
+    parseLine(line).nodes.find((n) => n.type === "external-link");
+
+  it("本文中のURLを外部リンクにする", () => {
+    const result = parseLine("詳しくは https://example.com を参照");
+    expect(result.nodes.map((n) => n.type)).toEqual(["text", "external-link", "text"]);
+    expect(result.nodes[1]).toMatchObject({
+      url: "https://example.com",
+      title: "https://example.com",
+      bare: true,
+    });
+  });
+
+  it("末尾の英語の句読点はURLに含めない", () => {
+    expect(findLink("See https://example.com/a.")).toMatchObject({
+      url: "https://example.com/a",
+    });
+    expect(findLink("(https://example.com/a), next")).toMatchObject({
+      url: "https://example.com/a",
+    });
+  });
+
+  it("日本語の句読点・括弧の手前でURLを終える", () => {
+    expect(findLink("https://example.com/a。次の文")).toMatchObject({
+      url: "https://example.com/a",
+    });
+    expect(findLink("「https://example.com/a」")).toMatchObject({
+      url: "https://example.com/a",
+    });
+  });
+
+  it("対応する括弧はURLに含める", () => {
+    expect(findLink("https://en.wikipedia.org/wiki/Foo_(bar)")).toMatchObject({
+      url: "https://en.wikipedia.org/wiki/Foo_(bar)",
+    });
+  });
+
+  it("英数字の直後のURLはリンクにしない", () => {
+    expect(findLink("abchttps://example.com")).toBeUndefined();
+  });
+
+  it("ホスト名のないURLはリンクにしない", () => {
+    expect(findLink("https:// だけ")).toBeUndefined();
+  });
+
+  it("インラインコード内のURLはリンクにしない", () => {
+    expect(findLink("`https://example.com`")).toBeUndefined();
+  });
+});
+
 describe("parseLine - 外部プロジェクトリンク", () => {
   it("[/project/ページ名] 形式", () => {
     const result = parseLine("[/help-jp/ブラケティング]");
@@ -193,6 +244,135 @@ describe("parseLine - 画像", () => {
   });
 });
 
+describe("parseLine - 強調画像・リンク付き画像", () => {
+  it("二重括弧の画像URL [[https://gyazo.com/xxx]] は強調画像", () => {
+    const result = parseLine("[[https://gyazo.com/abc123]]");
+    expect(result.nodes[0]).toMatchObject({
+      type: "image",
+      url: "https://gyazo.com/abc123",
+      strong: true,
+    });
+  });
+
+  it("太字記法内の画像URLも強調画像", () => {
+    const result = parseLine("[* https://example.com/image.png]");
+    expect(result.nodes[0]).toMatchObject({ type: "image", strong: true });
+  });
+
+  it("二重括弧の画像でないテキストは太字のまま", () => {
+    const result = parseLine("[[https://example.com]]");
+    expect(result.nodes[0].type).toBe("bold");
+  });
+
+  it("[画像URL リンクURL] はリンク付き画像", () => {
+    const result = parseLine("[https://example.com/image.png https://example.com/page]");
+    expect(result.nodes[0]).toMatchObject({
+      type: "image-link",
+      url: "https://example.com/image.png",
+      href: "https://example.com/page",
+    });
+  });
+
+  it("[リンクURL 画像URL] の順でもリンク付き画像", () => {
+    const result = parseLine("[https://example.com/page https://gyazo.com/abc123]");
+    expect(result.nodes[0]).toMatchObject({
+      type: "image-link",
+      url: "https://gyazo.com/abc123",
+      href: "https://example.com/page",
+    });
+  });
+
+  it("ローカル画像パスのリンク付き画像", () => {
+    const result = parseLine("[../assets/images/abc.png https://example.com]");
+    expect(result.nodes[0]).toMatchObject({
+      type: "image-link",
+      url: "../assets/images/abc.png",
+      href: "https://example.com",
+    });
+  });
+
+  it("[タイトル 画像URL] はリンク付き画像にならない", () => {
+    const result = parseLine("[タイトル https://example.com/image.png]");
+    expect(result.nodes[0].type).toBe("image");
+  });
+});
+
+describe("parseLine - 位置情報", () => {
+  it("[N35.68,E139.76,Z14 東京]", () => {
+    const result = parseLine("[N35.68,E139.76,Z14 東京]");
+    expect(result.nodes[0]).toMatchObject({
+      type: "location",
+      latitude: 35.68,
+      longitude: 139.76,
+      zoom: 14,
+      name: "東京",
+    });
+  });
+
+  it("南緯・西経は負の値になる", () => {
+    const result = parseLine("[S33.86,W151.2,Z10]");
+    expect(result.nodes[0]).toMatchObject({
+      type: "location",
+      latitude: -33.86,
+      longitude: -151.2,
+      zoom: 10,
+    });
+  });
+
+  it("範囲外の座標は内部リンクとして扱う", () => {
+    const result = parseLine("[N95,E139,Z14]");
+    expect(result.nodes[0].type).toBe("internal-link");
+  });
+});
+
+describe("parseLine - 動画・音声・埋め込み", () => {
+  it("動画URL [https://example.com/movie.mp4]", () => {
+    const result = parseLine("[https://example.com/movie.mp4]");
+    expect(result.nodes[0]).toEqual({
+      type: "video",
+      raw: "[https://example.com/movie.mp4]",
+      start: 0,
+      end: 31,
+      url: "https://example.com/movie.mp4",
+    });
+  });
+
+  it("音声URL [https://example.com/sound.mp3]", () => {
+    const result = parseLine("[https://example.com/sound.mp3]");
+    expect(result.nodes[0].type).toBe("audio");
+  });
+
+  it.each([
+    ["https://www.youtube.com/watch?v=dQw4w9WgXcQ", "youtube", "dQw4w9WgXcQ"],
+    ["https://youtu.be/dQw4w9WgXcQ", "youtube", "dQw4w9WgXcQ"],
+    ["https://www.youtube.com/watch?list=PL1&v=dQw4w9WgXcQ", "youtube", "dQw4w9WgXcQ"],
+    ["https://vimeo.com/123456", "vimeo", "123456"],
+    ["https://twitter.com/user/status/1234567890", "twitter", "1234567890"],
+    ["https://x.com/user/status/1234567890", "twitter", "1234567890"],
+    ["https://open.spotify.com/track/abc123", "spotify", "abc123"],
+    ["https://soundcloud.com/artist/track-name", "soundcloud", "artist/track-name"],
+  ])("埋め込みURL %s", (url, provider, id) => {
+    const result = parseLine(`[${url}]`);
+    const node = result.nodes[0];
+    expect(node.type).toBe("embed");
+    if (node.type === "embed") {
+      expect(node.provider).toBe(provider);
+      expect(node.id).toBe(id);
+      expect(node.url).toBe(url);
+    }
+  });
+
+  it("Spotifyは種類も取得する", () => {
+    const node = parseLine("[https://open.spotify.com/album/xyz]").nodes[0];
+    expect(node.type === "embed" && node.embedType).toBe("album");
+  });
+
+  it("タイトル付きのURLは外部リンクのまま", () => {
+    const result = parseLine("[https://www.youtube.com/watch?v=dQw4w9WgXcQ 動画]");
+    expect(result.nodes[0].type).toBe("external-link");
+  });
+});
+
 describe("parseLine - アイコン", () => {
   it("[user.icon] 形式", () => {
     const result = parseLine("[mtane0412.icon]");
@@ -203,6 +383,22 @@ describe("parseLine - アイコン", () => {
     }
   });
 
+  it("繰り返し回数なしの場合は1", () => {
+    const result = parseLine("[mtane0412.icon]");
+    const iconNode = result.nodes[0];
+    expect(iconNode.type === "icon" && iconNode.count).toBe(1);
+  });
+
+  it("[user.icon*3] 形式で繰り返し回数を取得する", () => {
+    const result = parseLine("[mtane0412.icon*3]");
+    const iconNode = result.nodes.find((n) => n.type === "icon") as ParsedNode;
+    expect(iconNode).toBeDefined();
+    if (iconNode.type === "icon") {
+      expect(iconNode.user).toBe("mtane0412");
+      expect(iconNode.count).toBe(3);
+    }
+  });
+
   it("文中のアイコン", () => {
     const result = parseLine("こんにちは[user.icon]です");
     const iconNode = result.nodes.find((n) => n.type === "icon") as ParsedNode;
@@ -239,19 +435,20 @@ describe("parseLine - ハッシュタグ", () => {
 describe("parseLine - 装飾記法", () => {
   it("太字 [* text]", () => {
     const result = parseLine("[* 太字テスト]");
-    const boldNode = result.nodes.find((n) => n.type === "bold") as ParsedNode;
-    expect(boldNode).toBeDefined();
-    if (boldNode.type === "bold") {
-      expect(boldNode.level).toBe(1);
+    const decoNode = result.nodes.find((n) => n.type === "decoration") as ParsedNode;
+    expect(decoNode).toBeDefined();
+    if (decoNode.type === "decoration") {
+      expect(decoNode.styles).toEqual(["bold"]);
+      expect(decoNode.level).toBe(1);
     }
   });
 
   it("強い太字 [*** text]", () => {
     const result = parseLine("[*** 強調]");
-    const boldNode = result.nodes.find((n) => n.type === "bold") as ParsedNode;
-    expect(boldNode).toBeDefined();
-    if (boldNode.type === "bold") {
-      expect(boldNode.level).toBe(3);
+    const decoNode = result.nodes.find((n) => n.type === "decoration") as ParsedNode;
+    expect(decoNode).toBeDefined();
+    if (decoNode.type === "decoration") {
+      expect(decoNode.level).toBe(3);
     }
   });
 
@@ -263,24 +460,80 @@ describe("parseLine - 装飾記法", () => {
 
   it("斜体 [/ text]", () => {
     const result = parseLine("[/ 斜体テスト]");
-    const italicNode = result.nodes.find((n) => n.type === "italic") as ParsedNode;
-    expect(italicNode).toBeDefined();
+    const decoNode = result.nodes.find((n) => n.type === "decoration") as ParsedNode;
+    expect(decoNode).toBeDefined();
+    if (decoNode.type === "decoration") {
+      expect(decoNode.styles).toEqual(["italic"]);
+      expect(decoNode.level).toBe(0);
+    }
   });
 
   it("打消し線 [- text]", () => {
     const result = parseLine("[- 打消し]");
-    const strikeNode = result.nodes.find(
-      (n) => n.type === "strikethrough"
-    ) as ParsedNode;
-    expect(strikeNode).toBeDefined();
+    const decoNode = result.nodes.find((n) => n.type === "decoration") as ParsedNode;
+    expect(decoNode).toBeDefined();
+    if (decoNode.type === "decoration") {
+      expect(decoNode.styles).toEqual(["strikethrough"]);
+    }
   });
 
   it("下線 [_ text]", () => {
     const result = parseLine("[_ 下線]");
-    const underlineNode = result.nodes.find(
-      (n) => n.type === "underline"
-    ) as ParsedNode;
-    expect(underlineNode).toBeDefined();
+    const decoNode = result.nodes.find((n) => n.type === "decoration") as ParsedNode;
+    expect(decoNode).toBeDefined();
+    if (decoNode.type === "decoration") {
+      expect(decoNode.styles).toEqual(["underline"]);
+    }
+  });
+
+  it("装飾記号の組み合わせ [*/ text]", () => {
+    const result = parseLine("[*/ 太字斜体]");
+    expect(result.nodes).toHaveLength(1);
+    const decoNode = result.nodes[0];
+    expect(decoNode.type).toBe("decoration");
+    if (decoNode.type === "decoration") {
+      expect(decoNode.styles).toEqual(["bold", "italic"]);
+      expect(decoNode.level).toBe(1);
+    }
+  });
+
+  it("装飾記号の組み合わせ [-*_ text]", () => {
+    const result = parseLine("[-*_ 複合]");
+    const decoNode = result.nodes[0];
+    if (decoNode.type === "decoration") {
+      expect(decoNode.styles).toEqual(["strikethrough", "bold", "underline"]);
+    } else {
+      expect.fail("decoration node expected");
+    }
+  });
+
+  it("太字レベルは*の数（他の記号が混ざっていても数える）", () => {
+    const result = parseLine("[*/** 大きい斜体]");
+    const decoNode = result.nodes[0];
+    if (decoNode.type === "decoration") {
+      expect(decoNode.level).toBe(3);
+      expect(decoNode.styles).toEqual(["bold", "italic"]);
+    } else {
+      expect.fail("decoration node expected");
+    }
+  });
+
+  it("その他の装飾記号 [! text] [# text] [~ text]", () => {
+    const styles = ["[! 感嘆]", "[# シャープ]", "[~ チルダ]"].map((line) => {
+      const node = parseLine(line).nodes[0];
+      return node.type === "decoration" ? node.styles : [];
+    });
+    expect(styles).toEqual([["exclamation"], ["sharp"], ["tilde"]]);
+  });
+
+  it("装飾の中身もパースされる", () => {
+    const result = parseLine("[*/ `コード`を含む]");
+    const decoNode = result.nodes[0];
+    if (decoNode.type === "decoration") {
+      expect(decoNode.children.some((n) => n.type === "code")).toBe(true);
+    } else {
+      expect.fail("decoration node expected");
+    }
   });
 });
 
@@ -313,10 +566,24 @@ describe("parseLine - コードブロック", () => {
     expect(result.codeBlockLang).toBe("js");
   });
 
-  it("code:filename 形式（拡張子なし）", () => {
+  it("code:filename 形式（拡張子なし）はファイル名を言語とする", () => {
     const result = parseLine("code:Dockerfile");
     expect(result.isCodeBlock).toBe(true);
-    expect(result.codeBlockLang).toBe("");
+    expect(result.codeBlockFilename).toBe("Dockerfile");
+    expect(result.codeBlockLang).toBe("dockerfile");
+  });
+
+  it("code:lang 形式（言語名のみ）", () => {
+    const result = parseLine("code:py");
+    expect(result.codeBlockFilename).toBe("py");
+    expect(result.codeBlockLang).toBe("py");
+  });
+
+  it("code:filename(lang) 形式は括弧内を言語とする", () => {
+    const result = parseLine("code:example.txt(js)");
+    expect(result.isCodeBlock).toBe(true);
+    expect(result.codeBlockFilename).toBe("example.txt");
+    expect(result.codeBlockLang).toBe("js");
   });
 });
 
@@ -332,6 +599,280 @@ describe("parseLines - コードブロック複数行", () => {
   });
 });
 
+describe("parseLine - テーブル", () => {
+  it("table:name 形式", () => {
+    const result = parseLine("table:料金表");
+    expect(result.isTable).toBe(true);
+    expect(result.tableName).toBe("料金表");
+  });
+
+  it("テーブル外のインデント行は通常行", () => {
+    const result = parseLine(" A\tB");
+    expect(result.isTableContent).toBe(false);
+  });
+});
+
+describe("parseLines - テーブル複数行", () => {
+  it("テーブル内の行はタブ区切りでセルに分割される", () => {
+    const lines = ["table:料金表", " プラン\t価格", " 基本\t1000円", "通常行"];
+    const results = parseLines(lines);
+
+    expect(results[0].isTable).toBe(true);
+    expect(results[1].isTableContent).toBe(true);
+    expect(results[1].tableCells).toHaveLength(2);
+    expect(results[2].isTableContent).toBe(true);
+    expect(results[3].isTableContent).toBe(false);
+  });
+
+  it("セル内のリンクや装飾もパースされる", () => {
+    const lines = ["table:test", " [リンク]\t[* 太字]"];
+    const results = parseLines(lines);
+    const cells = results[1].tableCells!;
+
+    expect(cells[0].some((n) => n.type === "internal-link")).toBe(true);
+    expect(cells[1].some((n) => n.type === "decoration")).toBe(true);
+    // nodesには全セルのノードが含まれる
+    expect(results[1].nodes.some((n) => n.type === "internal-link")).toBe(true);
+  });
+
+  it("テーブルと同じインデントの行でテーブルが終了する", () => {
+    const lines = [" table:test", "  A\tB", " 箇条書き"];
+    const results = parseLines(lines);
+
+    expect(results[1].isTableContent).toBe(true);
+    expect(results[2].isTableContent).toBe(false);
+    expect(results[2].indent).toBe(1);
+  });
+});
+
+describe("parseLine - 番号付きリスト", () => {
+  it("インデント + 1. text 形式", () => {
+    const result = parseLine(" 1. 最初の項目");
+    expect(result.isNumberedList).toBe(true);
+    expect(result.listNumber).toBe(1);
+    expect(result.nodes.some((n) => n.type === "text" && n.text === "最初の項目")).toBe(true);
+  });
+
+  it("番号付きリストの中身もパースされる", () => {
+    const result = parseLine("  3. [リンク]を含む");
+    expect(result.listNumber).toBe(3);
+    expect(result.nodes.some((n) => n.type === "internal-link")).toBe(true);
+  });
+
+  it("インデントなしの 1. は通常行", () => {
+    const result = parseLine("1. 番号");
+    expect(result.isNumberedList).toBe(false);
+  });
+});
+
+describe("parseLine - コマンドライン", () => {
+  it("$ command 形式", () => {
+    const result = parseLine("$ npm install");
+    expect(result.isCommandLine).toBe(true);
+    expect(result.commandPrefix).toBe("$");
+    expect(result.prefix).toBe("$ ");
+    expect(result.nodes).toEqual([
+      { type: "text", raw: "npm install", start: 2, end: 13, text: "npm install" },
+    ]);
+  });
+
+  it("% command 形式", () => {
+    const result = parseLine(" % ls -la");
+    expect(result.isCommandLine).toBe(true);
+    expect(result.commandPrefix).toBe("%");
+    expect(result.indent).toBe(1);
+  });
+
+  it("コマンドは記法として解釈しない", () => {
+    const result = parseLine("$ echo [not a link]");
+    expect(result.nodes.some((n) => n.type === "internal-link")).toBe(false);
+  });
+
+  it("[$ formula] は数式のまま", () => {
+    const result = parseLine("[$ x^2]");
+    expect(result.isCommandLine).toBe(false);
+    expect(result.nodes.some((n) => n.type === "math")).toBe(true);
+  });
+});
+
+describe("parseLine - Helpfeel", () => {
+  it("? 質問文 形式", () => {
+    const result = parseLine("? 画像をダウンロードするには");
+    expect(result.isHelpfeel).toBe(true);
+    expect(result.nodes).toEqual([
+      {
+        type: "text",
+        raw: "画像をダウンロードするには",
+        start: 2,
+        end: 15,
+        text: "画像をダウンロードするには",
+      },
+    ]);
+  });
+
+  it("?の後にスペースがない場合は通常行", () => {
+    const result = parseLine("?なぜ");
+    expect(result.isHelpfeel).toBe(false);
+  });
+});
+
+describe("parseLine - 入れ子の括弧", () => {
+  it("装飾の中のリンク [* see [Page]]", () => {
+    const result = parseLine("[* see [Page]]");
+    expect(result.nodes).toHaveLength(1);
+    const deco = result.nodes[0];
+    expect(deco.type).toBe("decoration");
+    if (deco.type === "decoration") {
+      expect(deco.children.map((n) => n.type)).toEqual(["text", "internal-link"]);
+      expect(deco.children[1]).toMatchObject({ title: "Page", start: 7, end: 13 });
+    }
+  });
+
+  it("斜体の中のリンク [/ text with [link]]", () => {
+    const result = parseLine("前[/ text with [link]]後");
+    expect(result.nodes.map((n) => n.type)).toEqual(["text", "decoration", "text"]);
+  });
+
+  it("二重括弧太字の中のリンク [[bold [link]]]", () => {
+    const result = parseLine("[[bold [link]]]");
+    const bold = result.nodes[0];
+    expect(bold.type).toBe("bold");
+    if (bold.type === "bold") {
+      expect(bold.children.map((n) => n.type)).toEqual(["text", "internal-link"]);
+    }
+  });
+
+  it("URLに括弧を含められる", () => {
+    const result = parseLine("[https://example.com/?q=[x]]");
+    expect(result.nodes[0]).toMatchObject({
+      type: "external-link",
+      url: "https://example.com/?q=[x]",
+    });
+  });
+
+  it("外部リンクのタイトルに括弧を含められる", () => {
+    const result = parseLine("[https://example.com 仕様 [draft]]");
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0]).toMatchObject({
+      type: "external-link",
+      url: "https://example.com",
+      title: "仕様 [draft]",
+    });
+  });
+
+  it("内部リンクの中の括弧は内側だけをリンクにする", () => {
+    const result = parseLine("[a [b] c]");
+    expect(result.nodes.map((n) => n.raw)).toEqual(["[a ", "[b]", " c]"]);
+    expect(result.nodes[1].type).toBe("internal-link");
+  });
+
+  it("数式の中の括弧 [$ \\sqrt[3]{x}]", () => {
+    const result = parseLine("[$ \\sqrt[3]{x}]");
+    expect(result.nodes[0]).toMatchObject({ type: "math", formula: "\\sqrt[3]{x}" });
+  });
+
+  it("コードの中の ] は閉じ括弧として扱わない", () => {
+    const result = parseLine("[* a `]` b]");
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0].type).toBe("decoration");
+  });
+});
+
+describe("parseLine - 閉じていない括弧", () => {
+  it("閉じていない [ は文字として扱い、後続の記法はパースする", () => {
+    const result = parseLine("[foo [bar]");
+    expect(result.nodes.map((n) => n.raw)).toEqual(["[foo ", "[bar]"]);
+    expect(result.nodes[1].type).toBe("internal-link");
+  });
+
+  it("対応のない ] は文字として扱う", () => {
+    const result = parseLine("a] [b]");
+    expect(result.nodes.map((n) => n.type)).toEqual(["text", "internal-link"]);
+  });
+
+  it("閉じていないバッククォートは文字として扱う", () => {
+    const result = parseLine("`abc [link]");
+    expect(result.nodes.map((n) => n.type)).toEqual(["text", "internal-link"]);
+  });
+
+  it("空の括弧 [] は文字として扱う", () => {
+    const result = parseLine("[] [[]]");
+    expect(result.nodes.every((n) => n.type === "text")).toBe(true);
+  });
+});
+
+describe("parseLine - エスケープ", () => {
+  it("\\[ \\] は文字としての括弧になる", () => {
+    const result = parseLine("\\[not a link\\]");
+    expect(result.nodes).toEqual([
+      { type: "text", raw: "\\[not a link\\]", start: 0, end: 14, text: "[not a link]" },
+    ]);
+  });
+
+  it("\\# はハッシュタグにならない", () => {
+    const result = parseLine("\\#tag");
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0]).toMatchObject({ type: "text", text: "#tag" });
+  });
+
+  it("\\` はインラインコードにならない", () => {
+    const result = parseLine("\\`a\\`");
+    expect(result.nodes[0]).toMatchObject({ type: "text", text: "`a`" });
+  });
+
+  it("リンクの中のエスケープした括弧", () => {
+    const result = parseLine("[a\\]b]");
+    expect(result.nodes[0]).toMatchObject({ type: "internal-link", title: "a]b" });
+  });
+
+  it("装飾の中のエスケープした括弧", () => {
+    const result = parseLine("[* \\[注\\]]");
+    const deco = result.nodes[0];
+    expect(deco.type).toBe("decoration");
+    if (deco.type === "decoration") {
+      expect(deco.children[0]).toMatchObject({ type: "text", text: "[注]" });
+    }
+  });
+
+  it("エスケープできない文字の前のバックスラッシュはそのまま", () => {
+    const result = parseLine("C:\\Users\\name");
+    expect(result.nodes[0]).toMatchObject({ type: "text", text: "C:\\Users\\name" });
+  });
+
+  it("複数のバッククォートで囲むとバッククォートを含むコードになる", () => {
+    const result = parseLine("``a`b`` と `` `x` ``");
+    const codes = result.nodes.filter((n) => n.type === "code");
+    expect(codes.map((n) => (n.type === "code" ? n.code : ""))).toEqual(["a`b", "`x`"]);
+  });
+});
+
+describe("parseLine - 回帰コーパス", () => {
+  // 実際のページで見られた、パースを誤りやすい行とトップレベルのノードの種類
+  const corpus: [string, string[]][] = [
+    ["[* 重要][ページ]", ["decoration", "internal-link"]],
+    ["[** 見出し [リンク] と #タグ]", ["decoration"]],
+    ["配列 a[0] と a[i]", ["text", "internal-link", "text", "internal-link"]],
+    ["[[ ]]", ["bold"]],
+    ["[https://example.com/?q=[x]] の検索", ["external-link", "text"]],
+    ["[タイトル https://example.com] です", ["external-link", "text"]],
+    ["`[not link]` と [link]", ["code", "text", "internal-link"]],
+    ["[$ f(x) = [x]]", ["math"]],
+    ["]][[ 逆順の括弧", ["text"]],
+    ["[[[三重]]]", ["bold"]],
+    ["[- [* 入れ子の装飾]]", ["decoration"]],
+    ["#タグ[リンク]#次", ["hashtag", "internal-link", "hashtag"]],
+    ["\\[[リンク]\\]", ["text", "internal-link", "text"]],
+    ["[/project/page] [/project/[x]]", ["external-project-link", "text", "internal-link", "text"]],
+    ["末尾が [", ["text"]],
+  ];
+
+  for (const [line, types] of corpus) {
+    it(line, () => {
+      expect(parseLine(line).nodes.map((n) => n.type)).toEqual(types);
+    });
+  }
+});
+
 describe("parseLine - 複合", () => {
   it("複数の記法が混在する行", () => {
     const result = parseLine("これは[リンク]と`コード`と #タグ です");
@@ -0,0 +1,236 @@
+/**
+ * 行シリアライザーのユニットテスト
+ * パース結果から元の行を復元できること（ラウンドトリップ）と位置情報の整合性を検証する
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { parseLine, parseLines } from "../../src/parser/line-parser.js";
+import {
+  stringifyLine,
+  stringifyNode,
+  rewriteImageUrls,
+} from "../../src/parser/line-stringifier.js";
+import type { ParsedLine, ParsedNode } from "../../src/parser/line-types.js";
+
+/**
+ * 既存のテストで使っている文字列リテラルをすべて行のフィクスチャとして集める
+ */
+function loadFixtureLines(): string[] {
+  const files = [
+    path.join(__dirname, "line-parser.test.ts"),
+    path.join(__dirname, "../generator/html-generator.test.ts"),
+    path.join(__dirname, "../analyzer/search-index.test.ts"),
+  ];
+  const lines = new Set<string>();
+  for (const file of files) {
+    const source = fs.readFileSync(file, "utf-8");
+    for (const match of source.matchAll(/"((?:[^"\\\n]|\\.)*)"/g)) {
+      try {
+        lines.add(JSON.parse(match[0]));
+      } catch {
+        // JSONとして解釈できないリテラルは対象外
+      }
+    }
+  }
+  return Array.from(lines);
+}
+
+/**
+ * 記法の記号を多く含むランダムな行を生成する（シード付きで再現可能）
+ */
+function generateRandomLines(count: number, seed: number): string[] {
+  const pieces = [
+    "[", "]", "[[", "]]", "*", "/", "-", "_", "!", "#", "$", "%", "?", ">",
+    "`", " ", "\t", "　", "a", "あ", "漢", ".", "1. ", "code:a.js", "table:t",
+    ".icon", "https://example.com/a.png", "https://gyazo.com/abc", "$ ", "? ",
+    "\\", "\\[", "``", "[* ", "[[", "]]]", "[$ ", "(", ")", "。",
+  ];
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  const lines: string[] = [];
+  for (let i = 0; i < count; i++) {
+    let line = "";
+    const length = Math.floor(random() * 12);
+    for (let j = 0; j < length; j++) {
+      line += pieces[Math.floor(random() * pieces.length)];
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * ノードの位置がrawと一致し、兄弟ノードが隙間なく並んでいることを検証する
+ */
+function expectContiguousNodes(line: string, nodes: ParsedNode[], start: number): number {
+  let position = start;
+  for (const node of nodes) {
+    expect(node.start).toBe(position);
+    expect(line.slice(node.start, node.end)).toBe(node.raw);
+    if ((node.type === "bold" || node.type === "decoration") && node.children.length > 0) {
+      const childrenEnd = expectContiguousNodes(line, node.children, node.children[0].start);
+      expect(node.children[0].start).toBeGreaterThan(node.start);
+      expect(childrenEnd).toBeLessThan(node.end);
+    }
+    position = node.end;
+  }
+  return position;
+}
+
+/**
+ * 行のパース結果の位置情報を検証する
+ */
+function expectValidPositions(line: string, parsed: ParsedLine): void {
+  const contentStart = parsed.indentText.length + parsed.prefix.length;
+  if (parsed.isTableContent && parsed.tableCells) {
+    let cellStart = contentStart;
+    for (const cell of parsed.tableCells) {
+      cellStart = expectContiguousNodes(line, cell, cellStart) + 1;
+    }
+  } else if (parsed.nodes.length > 0) {
+    expect(expectContiguousNodes(line, parsed.nodes, contentStart)).toBe(line.length);
+  }
+}
+
+const fixtureLines = loadFixtureLines();
+const randomLines = generateRandomLines(500, 42);
+
+describe("stringifyLine - ラウンドトリップ", () => {
+  it("既存テストのフィクスチャがすべて元の行に戻る", () => {
+    expect(fixtureLines.length).toBeGreaterThan(100);
+    for (const line of fixtureLines) {
+      expect(stringifyLine(parseLine(line))).toBe(line);
+    }
+  });
+
+  it("コードブロック内・テーブル内として解釈しても元の行に戻る", () => {
+    for (const line of [...fixtureLines, ...randomLines]) {
+      const indented = ` ${line}`;
+      expect(stringifyLine(parseLine(indented, true))).toBe(indented);
+      expect(stringifyLine(parseLine(indented, false, true))).toBe(indented);
+    }
+  });
+
+  it("記号を多く含むランダムな行が元の行に戻る", () => {
+    for (const line of randomLines) {
+      expect(stringifyLine(parseLine(line))).toBe(line);
+    }
+  });
+
+  it("引用・番号付きリスト・コマンドライン・Helpfeelの行頭記号を保持する", () => {
+    const lines = ["> 引用", ">引用", ">", " 1. 項目", "$ npm test", "  % ls", "? 質問"];
+    for (const line of lines) {
+      expect(stringifyLine(parseLine(line))).toBe(line);
+    }
+    expect(parseLine(" 1. 項目").prefix).toBe("1. ");
+    expect(parseLine(">引用").prefix).toBe(">");
+  });
+
+  it("入れ子の装飾を子ノードから復元する", () => {
+    const parsed = parseLine("[*/   太字の中 `code` #tag]");
+    expect(stringifyNode(parsed.nodes[0])).toBe("[*/   太字の中 `code` #tag]");
+  });
+});
+
+describe("parseLine - 位置情報", () => {
+  it("すべてのノードの位置が元の行の範囲と一致する", () => {
+    for (const line of [...fixtureLines, ...randomLines]) {
+      expectValidPositions(line, parseLine(line));
+    }
+  });
+
+  it("インデントと行頭記号の後から位置を数える", () => {
+    const parsed = parseLine("  > [リンク]");
+    expect(parsed.indentText).toBe("  ");
+    expect(parsed.prefix).toBe("> ");
+    expect(parsed.nodes[0]).toMatchObject({ type: "internal-link", start: 4, end: 9 });
+  });
+
+  it("装飾の子ノードは行頭からの位置を持つ", () => {
+    const parsed = parseLine("ab[* cd `e`]");
+    const deco = parsed.nodes[1];
+    expect(deco).toMatchObject({ type: "decoration", start: 2, end: 12 });
+    if (deco.type === "decoration") {
+      expect(deco.children[0]).toMatchObject({ type: "text", start: 5, end: 8 });
+    }
+  });
+
+  it("テーブルのセルはタブの後から位置を数える", () => {
+    const parsed = parseLine(" a\t[b]", false, true);
+    expect(parsed.tableCells?.[1][0]).toMatchObject({ type: "internal-link", start: 3, end: 6 });
+  });
+
+  it("parseLines は行をページ全体での位置に設定する", () => {
+    const lines = ["タイトル", "code:a.js", " const a = 1;", "", "本文"];
+    const text = lines.join("\n");
+    const parsedLines = parseLines(lines);
+    parsedLines.forEach((parsed, i) => {
+      expect(text.slice(parsed.start, parsed.end)).toBe(lines[i]);
+    });
+  });
+});
+
+describe("rewriteImageUrls", () => {
+  const rewrite = (url: string) =>
+    url === "https://example.com/a.png" ? "../assets/images/a.png" : null;
+
+  it("画像記法のURLだけを置き換える", () => {
+    const lines = rewriteImageUrls(
+      ["タイトル", "[https://example.com/a.png] 元URL https://example.com/a.png"],
+      rewrite
+    );
+    expect(lines[1]).toBe("[../assets/images/a.png] 元URL https://example.com/a.png");
+  });
+
+  it("URLの一部として現れる別のURLは置き換えない", () => {
+    const lines = rewriteImageUrls(
+      ["[https://example.com/a.png.bak https://example.com/a.png.bak] [https://example.com/a.png]"],
+      rewrite
+    );
+    expect(lines[0]).toBe(
+      "[https://example.com/a.png.bak https://example.com/a.png.bak] [../assets/images/a.png]"
+    );
+  });
+
+  it("コードブロック内のURLは置き換えない", () => {
+    const lines = ["code:a.txt", " [https://example.com/a.png]"];
+    expect(rewriteImageUrls(lines, rewrite)).toEqual(lines);
+  });
+
+  it("装飾・テーブルセル内の画像も置き換える", () => {
+    const lines = rewriteImageUrls(
+      ["[** https://example.com/a.png]", "table:t", " x\t[https://example.com/a.png]"],
+      rewrite
+    );
+    expect(lines).toEqual([
+      "[** ../assets/images/a.png]",
+      "table:t",
+      " x\t[../assets/images/a.png]",
+    ]);
+  });
+
+  it("リンク付き画像は画像のURLだけを置き換える", () => {
+    const lines = rewriteImageUrls(
+      ["[https://example.com/a.png https://example.com/a.png/page]"],
+      rewrite
+    );
+    expect(lines[0]).toBe("[../assets/images/a.png https://example.com/a.png/page]");
+  });
+
+  it("括弧なしの画像URLはオプション指定時のみ画像記法にして置き換える", () => {
+    const lines = ["画像 https://example.com/a.png です"];
+    expect(rewriteImageUrls(lines, rewrite)).toEqual(lines);
+    expect(rewriteImageUrls(lines, rewrite, { bareImageUrls: true })).toEqual([
+      "画像 [../assets/images/a.png] です",
+    ]);
+  });
+
+  it("置き換えのない行はそのまま返す", () => {
+    const lines = ["[https://gyazo.com/abc]", "テキスト"];
+    expect(rewriteImageUrls(lines, rewrite)).toEqual(lines);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * プレーンテキスト抽出のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { extractPlainText, extractLineText, extractTextFromNode } from "../../src/parser/plain-text.js";
+import { parseLine, parseLines } from "../../src/parser/line-parser.js";
+
+describe("extractPlainText", () => {
+  it("Cosense記法を除去してプレーンテキストを抽出する", () => {
+    const content = extractPlainText(parseLines(["[リンク]と#タグと`コード`を含む行", "[* 太字]と[/ 斜体]の装飾"]));
+
+    // リンクやタグのテキストは残るが、記法の記号は除去される
+    expect(content).toContain("リンク");
+    expect(content).toContain("タグ");
+    expect(content).toContain("コード");
+    expect(content).toContain("太字");
+    expect(content).toContain("斜体");
+  });
+
+  it("テーブルのセルのテキストを含む", () => {
+    const content = extractPlainText(parseLines(["table:一覧", " [リンク]\t値", " 項目\t[* 太字]"]));
+
+    expect(content).toContain("リンク\t値");
+    expect(content).toContain("項目\t太字");
+  });
+});
+
+describe("extractLineText", () => {
+  it("テーブルの行はセルを指定した区切りで連結する", () => {
+    const [, row] = parseLines(["table:一覧", " [リンク]\t値"]);
+
+    expect(extractLineText(row)).toBe("リンク\t値");
+    expect(extractLineText(row, " / ")).toBe("リンク / 値");
+  });
+});
+
+describe("extractTextFromNode", () => {
+  it("装飾の中のテキストを連結し、画像はテキストなしにする", () => {
+    const nodes = parseLine("[* [リンク]と`コード`][https://example.com/a.png]").nodes;
+
+    expect(nodes.map(extractTextFromNode).join("")).toBe("リンクとコード");
+  });
+});
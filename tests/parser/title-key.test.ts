@@ -0,0 +1,38 @@
+/**
+ * タイトル正規化のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import { toTitleKey, createTitleIndex } from "../../src/parser/title-key.js";
+
+describe("toTitleKey", () => {
+  it("大文字・小文字を区別しない", () => {
+    expect(toTitleKey("Foo")).toBe(toTitleKey("foo"));
+  });
+
+  it("空白と_を同一視する", () => {
+    expect(toTitleKey("Foo Bar")).toBe("foo_bar");
+    expect(toTitleKey("foo_bar")).toBe("foo_bar");
+  });
+
+  it("日本語のタイトルはそのまま", () => {
+    expect(toTitleKey("日本語のページ")).toBe("日本語のページ");
+  });
+
+  it("全角スペースも_にする", () => {
+    expect(toTitleKey("日本語　ページ")).toBe("日本語_ページ");
+  });
+});
+
+describe("createTitleIndex", () => {
+  it("正規化キーから元のタイトルを引ける", () => {
+    const index = createTitleIndex(["Foo Bar", "ページ"]);
+    expect(index.get("foo_bar")).toBe("Foo Bar");
+    expect(index.get("ページ")).toBe("ページ");
+  });
+
+  it("同じキーのタイトルは最初のものを使う", () => {
+    const index = createTitleIndex(["Foo Bar", "foo_bar"]);
+    expect(index.size).toBe(1);
+    expect(index.get("foo_bar")).toBe("Foo Bar");
+  });
+});
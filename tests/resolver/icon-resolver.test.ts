@@ -0,0 +1,55 @@
+/**
+ * アイコン解決のユニットテスト
+ */
+import { describe, it, expect } from "vitest";
+import {
+  findFirstImageUrl,
+  resolveIconUrls,
+} from "../../src/resolver/icon-resolver.js";
+import type { CosensePage } from "../../src/parser/types.js";
+
+const createPage = (title: string, lines: string[]): CosensePage => ({
+  title,
+  created: 1700000000,
+  updated: 1700000000,
+  lines: [title, ...lines],
+});
+
+describe("findFirstImageUrl", () => {
+  it("ページの最初の画像URLを返す", () => {
+    const page = createPage("user", [
+      "自己紹介",
+      "[https://gyazo.com/first]",
+      "[https://example.com/second.png]",
+    ]);
+    expect(findFirstImageUrl(page)).toBe("https://gyazo.com/first");
+  });
+
+  it("画像がない場合はnullを返す", () => {
+    const page = createPage("user", ["テキストのみ"]);
+    expect(findFirstImageUrl(page)).toBeNull();
+  });
+
+  it("コードブロック内の画像記法は無視する", () => {
+    const page = createPage("user", [
+      "code:example.txt",
+      " [https://example.com/code.png]",
+      "[https://example.com/icon.png]",
+    ]);
+    expect(findFirstImageUrl(page)).toBe("https://example.com/icon.png");
+  });
+});
+
+describe("resolveIconUrls", () => {
+  it("画像のあるページのみマップに含める", () => {
+    const pages = [
+      createPage("alice", ["[https://example.com/alice.png]"]),
+      createPage("bob", ["画像なし"]),
+    ];
+
+    const iconUrls = resolveIconUrls(pages);
+
+    expect(iconUrls.get("alice")).toBe("https://example.com/alice.png");
+    expect(iconUrls.has("bob")).toBe(false);
+  });
+});